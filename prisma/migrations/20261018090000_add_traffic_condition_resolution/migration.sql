@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "traffic_conditions" ADD COLUMN     "reportedBy" TEXT,
+ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "traffic_conditions_latitude_longitude_idx" ON "traffic_conditions"("latitude", "longitude");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "optimized_routes" ADD COLUMN     "trafficIncidents" JSONB;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "vehicle_positions" (
+    "vehicleId" TEXT NOT NULL,
+    "routeId" TEXT,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "speed" DOUBLE PRECISION,
+    "heading" DOUBLE PRECISION,
+    "accuracy" DOUBLE PRECISION,
+    "recordedAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicle_positions_pkey" PRIMARY KEY ("vehicleId")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicle_positions_routeId_idx" ON "vehicle_positions"("routeId");
+
+-- AddForeignKey
+ALTER TABLE "vehicle_positions" ADD CONSTRAINT "vehicle_positions_routeId_fkey" FOREIGN KEY ("routeId") REFERENCES "optimized_routes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "RouteOptimizationStatus" ADD VALUE 'CANCELLED';
+
+-- CreateIndex
+CREATE INDEX "route_optimization_requests_userId_status_idx" ON "route_optimization_requests"("userId", "status");
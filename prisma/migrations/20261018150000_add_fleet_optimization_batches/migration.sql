@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "route_optimization_requests" ADD COLUMN     "batchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "fleet_optimization_batches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "vehicles" JSONB NOT NULL,
+    "unassignedStops" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fleet_optimization_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "route_optimization_requests_batchId_idx" ON "route_optimization_requests"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "route_optimization_requests" ADD CONSTRAINT "route_optimization_requests_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "fleet_optimization_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
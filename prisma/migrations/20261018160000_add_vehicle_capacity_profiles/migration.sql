@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "route_optimization_requests" ADD COLUMN     "capacity" JSONB;
+
+-- CreateTable
+CREATE TABLE "vehicle_capacity_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "maxWeight" DOUBLE PRECISION,
+    "maxVolume" DOUBLE PRECISION,
+    "maxPallets" INTEGER,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicle_capacity_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vehicle_capacity_profiles_name_key" ON "vehicle_capacity_profiles"("name");
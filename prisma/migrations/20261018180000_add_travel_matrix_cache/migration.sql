@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "travel_matrix_entries" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "originKey" TEXT NOT NULL,
+    "destinationKey" TEXT NOT NULL,
+    "timeBucket" INTEGER NOT NULL,
+    "distance" DOUBLE PRECISION,
+    "duration" INTEGER,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "travel_matrix_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "travel_matrix_entries_expiresAt_idx" ON "travel_matrix_entries"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "travel_matrix_entries_provider_timeBucket_originKey_destina_key" ON "travel_matrix_entries"("provider", "timeBucket", "originKey", "destinationKey");
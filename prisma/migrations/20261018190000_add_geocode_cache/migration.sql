@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "geocode_cache_entries" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "formattedAddress" TEXT NOT NULL,
+    "quality" TEXT NOT NULL,
+    "partialMatch" BOOLEAN NOT NULL DEFAULT false,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "geocode_cache_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "geocode_cache_entries_expiresAt_idx" ON "geocode_cache_entries"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "geocode_cache_entries_provider_query_key" ON "geocode_cache_entries"("provider", "query");
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "EtaTrigger" AS ENUM ('POSITION', 'TRAFFIC');
+
+-- CreateTable
+CREATE TABLE "eta_predictions" (
+    "id" TEXT NOT NULL,
+    "routeId" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "waypointIndex" INTEGER NOT NULL,
+    "plannedArrival" TIMESTAMP(3) NOT NULL,
+    "predictedArrival" TIMESTAMP(3) NOT NULL,
+    "trigger" "EtaTrigger" NOT NULL,
+    "predictedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "eta_predictions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "eta_predictions_routeId_waypointIndex_idx" ON "eta_predictions"("routeId", "waypointIndex");
+
+-- AddForeignKey
+ALTER TABLE "eta_predictions" ADD CONSTRAINT "eta_predictions_routeId_fkey" FOREIGN KEY ("routeId") REFERENCES "optimized_routes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
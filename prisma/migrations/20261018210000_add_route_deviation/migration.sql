@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "RouteUpdateReason" ADD VALUE 'DEVIATION';
+
+-- AlterTable
+ALTER TABLE "vehicle_positions" ADD COLUMN     "offRouteFixes" INTEGER NOT NULL DEFAULT 0;
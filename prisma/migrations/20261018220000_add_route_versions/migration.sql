@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "optimized_routes" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "route_versions" (
+    "id" TEXT NOT NULL,
+    "routeId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "totalDistance" DOUBLE PRECISION NOT NULL,
+    "totalDuration" INTEGER NOT NULL,
+    "waypoints" JSONB NOT NULL,
+    "polyline" TEXT,
+    "routeUpdateId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "route_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "route_versions_routeUpdateId_key" ON "route_versions"("routeUpdateId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "route_versions_routeId_version_key" ON "route_versions"("routeId", "version");
+
+-- AddForeignKey
+ALTER TABLE "route_versions" ADD CONSTRAINT "route_versions_routeId_fkey" FOREIGN KEY ("routeId") REFERENCES "optimized_routes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "route_versions" ADD CONSTRAINT "route_versions_routeUpdateId_fkey" FOREIGN KEY ("routeUpdateId") REFERENCES "route_updates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing routes start from their current plan; earlier plans were not kept
+INSERT INTO "route_versions" ("id", "routeId", "version", "totalDistance", "totalDuration", "waypoints", "polyline", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "totalDistance", "totalDuration", "waypoints", "polyline", "updatedAt"
+FROM "optimized_routes";
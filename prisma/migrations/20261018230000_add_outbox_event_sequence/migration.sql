@@ -0,0 +1,27 @@
+-- DropIndex
+DROP INDEX "outbox_events_status_createdAt_idx";
+
+-- AlterTable
+ALTER TABLE "outbox_events" ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "sequence" BIGSERIAL NOT NULL;
+
+-- Number existing events in the order they were written
+UPDATE "outbox_events" AS "event"
+SET "sequence" = "ordered"."position"
+FROM (
+    SELECT "id", row_number() OVER (ORDER BY "createdAt", "id") AS "position"
+    FROM "outbox_events"
+) AS "ordered"
+WHERE "event"."id" = "ordered"."id";
+
+SELECT setval(pg_get_serial_sequence('"outbox_events"', 'sequence'), COALESCE(MAX("sequence"), 0) + 1, false)
+FROM "outbox_events";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "outbox_events_sequence_key" ON "outbox_events"("sequence");
+
+-- CreateIndex
+CREATE INDEX "outbox_events_status_sequence_idx" ON "outbox_events"("status", "sequence");
+
+-- CreateIndex
+CREATE INDEX "outbox_events_partitionKey_sequence_idx" ON "outbox_events"("partitionKey", "sequence");
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "optimized_routes" ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 0;
+
+-- Give every stop of the stored routes an id that survives re-planning; breaks have none
+UPDATE "optimized_routes"
+SET "waypoints" = (
+    SELECT jsonb_agg(
+        CASE
+            WHEN "waypoint"->>'type' = 'BREAK' OR "waypoint" ? 'stopId' THEN "waypoint"
+            ELSE "waypoint" || jsonb_build_object('stopId', gen_random_uuid()::text)
+        END
+        ORDER BY "position"
+    )
+    FROM jsonb_array_elements("waypoints") WITH ORDINALITY AS "elements"("waypoint", "position")
+)
+WHERE jsonb_typeof("waypoints") = 'array' AND jsonb_array_length("waypoints") > 0;
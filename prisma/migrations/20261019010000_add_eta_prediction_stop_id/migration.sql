@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "eta_predictions" ADD COLUMN     "stopId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "eta_predictions_routeId_stopId_idx" ON "eta_predictions"("routeId", "stopId");
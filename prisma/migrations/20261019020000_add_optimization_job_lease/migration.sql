@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "route_optimization_requests" ADD COLUMN     "leaseExpiresAt" TIMESTAMP(3);
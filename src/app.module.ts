@@ -7,11 +7,47 @@ import { HealthController } from './health.controller';
 import { MetricsController } from './metrics.controller';
 import { MetricsMiddleware } from './metrics.middleware';
 import { MetricsService } from './metrics.service';
-import { RouteOptimizationController } from './controllers';
-import { RouteOptimizationService, GoogleMapsService } from './services';
+import {
+  RouteOptimizationController,
+  TrafficConditionController,
+  OutboxController,
+  CapacityProfileController,
+  DistanceMatrixController,
+  GeocodingController,
+  StopImportController,
+  RouteStopController,
+} from './controllers';
+import {
+  RouteOptimizationService,
+  GoogleMapsService,
+  TrafficConditionService,
+  VehicleLocationService,
+  OutboxService,
+  OutboxRelayService,
+  RouteOptimizationJobService,
+  FleetOptimizationService,
+  CapacityProfileService,
+  DistanceMatrixService,
+  GeocodingService,
+  RouteExportService,
+  StopImportService,
+  EtaService,
+  GeofenceService,
+  DeviationService,
+  RouteStopService,
+  RouteVersionService,
+} from './services';
+import {
+  RoutingService,
+  HaversineRoutingProvider,
+  OsrmRoutingProvider,
+  GraphHopperRoutingProvider,
+} from './routing';
+import { FixtureGeocoder } from './geocoding';
 import { PrismaService } from './prisma/prisma.service';
 import { RouteOptimizationGateway } from './websocket/route-optimization.gateway';
 import { KafkaModule } from './kafka/kafka.module';
+import { VehicleLocationConsumer } from './kafka/vehicle-location.consumer';
 import { AuthGuard } from '@yatms/common';
 import { RolesGuard } from './guards/roles.guard';
 
@@ -28,13 +64,42 @@ import { RolesGuard } from './guards/roles.guard';
     HealthController,
     MetricsController,
     RouteOptimizationController,
+    TrafficConditionController,
+    OutboxController,
+    CapacityProfileController,
+    DistanceMatrixController,
+    GeocodingController,
+    StopImportController,
+    RouteStopController,
   ],
   providers: [
     AppService,
     MetricsMiddleware,
     MetricsService,
     RouteOptimizationService,
+    RouteOptimizationJobService,
+    FleetOptimizationService,
     GoogleMapsService,
+    HaversineRoutingProvider,
+    OsrmRoutingProvider,
+    GraphHopperRoutingProvider,
+    RoutingService,
+    TrafficConditionService,
+    CapacityProfileService,
+    DistanceMatrixService,
+    GeocodingService,
+    FixtureGeocoder,
+    RouteExportService,
+    StopImportService,
+    EtaService,
+    GeofenceService,
+    DeviationService,
+    RouteStopService,
+    RouteVersionService,
+    VehicleLocationService,
+    VehicleLocationConsumer,
+    OutboxService,
+    OutboxRelayService,
     PrismaService,
     RouteOptimizationGateway,
     Reflector,
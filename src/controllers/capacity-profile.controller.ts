@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { CapacityProfileService } from '../services/capacity-profile.service';
+import {
+  CreateCapacityProfileDto,
+  UpdateCapacityProfileDto,
+  createCapacityProfileSchema,
+  updateCapacityProfileSchema,
+} from '../dto/capacity-profile.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+@Controller('traffic/capacity-profiles')
+@UseGuards(AuthGuard, RolesGuard)
+export class CapacityProfileController {
+  constructor(
+    private readonly capacityProfileService: CapacityProfileService,
+  ) {}
+
+  @Get()
+  @Roles('driver', 'fleet_manager', 'admin')
+  async listProfiles() {
+    return this.capacityProfileService.listProfiles();
+  }
+
+  @Get(':id')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getProfile(@Param('id') id: string) {
+    return this.capacityProfileService.getProfile(id);
+  }
+
+  @Post()
+  @Roles('fleet_manager', 'admin')
+  async createProfile(
+    @Body(createZodValidationPipe(createCapacityProfileSchema))
+    createDto: CreateCapacityProfileDto,
+    @Request() req: any,
+  ) {
+    return this.capacityProfileService.createProfile(
+      createDto,
+      req.user?.userId,
+    );
+  }
+
+  @Patch(':id')
+  @Roles('fleet_manager', 'admin')
+  async updateProfile(
+    @Param('id') id: string,
+    @Body(createZodValidationPipe(updateCapacityProfileSchema))
+    updateDto: UpdateCapacityProfileDto,
+  ) {
+    return this.capacityProfileService.updateProfile(id, updateDto);
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  async deleteProfile(@Param('id') id: string) {
+    return this.capacityProfileService.deleteProfile(id);
+  }
+}
@@ -0,0 +1,23 @@
+import { Controller, Post, Body, UseGuards } from '@nestjs/common';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { DistanceMatrixService } from '../services/distance-matrix.service';
+import {
+  DistanceMatrixDto,
+  distanceMatrixSchema,
+} from '../dto/distance-matrix.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+@Controller('traffic/matrix')
+@UseGuards(AuthGuard, RolesGuard)
+export class DistanceMatrixController {
+  constructor(private readonly distanceMatrixService: DistanceMatrixService) {}
+
+  @Post()
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getMatrix(
+    @Body(createZodValidationPipe(distanceMatrixSchema))
+    matrixDto: DistanceMatrixDto,
+  ) {
+    return this.distanceMatrixService.getMatrix(matrixDto);
+  }
+}
@@ -0,0 +1,35 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { GeocodingService } from '../services/geocoding.service';
+import {
+  GeocodeAddressDto,
+  ReverseGeocodeDto,
+  geocodeAddressSchema,
+  reverseGeocodeSchema,
+} from '../dto/geocoding.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+@Controller('traffic/geocode')
+@UseGuards(AuthGuard, RolesGuard)
+export class GeocodingController {
+  constructor(private readonly geocodingService: GeocodingService) {}
+
+  @Get()
+  @Roles('driver', 'fleet_manager', 'admin')
+  async geocode(
+    @Query(createZodValidationPipe(geocodeAddressSchema))
+    query: GeocodeAddressDto,
+  ) {
+    return this.geocodingService.geocode(query.address);
+  }
+
+  // Shows a driver-reported position as an address
+  @Get('reverse')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async reverseGeocode(
+    @Query(createZodValidationPipe(reverseGeocodeSchema))
+    query: ReverseGeocodeDto,
+  ) {
+    return this.geocodingService.reverseGeocode(query);
+  }
+}
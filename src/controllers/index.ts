@@ -1,2 +1,8 @@
 export * from './route-optimization.controller';
-
+export * from './traffic-condition.controller';
+export * from './outbox.controller';
+export * from './capacity-profile.controller';
+export * from './distance-matrix.controller';
+export * from './geocoding.controller';
+export * from './stop-import.controller';
+export * from './route-stop.controller';
@@ -0,0 +1,38 @@
+import { Controller, Get, Post, Param, Query, UseGuards } from '@nestjs/common';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { OutboxService } from '../services/outbox.service';
+import { OutboxRelayService } from '../services/outbox-relay.service';
+import { OutboxQueryDto, outboxQuerySchema } from '../dto/outbox.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+@Controller('traffic/outbox')
+@UseGuards(AuthGuard, RolesGuard)
+@Roles('admin')
+export class OutboxController {
+  constructor(
+    private readonly outboxService: OutboxService,
+    private readonly outboxRelayService: OutboxRelayService,
+  ) {}
+
+  @Get()
+  async listEvents(
+    @Query(createZodValidationPipe(outboxQuerySchema)) query: OutboxQueryDto,
+  ) {
+    return this.outboxService.listEvents(query.status);
+  }
+
+  @Post('replay')
+  async replayFailedEvents() {
+    return this.outboxService.replayFailedEvents();
+  }
+
+  @Post('relay')
+  async relayNow() {
+    return this.outboxRelayService.relayPendingEvents();
+  }
+
+  @Post(':id/replay')
+  async replayEvent(@Param('id') id: string) {
+    return this.outboxService.replayEvent(id);
+  }
+}
@@ -5,20 +5,36 @@ import {
   Put,
   Body,
   Param,
+  ParseIntPipe,
+  Query,
   UseGuards,
   Request,
+  Res,
+  HttpStatus,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { RouteOptimizationService } from '../services/route-optimization.service';
+import { RouteOptimizationJobService } from '../services/route-optimization-job.service';
+import { FleetOptimizationService } from '../services/fleet-optimization.service';
+import { RouteExportService } from '../services/route-export.service';
+import { EtaService } from '../services/eta.service';
+import { RouteVersionService } from '../services/route-version.service';
 import { 
-  OptimizeRouteDto, 
-  RouteUpdateDto,
-  optimizeRouteSchema,
-  routeUpdateSchema,
   createZodValidationPipe,
   AuthGuard,
   Roles 
 } from '@yatms/common';
 import { RolesGuard } from '../guards/roles.guard';
+import { RoutingService } from '../routing/routing.service';
+import { RouteReplanDto, routeReplanSchema } from '../dto/route-update.dto';
+import {
+  OptimizeRouteInputDto,
+  optimizeRouteRequestSchema,
+} from '../dto/optimize-route.dto';
+import { FleetOptimizeDto, fleetOptimizeSchema } from '../dto/fleet-optimization.dto';
+import { RouteExportQueryDto, routeExportQuerySchema } from '../dto/route-export.dto';
+import { RouteVersionDiffQueryDto, routeVersionDiffQuerySchema } from '../dto/route-version.dto';
+import { CompareRoutesDto, compareRoutesSchema } from '../dto/route-comparison.dto';
 
 
 
@@ -27,13 +43,21 @@ import { RolesGuard } from '../guards/roles.guard';
 export class RouteOptimizationController {
   constructor(
     private readonly routeOptimizationService: RouteOptimizationService,
+    private readonly routeOptimizationJobService: RouteOptimizationJobService,
+    private readonly routingService: RoutingService,
+    private readonly fleetOptimizationService: FleetOptimizationService,
+    private readonly routeExportService: RouteExportService,
+    private readonly etaService: EtaService,
+    private readonly routeVersionService: RouteVersionService,
   ) {}
 
   @Post('optimize')
   @Roles('driver', 'fleet_manager', 'admin')
   async optimizeRoute(
-    @Body(createZodValidationPipe(optimizeRouteSchema)) optimizeRouteDto: OptimizeRouteDto,
+    @Body(createZodValidationPipe(optimizeRouteRequestSchema)) optimizeRouteDto: OptimizeRouteInputDto,
+    @Query('mode') mode: string | undefined,
     @Request() req: any,
+    @Res({ passthrough: true }) res: Response,
   ) {
     const userId = req.user?.userId;
 
@@ -41,9 +65,70 @@ export class RouteOptimizationController {
       throw new Error('User ID not found in request');
     }
 
+    // Async mode queues the job and answers immediately; progress arrives over the gateway
+    if (mode === 'async') {
+      res.status(HttpStatus.ACCEPTED);
+      return this.routeOptimizationJobService.submit(optimizeRouteDto, userId);
+    }
+
     return this.routeOptimizationService.optimizeRoute(optimizeRouteDto, userId);
   }
 
+  @Post('jobs/:requestId/cancel')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async cancelOptimization(
+    @Param('requestId') requestId: string,
+    @Request() req: any,
+  ) {
+    return this.routeOptimizationJobService.cancel(
+      requestId,
+      req.user?.userId,
+      req.user?.roles || [],
+    );
+  }
+
+  @Get('jobs/stats')
+  @Roles('fleet_manager', 'admin')
+  async getJobStats() {
+    return this.routeOptimizationJobService.getQueueStats();
+  }
+
+  // What-if planning: nothing is stored, and the chosen variant's request can be submitted to optimize
+  @Post('compare')
+  @Roles('fleet_manager', 'admin')
+  async compareRoutes(
+    @Body(createZodValidationPipe(compareRoutesSchema)) compareDto: CompareRoutesDto,
+  ) {
+    return this.routeOptimizationService.compareRoutes(compareDto);
+  }
+
+  @Post('fleet/optimize')
+  @Roles('fleet_manager', 'admin')
+  async optimizeFleet(
+    @Body(createZodValidationPipe(fleetOptimizeSchema)) fleetOptimizeDto: FleetOptimizeDto,
+    @Request() req: any,
+  ) {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.fleetOptimizationService.optimizeFleet(fleetOptimizeDto, userId);
+  }
+
+  @Get('fleet/:batchId')
+  @Roles('fleet_manager', 'admin')
+  async getFleetBatch(@Param('batchId') batchId: string) {
+    return this.fleetOptimizationService.getBatch(batchId);
+  }
+
+  @Get('providers')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getRoutingProviders() {
+    return { providers: this.routingService.listProviders() };
+  }
+
   @Post('test')
   async testRoute(@Request() req: any) {
     return {
@@ -69,14 +154,21 @@ export class RouteOptimizationController {
   }
 
   @Get('status/:requestId')
-  async getRouteStatus(@Param('requestId') requestId: string) {
-    return this.routeOptimizationService.getRouteStatus(requestId);
+  async getRouteStatus(
+    @Param('requestId') requestId: string,
+    @Query('geometry') geometry: string | undefined,
+  ) {
+    // ?geometry=true adds the decoded polyline coordinates to each route
+    return this.routeOptimizationService.getRouteStatus(requestId, geometry === 'true');
   }
 
   @Get('tracking/:vehicleId')
   @Roles('driver', 'fleet_manager', 'admin')
-  async getRouteTracking(@Param('vehicleId') vehicleId: string) {
-    return this.routeOptimizationService.getRouteTracking(vehicleId);
+  async getRouteTracking(
+    @Param('vehicleId') vehicleId: string,
+    @Query('geometry') geometry: string | undefined,
+  ) {
+    return this.routeOptimizationService.getRouteTracking(vehicleId, geometry === 'true');
   }
 
   @Get('history/:userId')
@@ -96,11 +188,57 @@ export class RouteOptimizationController {
     return this.routeOptimizationService.getRouteHistory(userId);
   }
 
+  @Get(':routeId/export')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async exportRoute(
+    @Param('routeId') routeId: string,
+    @Query(createZodValidationPipe(routeExportQuerySchema)) query: RouteExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { content, contentType, filename } = await this.routeExportService.exportRoute(routeId, query.format);
+    res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    return content;
+  }
+
+  // Live ETA predictions for the route and how close they came to actual arrivals
+  @Get(':routeId/eta-history')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getEtaHistory(@Param('routeId') routeId: string) {
+    return this.etaService.getEtaHistory(routeId);
+  }
+
+  // Every plan the route has had and the re-plan behind each
+  @Get(':routeId/versions')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getRouteVersions(@Param('routeId') routeId: string) {
+    return this.routeVersionService.listVersions(routeId);
+  }
+
+  // Declared before :version so "diff" isn't read as a version number
+  @Get(':routeId/versions/diff')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async diffRouteVersions(
+    @Param('routeId') routeId: string,
+    @Query(createZodValidationPipe(routeVersionDiffQuerySchema)) query: RouteVersionDiffQueryDto,
+  ) {
+    return this.routeVersionService.diffVersions(routeId, query.from, query.to);
+  }
+
+  @Get(':routeId/versions/:version')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getRouteVersion(
+    @Param('routeId') routeId: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.routeVersionService.getVersion(routeId, version);
+  }
+
   @Put(':routeId/update')
   @Roles('driver', 'fleet_manager', 'admin')
   async updateRoute(
     @Param('routeId') routeId: string,
-    @Body(createZodValidationPipe(routeUpdateSchema)) updateDto: RouteUpdateDto,
+    @Body(createZodValidationPipe(routeReplanSchema)) updateDto: RouteReplanDto,
     @Request() req: any,
   ) {
     const vehicleId = req.body?.vehicleId || req.query?.vehicleId;
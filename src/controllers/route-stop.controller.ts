@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { RouteStopService } from '../services/route-stop.service';
+import {
+  CompleteStopDto,
+  FailStopDto,
+  SkipStopDto,
+  completeStopSchema,
+  failStopSchema,
+  skipStopSchema,
+} from '../dto/route-stop.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+// Stops are addressed by the stopId they keep across re-plans
+@Controller('traffic/routes/:routeId/stops')
+@UseGuards(AuthGuard, RolesGuard)
+export class RouteStopController {
+  constructor(private readonly routeStopService: RouteStopService) {}
+
+  @Get()
+  @Roles('driver', 'fleet_manager', 'admin')
+  async listStops(@Param('routeId') routeId: string) {
+    return this.routeStopService.listStops(routeId);
+  }
+
+  @Post(':stopId/arrive')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async arriveAtStop(
+    @Param('routeId') routeId: string,
+    @Param('stopId') stopId: string,
+    @Request() req: any,
+  ) {
+    return this.routeStopService.arriveAtStop(
+      routeId,
+      stopId,
+      req.user?.userId ?? null,
+    );
+  }
+
+  @Post(':stopId/complete')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async completeStop(
+    @Param('routeId') routeId: string,
+    @Param('stopId') stopId: string,
+    @Body(createZodValidationPipe(completeStopSchema))
+    completeDto: CompleteStopDto,
+    @Request() req: any,
+  ) {
+    return this.routeStopService.completeStop(
+      routeId,
+      stopId,
+      completeDto,
+      req.user?.userId ?? null,
+    );
+  }
+
+  @Post(':stopId/fail')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async failStop(
+    @Param('routeId') routeId: string,
+    @Param('stopId') stopId: string,
+    @Body(createZodValidationPipe(failStopSchema)) failDto: FailStopDto,
+    @Request() req: any,
+  ) {
+    return this.routeStopService.failStop(
+      routeId,
+      stopId,
+      failDto,
+      req.user?.userId ?? null,
+    );
+  }
+
+  @Post(':stopId/skip')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async skipStop(
+    @Param('routeId') routeId: string,
+    @Param('stopId') stopId: string,
+    @Body(createZodValidationPipe(skipStopSchema)) skipDto: SkipStopDto,
+    @Request() req: any,
+  ) {
+    return this.routeStopService.skipStop(
+      routeId,
+      stopId,
+      skipDto,
+      req.user?.userId ?? null,
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Post,
+  Request,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { StopImportService } from '../services/stop-import.service';
+import {
+  MAX_IMPORT_FILE_BYTES,
+  StopImportDto,
+  UploadedStopFile,
+  stopImportSchema,
+} from '../dto/stop-import.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+@Controller('traffic/stops')
+@UseGuards(AuthGuard, RolesGuard)
+export class StopImportController {
+  constructor(private readonly stopImportService: StopImportService) {}
+
+  // multipart/form-data with the stops in a "file" field
+  @Post('import')
+  @Roles('fleet_manager', 'admin')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }),
+  )
+  async importStops(
+    @UploadedFile() file: UploadedStopFile | undefined,
+    @Body(createZodValidationPipe(stopImportSchema)) importDto: StopImportDto,
+    @Request() req: any,
+  ) {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new Error('User ID not found in request');
+    }
+
+    return this.stopImportService.importStops(file, importDto, userId);
+  }
+}
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TrafficConditionService } from '../services/traffic-condition.service';
+import { EtaService } from '../services/eta.service';
+import { TrafficConditionController } from './traffic-condition.controller';
+
+describe('TrafficConditionController', () => {
+  let controller: TrafficConditionController;
+  let trafficConditionService: Record<string, jest.Mock>;
+  let refreshActiveRoutes: jest.Mock;
+
+  beforeEach(async () => {
+    trafficConditionService = {
+      findConditions: jest.fn(),
+      createCondition: jest.fn().mockResolvedValue({ id: 'condition-1' }),
+      resolveCondition: jest.fn().mockResolvedValue({ id: 'condition-1' }),
+      deleteCondition: jest
+        .fn()
+        .mockResolvedValue({ id: 'condition-1', deleted: true }),
+    };
+    refreshActiveRoutes = jest.fn().mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TrafficConditionController],
+      providers: [
+        { provide: TrafficConditionService, useValue: trafficConditionService },
+        { provide: EtaService, useValue: { refreshActiveRoutes } },
+      ],
+    }).compile();
+
+    controller = module.get(TrafficConditionController);
+  });
+
+  it('searches conditions without touching ETAs', async () => {
+    const query = { latitude: 52.52, longitude: 13.405, radius: 1000 };
+    trafficConditionService.findConditions.mockResolvedValue({
+      conditions: [],
+      totalConditions: 0,
+      truncated: false,
+    });
+
+    await expect(controller.findConditions(query)).resolves.toEqual({
+      conditions: [],
+      totalConditions: 0,
+      truncated: false,
+    });
+    expect(trafficConditionService.findConditions).toHaveBeenCalledWith(query);
+    expect(refreshActiveRoutes).not.toHaveBeenCalled();
+  });
+
+  it('records the reporting user and refreshes ETAs', async () => {
+    const createDto = {
+      latitude: 52.52,
+      longitude: 13.405,
+      condition: 'BLOCKED' as const,
+      severity: 'HIGH' as const,
+      description: 'Two lanes blocked',
+    };
+
+    await controller.createCondition(createDto, { user: { userId: 'user-1' } });
+
+    expect(trafficConditionService.createCondition).toHaveBeenCalledWith(
+      createDto,
+      'user-1',
+    );
+    expect(refreshActiveRoutes).toHaveBeenCalledTimes(1);
+  });
+
+  it('refreshes ETAs when a condition is resolved or deleted', async () => {
+    await controller.resolveCondition('condition-1', {
+      user: { userId: 'user-2' },
+    });
+    await controller.deleteCondition('condition-1');
+
+    expect(trafficConditionService.resolveCondition).toHaveBeenCalledWith(
+      'condition-1',
+      'user-2',
+    );
+    expect(trafficConditionService.deleteCondition).toHaveBeenCalledWith(
+      'condition-1',
+    );
+    expect(refreshActiveRoutes).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { createZodValidationPipe, AuthGuard, Roles } from '@yatms/common';
+import { TrafficConditionService } from '../services/traffic-condition.service';
+import { EtaService } from '../services/eta.service';
+import {
+  CreateTrafficConditionDto,
+  UpdateTrafficConditionDto,
+  TrafficConditionsFilterDto,
+  createTrafficConditionSchema,
+  updateTrafficConditionSchema,
+  trafficConditionsQuerySchema,
+} from '../dto/traffic-condition.dto';
+import { RolesGuard } from '../guards/roles.guard';
+
+@Controller('traffic/conditions')
+@UseGuards(AuthGuard, RolesGuard)
+export class TrafficConditionController {
+  constructor(
+    private readonly trafficConditionService: TrafficConditionService,
+    private readonly etaService: EtaService,
+  ) {}
+
+  @Get()
+  @Roles('driver', 'fleet_manager', 'admin')
+  async findConditions(
+    @Query(createZodValidationPipe(trafficConditionsQuerySchema))
+    query: TrafficConditionsFilterDto,
+  ) {
+    return this.trafficConditionService.findConditions(query);
+  }
+
+  @Get(':id')
+  @Roles('driver', 'fleet_manager', 'admin')
+  async getCondition(@Param('id') id: string) {
+    return this.trafficConditionService.getCondition(id);
+  }
+
+  @Post()
+  @Roles('driver', 'fleet_manager', 'admin')
+  async createCondition(
+    @Body(createZodValidationPipe(createTrafficConditionSchema))
+    createDto: CreateTrafficConditionDto,
+    @Request() req: any,
+  ) {
+    const condition = await this.trafficConditionService.createCondition(
+      createDto,
+      req.user?.userId,
+    );
+    this.refreshEtas();
+    return condition;
+  }
+
+  @Patch(':id')
+  @Roles('fleet_manager', 'admin')
+  async updateCondition(
+    @Param('id') id: string,
+    @Body(createZodValidationPipe(updateTrafficConditionSchema))
+    updateDto: UpdateTrafficConditionDto,
+  ) {
+    const condition = await this.trafficConditionService.updateCondition(
+      id,
+      updateDto,
+    );
+    this.refreshEtas();
+    return condition;
+  }
+
+  @Post(':id/resolve')
+  @Roles('fleet_manager', 'admin')
+  async resolveCondition(@Param('id') id: string, @Request() req: any) {
+    const condition = await this.trafficConditionService.resolveCondition(
+      id,
+      req.user?.userId,
+    );
+    this.refreshEtas();
+    return condition;
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  async deleteCondition(@Param('id') id: string) {
+    const deleted = await this.trafficConditionService.deleteCondition(id);
+    this.refreshEtas();
+    return deleted;
+  }
+
+  // Routes on the road get new ETAs in the background; failures are only logged
+  private refreshEtas() {
+    void this.etaService.refreshActiveRoutes();
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Weight in kg, volume in m³
+export const loadSchema = z
+  .object({
+    weight: z.number().nonnegative().optional(),
+    volume: z.number().nonnegative().optional(),
+    pallets: z.number().int().nonnegative().optional(),
+  })
+  .refine((load) => Object.keys(load).length > 0, {
+    message: 'At least one of weight, volume or pallets must be provided',
+  });
+
+export const createCapacityProfileSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  maxWeight: z.number().positive().optional(),
+  maxVolume: z.number().positive().optional(),
+  maxPallets: z.number().int().positive().optional(),
+});
+
+export const updateCapacityProfileSchema = createCapacityProfileSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type CreateCapacityProfileDto = z.infer<
+  typeof createCapacityProfileSchema
+>;
+export type UpdateCapacityProfileDto = z.infer<
+  typeof updateCapacityProfileSchema
+>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { ROUTING_PROVIDER_NAMES } from '../routing/routing-provider.interface';
+
+// Keeps a single request within what the providers accept and the cache can look up at once
+export const MAX_MATRIX_POINTS = 100;
+
+const matrixPointSchema = z.object({
+  // Caller's own reference, e.g. a driver or stop ID, echoed back as is
+  id: z.string().max(100).optional(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const distanceMatrixSchema = z.object({
+  origins: z.array(matrixPointSchema).min(1).max(MAX_MATRIX_POINTS),
+  // Omit for a square matrix between the origins
+  destinations: z
+    .array(matrixPointSchema)
+    .min(1)
+    .max(MAX_MATRIX_POINTS)
+    .optional(),
+  routingProvider: z.enum(ROUTING_PROVIDER_NAMES).optional(),
+  departureTime: z.iso.datetime({ offset: true }).optional(),
+});
+
+export type MatrixPointDto = z.infer<typeof matrixPointSchema>;
+export type DistanceMatrixDto = z.infer<typeof distanceMatrixSchema>;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { stopSchema } from '@yatms/common';
+import {
+  addShipmentIssues,
+  hasSingleCapacitySource,
+  routeStopInputSchema,
+  routingPreferencesSchema,
+  singleCapacitySourceError,
+  vehicleCapacityFields,
+} from './optimize-route.dto';
+
+export const fleetVehicleSchema = z
+  .object({
+    vehicleId: z.string().min(1),
+    depot: stopSchema,
+    shiftStart: z.iso.datetime({ offset: true }).optional(),
+    shiftEnd: z.iso.datetime({ offset: true }),
+    ...vehicleCapacityFields,
+  })
+  .refine(hasSingleCapacitySource, singleCapacitySourceError)
+  .refine(
+    (vehicle) =>
+      !vehicle.shiftStart ||
+      Date.parse(vehicle.shiftStart) < Date.parse(vehicle.shiftEnd),
+    { message: 'Shift must end after it starts', path: ['shiftEnd'] },
+  );
+
+// Routes start at each vehicle's depot and end wherever the last stop is,
+// so the single-route routeMode and departureTime preferences don't apply.
+// A pickup and its delivery always go to the same vehicle.
+export const fleetOptimizeSchema = z
+  .object({
+    vehicles: z
+      .array(fleetVehicleSchema)
+      .min(1)
+      .refine(
+        (vehicles) =>
+          new Set(vehicles.map((vehicle) => vehicle.vehicleId)).size ===
+          vehicles.length,
+        { message: 'Vehicle IDs must be unique' },
+      ),
+    stops: z.array(routeStopInputSchema).min(1),
+    preferences: routingPreferencesSchema.omit({
+      routeMode: true,
+      departureTime: true,
+    }),
+  })
+  .superRefine((dto, ctx) =>
+    addShipmentIssues(dto.stops, ctx, { hasOrigin: false }),
+  );
+
+export type FleetVehicleDto = z.infer<typeof fleetVehicleSchema>;
+export type FleetOptimizeDto = z.infer<typeof fleetOptimizeSchema>;
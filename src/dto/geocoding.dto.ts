@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Query parameters arrive as strings
+export const reverseGeocodeSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+export const geocodeAddressSchema = z.object({
+  address: z.string().trim().min(1).max(500),
+});
+
+export type ReverseGeocodeDto = z.infer<typeof reverseGeocodeSchema>;
+export type GeocodeAddressDto = z.infer<typeof geocodeAddressSchema>;
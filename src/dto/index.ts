@@ -1,2 +1,15 @@
 export * from './route-optimization.dto';
-
+export * from './traffic-condition.dto';
+export * from './capacity-profile.dto';
+export * from './optimize-route.dto';
+export * from './fleet-optimization.dto';
+export * from './route-update.dto';
+export * from './vehicle-location.dto';
+export * from './outbox.dto';
+export * from './distance-matrix.dto';
+export * from './geocoding.dto';
+export * from './route-export.dto';
+export * from './stop-import.dto';
+export * from './route-stop.dto';
+export * from './route-version.dto';
+export * from './route-comparison.dto';
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import {
+  optimizeRouteSchema,
+  routePreferencesSchema,
+  stopSchema,
+} from '@yatms/common';
+import {
+  DRIVER_RULES_PROFILE_NAMES,
+  ROUTE_MODES,
+  ROUTING_PROVIDER_NAMES,
+  STOP_TYPES,
+} from '../routing/routing-provider.interface';
+import { routeModeOf } from '../routing/routing.utils';
+import { ShipmentStop, findShipmentIssues } from '../routing/shipment.utils';
+import { loadSchema } from './capacity-profile.dto';
+
+export const timeWindowSchema = z
+  .object({
+    start: z.iso.datetime({ offset: true }),
+    end: z.iso.datetime({ offset: true }),
+  })
+  .refine((window) => Date.parse(window.start) <= Date.parse(window.end), {
+    message: 'Time window must not end before it starts',
+    path: ['end'],
+  });
+
+export const MAX_GEOFENCE_RADIUS_METERS = 5000;
+
+// Extends the shared stop with a delivery window, how long serving it takes,
+// what is delivered there, the shipment it picks up or delivers and how close
+// the vehicle must come to count as arrived
+export const routeStopSchema = stopSchema.extend({
+  timeWindow: timeWindowSchema.optional(),
+  serviceDurationSeconds: z.number().int().nonnegative().optional(),
+  demand: loadSchema.optional(),
+  shipmentId: z.string().min(1).optional(),
+  stopType: z.enum(STOP_TYPES).optional(),
+  geofenceRadiusMeters: z
+    .number()
+    .positive()
+    .max(MAX_GEOFENCE_RADIUS_METERS)
+    .optional(),
+});
+
+// Stops may leave out their coordinates and be geocoded from the address
+export const routeStopInputSchema = routeStopSchema
+  .partial({ latitude: true, longitude: true })
+  .refine(
+    (stop) => (stop.latitude === undefined) === (stop.longitude === undefined),
+    {
+      message: 'Provide both latitude and longitude, or neither',
+      path: ['longitude'],
+    },
+  )
+  .refine(
+    (stop) => stop.latitude !== undefined || stop.address.trim().length > 0,
+    {
+      message: 'An address is required when coordinates are omitted',
+      path: ['address'],
+    },
+  );
+
+/**
+ * Report each malformed pickup/delivery pair against the stop at fault
+ */
+export const addShipmentIssues = (
+  stops: ShipmentStop[],
+  ctx: z.RefinementCtx,
+  options: Parameters<typeof findShipmentIssues>[1],
+) => {
+  for (const issue of findShipmentIssues(stops, options)) {
+    ctx.addIssue({
+      code: 'custom',
+      message: issue.message,
+      path: ['stops', issue.index],
+    });
+  }
+};
+
+// A vehicle's capacity is either a stored profile or given inline
+export const vehicleCapacityFields = {
+  capacityProfileId: z.uuid().optional(),
+  capacity: loadSchema.optional(),
+};
+
+export const hasSingleCapacitySource = (vehicle: {
+  capacityProfileId?: string;
+  capacity?: unknown;
+}) => !(vehicle.capacityProfileId && vehicle.capacity);
+
+export const singleCapacitySourceError = {
+  message: 'Provide either capacityProfileId or capacity, not both',
+  path: ['capacity'],
+};
+
+export const driverRulesSchema = z.object({
+  maxContinuousDrivingSeconds: z.number().int().positive(),
+  breakDurationSeconds: z.number().int().positive(),
+  maxShiftSeconds: z.number().int().positive(),
+});
+
+// Extends the shared preferences with the routing provider to plan with, where
+// the route finishes, when the vehicle sets off and the driver rules to follow,
+// either a named profile or custom limits
+export const routingPreferencesSchema = routePreferencesSchema.extend({
+  routingProvider: z.enum(ROUTING_PROVIDER_NAMES).optional(),
+  routeMode: z.enum(ROUTE_MODES).optional(),
+  departureTime: z.iso.datetime({ offset: true }).optional(),
+  driverRules: z
+    .union([z.enum(DRIVER_RULES_PROFILE_NAMES), driverRulesSchema])
+    .optional(),
+});
+
+export const optimizeRouteRequestSchema = optimizeRouteSchema
+  .extend({
+    stops: z.array(routeStopInputSchema).min(2),
+    preferences: routingPreferencesSchema,
+    ...vehicleCapacityFields,
+  })
+  .refine(hasSingleCapacitySource, singleCapacitySourceError)
+  .superRefine((dto, ctx) =>
+    addShipmentIssues(dto.stops, ctx, {
+      fixedEnd: routeModeOf(dto.preferences) === 'fixedEnd',
+    }),
+  );
+
+export type RouteStopDto = z.infer<typeof routeStopSchema>;
+export type RoutingPreferencesDto = z.infer<typeof routingPreferencesSchema>;
+export type RouteStopInputDto = z.infer<typeof routeStopInputSchema>;
+// As submitted, before address-only stops are geocoded
+export type OptimizeRouteInputDto = z.infer<typeof optimizeRouteRequestSchema>;
+export type OptimizeRouteRequestDto = Omit<OptimizeRouteInputDto, 'stops'> & {
+  stops: RouteStopDto[];
+};
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { OutboxEventStatus } from '@prisma/client';
+
+export const outboxQuerySchema = z.object({
+  status: z.enum(OutboxEventStatus).optional(),
+});
+
+export type OutboxQueryDto = z.infer<typeof outboxQuerySchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { routeModeOf } from '../routing/routing.utils';
+import {
+  addShipmentIssues,
+  hasSingleCapacitySource,
+  routeStopInputSchema,
+  routingPreferencesSchema,
+  singleCapacitySourceError,
+  vehicleCapacityFields,
+} from './optimize-route.dto';
+
+// Every variant is a full plan, so keep the number of provider calls small
+export const MAX_COMPARISON_VARIANTS = 6;
+
+export const routeVariantSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  preferences: routingPreferencesSchema,
+});
+
+// One stop list planned under several sets of preferences
+export const compareRoutesSchema = z
+  .object({
+    vehicleId: z.string().min(1),
+    stops: z.array(routeStopInputSchema).min(2),
+    ...vehicleCapacityFields,
+    variants: z
+      .array(routeVariantSchema)
+      .min(2)
+      .max(MAX_COMPARISON_VARIANTS)
+      .refine(
+        (variants) =>
+          new Set(variants.map((variant) => variant.name)).size ===
+          variants.length,
+        { message: 'Variant names must be unique' },
+      ),
+  })
+  .refine(hasSingleCapacitySource, singleCapacitySourceError)
+  .superRefine((dto, ctx) => {
+    // Shipment order rules only depend on whether the last stop stays last
+    const fixedEnds = new Set(
+      dto.variants.map(
+        (variant) => routeModeOf(variant.preferences) === 'fixedEnd',
+      ),
+    );
+    for (const fixedEnd of fixedEnds) {
+      addShipmentIssues(dto.stops, ctx, { fixedEnd });
+    }
+  });
+
+export type RouteVariantDto = z.infer<typeof routeVariantSchema>;
+export type CompareRoutesDto = z.infer<typeof compareRoutesSchema>;
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { ROUTE_EXPORT_FORMATS } from '../utils/route-export.utils';
+
+export const routeExportQuerySchema = z.object({
+  format: z.enum(ROUTE_EXPORT_FORMATS),
+});
+
+export type RouteExportQueryDto = z.infer<typeof routeExportQuerySchema>;
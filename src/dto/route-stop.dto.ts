@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { STOP_FAILURE_REASONS } from '../utils/stop-status.utils';
+
+const noteSchema = z.string().trim().min(1).max(1000);
+const fileRefSchema = z.string().trim().min(1).max(500);
+
+export const completeStopSchema = z.object({
+  recipientName: z.string().trim().min(1).max(200).optional(),
+  signatureRef: fileRefSchema.optional(),
+  photoRefs: z.array(fileRefSchema).max(20).optional(),
+  note: noteSchema.optional(),
+});
+
+export const failStopSchema = z.object({
+  reasonCode: z.enum(STOP_FAILURE_REASONS),
+  note: noteSchema.optional(),
+});
+
+// Skips are usually planned (e.g. a cancelled order), so the reason is optional
+export const skipStopSchema = failStopSchema.partial({ reasonCode: true });
+
+export type CompleteStopDto = z.infer<typeof completeStopSchema>;
+export type FailStopDto = z.infer<typeof failStopSchema>;
+export type SkipStopDto = z.infer<typeof skipStopSchema>;
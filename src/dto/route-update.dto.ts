@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { RouteUpdateReason } from '@prisma/client';
+import { routeUpdateSchema } from '@yatms/common';
+
+// Extends the shared update payload with the stops the driver has already served.
+// Waypoint positions change with every re-plan, so clients can pin the version
+// they were read from.
+export const routeReplanSchema = routeUpdateSchema.extend({
+  completedWaypoints: z.array(z.number().int().nonnegative()).optional(),
+  expectedVersion: z.number().int().positive().optional(),
+});
+
+export type RouteReplanDto = z.infer<typeof routeReplanSchema>;
+
+// Re-plans the service starts itself, such as after an off-route alert, may
+// give reasons clients can't send
+export type RouteReplanRequest = Omit<RouteReplanDto, 'reason'> & {
+  reason: RouteUpdateReason;
+};
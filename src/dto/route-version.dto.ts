@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+const versionNumberSchema = z.coerce.number().int().positive();
+
+// Query parameters arrive as strings. Defaults compare the latest plan with
+// the one before it.
+export const routeVersionDiffQuerySchema = z.object({
+  from: versionNumberSchema.optional(),
+  to: versionNumberSchema.optional(),
+});
+
+export type RouteVersionDiffQueryDto = z.infer<
+  typeof routeVersionDiffQuerySchema
+>;
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { routingPreferencesSchema } from './optimize-route.dto';
+
+export const STOP_IMPORT_FORMATS = ['csv', 'geojson'] as const;
+
+export type StopImportFormat = (typeof STOP_IMPORT_FORMATS)[number];
+
+// Stop fields an import can fill. CSV columns and GeoJSON properties are
+// matched by these names unless the column mapping says otherwise; they are
+// the same as the columns of a CSV route export.
+export const STOP_IMPORT_FIELDS = [
+  'id',
+  'latitude',
+  'longitude',
+  'address',
+  'timeWindowStart',
+  'timeWindowEnd',
+  'serviceDurationSeconds',
+  'demandWeight',
+  'demandVolume',
+  'demandPallets',
+  'shipmentId',
+  'stopType',
+] as const;
+
+export type StopImportField = (typeof STOP_IMPORT_FIELDS)[number];
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_STOPS = 1000;
+
+// Multipart form fields arrive as strings, so structured ones are sent as JSON
+const jsonField = <T extends z.ZodType>(schema: T) =>
+  z
+    .string()
+    .transform((text, ctx) => {
+      try {
+        return JSON.parse(text) as unknown;
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Must be valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
+
+export const stopImportSchema = z
+  .object({
+    // Detected from the file name when omitted
+    format: z.enum(STOP_IMPORT_FORMATS).optional(),
+    // Stop field -> CSV column header or GeoJSON property name
+    columnMapping: jsonField(
+      z.partialRecord(z.enum(STOP_IMPORT_FIELDS), z.string().min(1)),
+    ).optional(),
+    // Set to optimize the imported stops for this vehicle straight away
+    vehicleId: z.string().min(1).optional(),
+    capacityProfileId: z.uuid().optional(),
+    preferences: jsonField(routingPreferencesSchema).optional(),
+  })
+  .refine(
+    (dto) => dto.vehicleId || !(dto.preferences || dto.capacityProfileId),
+    {
+      message: 'preferences and capacityProfileId only apply with a vehicleId',
+      path: ['vehicleId'],
+    },
+  );
+
+// The parts of a multer upload the import reads
+export type UploadedStopFile = {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+};
+
+export type StopImportDto = z.infer<typeof stopImportSchema>;
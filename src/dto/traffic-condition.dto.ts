@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { TrafficConditionType, TrafficSeverity } from '@prisma/client';
+
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+export const createTrafficConditionSchema = z.object({
+  latitude: latitudeSchema,
+  longitude: longitudeSchema,
+  condition: z.enum(TrafficConditionType),
+  severity: z.enum(TrafficSeverity),
+  description: z.string().min(1).max(500),
+  source: z.string().max(100).optional(),
+});
+
+export const updateTrafficConditionSchema = createTrafficConditionSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+// Query params arrive as strings, so numeric fields are coerced.
+// A query is either a bounding box or a centre point with a radius (meters).
+export const trafficConditionsQuerySchema = z
+  .object({
+    minLatitude: z.coerce.number().min(-90).max(90).optional(),
+    minLongitude: z.coerce.number().min(-180).max(180).optional(),
+    maxLatitude: z.coerce.number().min(-90).max(90).optional(),
+    maxLongitude: z.coerce.number().min(-180).max(180).optional(),
+    latitude: z.coerce.number().min(-90).max(90).optional(),
+    longitude: z.coerce.number().min(-180).max(180).optional(),
+    radius: z.coerce.number().positive().max(200000).optional(),
+    severity: z.enum(TrafficSeverity).optional(),
+    condition: z.enum(TrafficConditionType).optional(),
+    includeResolved: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+  })
+  .refine(
+    (query) => {
+      const bbox = [
+        query.minLatitude,
+        query.minLongitude,
+        query.maxLatitude,
+        query.maxLongitude,
+      ];
+      const hasAnyBbox = bbox.some((value) => value !== undefined);
+      const hasFullBbox = bbox.every((value) => value !== undefined);
+      return !hasAnyBbox || hasFullBbox;
+    },
+    {
+      message:
+        'Bounding box requires minLatitude, minLongitude, maxLatitude and maxLongitude',
+    },
+  )
+  .refine(
+    (query) =>
+      query.radius === undefined ||
+      (query.latitude !== undefined && query.longitude !== undefined),
+    { message: 'Radius query requires latitude and longitude' },
+  );
+
+export type CreateTrafficConditionDto = z.infer<
+  typeof createTrafficConditionSchema
+>;
+export type UpdateTrafficConditionDto = z.infer<
+  typeof updateTrafficConditionSchema
+>;
+export type TrafficConditionsFilterDto = z.infer<
+  typeof trafficConditionsQuerySchema
+>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const vehicleLocationSchema = z.object({
+  vehicleId: z.string().min(1),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  speed: z.number().nonnegative().optional(), // km/h
+  heading: z.number().min(0).max(360).optional(), // degrees from north
+  accuracy: z.number().nonnegative().optional(), // meters
+  recordedAt: z.coerce.date(),
+});
+
+export type VehicleLocationDto = z.infer<typeof vehicleLocationSchema>;
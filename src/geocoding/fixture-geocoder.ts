@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { Coordinates, distanceBetween } from '../utils/geo.utils';
+import {
+  GeocodeMatch,
+  Geocoder,
+  ReverseGeocodeMatch,
+} from './geocoder.interface';
+import { DEFAULT_GEOCODE_FIXTURES } from './geocode.fixtures';
+
+type GeocodeFixture = Coordinates & { address: string };
+
+// How far a position may be from a known address to be reported as it
+const REVERSE_MATCH_RADIUS_METERS = 250;
+
+export function normalizeAddress(address: string) {
+  return address
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Offline geocoder backed by a fixed list of known addresses: the bundled
+ * fixtures plus any in the JSON file at GEOCODER_FIXTURES_PATH. Exact
+ * matches count as rooftop; an address that only contains (or is contained
+ * in) a known one is a partial, approximate match.
+ */
+@Injectable()
+export class FixtureGeocoder implements Geocoder {
+  readonly name = 'fixture';
+  private readonly logger = new Logger(FixtureGeocoder.name);
+  private readonly fixtures: GeocodeFixture[];
+
+  constructor(private configService: ConfigService) {
+    this.fixtures = [...DEFAULT_GEOCODE_FIXTURES, ...this.loadFixtureFile()];
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  async geocode(address: string): Promise<GeocodeMatch | null> {
+    const query = normalizeAddress(address);
+    if (!query) {
+      return null;
+    }
+
+    const exact = this.fixtures.find(
+      (fixture) => normalizeAddress(fixture.address) === query,
+    );
+    const match =
+      exact ??
+      this.fixtures.find((fixture) => {
+        const known = normalizeAddress(fixture.address);
+        return known.includes(query) || query.includes(known);
+      });
+    if (!match) {
+      return null;
+    }
+
+    return {
+      latitude: match.latitude,
+      longitude: match.longitude,
+      formattedAddress: match.address,
+      quality: exact ? 'ROOFTOP' : 'APPROXIMATE',
+      partialMatch: !exact,
+    };
+  }
+
+  async reverseGeocode(
+    point: Coordinates,
+  ): Promise<ReverseGeocodeMatch | null> {
+    let nearest: GeocodeFixture | null = null;
+    let nearestDistance = REVERSE_MATCH_RADIUS_METERS;
+    for (const fixture of this.fixtures) {
+      const distance = distanceBetween(point, fixture);
+      if (distance <= nearestDistance) {
+        nearest = fixture;
+        nearestDistance = distance;
+      }
+    }
+    return nearest
+      ? { address: nearest.address, quality: 'APPROXIMATE' }
+      : null;
+  }
+
+  private loadFixtureFile(): GeocodeFixture[] {
+    const path = this.configService.get<string>('GEOCODER_FIXTURES_PATH');
+    if (!path) {
+      return [];
+    }
+
+    try {
+      const fixtures = JSON.parse(readFileSync(path, 'utf8')) as unknown;
+      if (!Array.isArray(fixtures)) {
+        throw new Error(
+          'expected an array of { address, latitude, longitude }',
+        );
+      }
+      return fixtures as GeocodeFixture[];
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load geocoder fixtures from ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return [];
+    }
+  }
+}
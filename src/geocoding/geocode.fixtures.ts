@@ -0,0 +1,28 @@
+// Addresses the offline geocoder knows without a GEOCODER_FIXTURES_PATH file
+export const DEFAULT_GEOCODE_FIXTURES = [
+  {
+    address: 'Alexanderplatz 1, 10178 Berlin, Germany',
+    latitude: 52.521918,
+    longitude: 13.413215,
+  },
+  {
+    address: 'Pariser Platz, 10117 Berlin, Germany',
+    latitude: 52.516275,
+    longitude: 13.377704,
+  },
+  {
+    address: 'Platz der Republik 1, 11011 Berlin, Germany',
+    latitude: 52.518623,
+    longitude: 13.376198,
+  },
+  {
+    address: 'Dam, 1012 JS Amsterdam, Netherlands',
+    latitude: 52.373095,
+    longitude: 4.893276,
+  },
+  {
+    address: '1600 Amphitheatre Parkway, Mountain View, CA 94043, USA',
+    latitude: 37.422,
+    longitude: -122.084058,
+  },
+];
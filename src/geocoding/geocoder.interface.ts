@@ -0,0 +1,31 @@
+import { Coordinates } from '../utils/geo.utils';
+
+// How precisely a match pins down the address, best first (Google's location types)
+export const GEOCODE_QUALITIES = [
+  'ROOFTOP',
+  'RANGE_INTERPOLATED',
+  'GEOMETRIC_CENTER',
+  'APPROXIMATE',
+] as const;
+
+export type GeocodeQuality = (typeof GEOCODE_QUALITIES)[number];
+
+export type GeocodeMatch = Coordinates & {
+  formattedAddress: string;
+  quality: GeocodeQuality;
+  // The geocoder only matched part of the address
+  partialMatch: boolean;
+};
+
+export type ReverseGeocodeMatch = {
+  address: string;
+  quality: GeocodeQuality;
+};
+
+export interface Geocoder {
+  readonly name: string;
+  isAvailable(): boolean;
+  // null when nothing matches
+  geocode(address: string): Promise<GeocodeMatch | null>;
+  reverseGeocode(point: Coordinates): Promise<ReverseGeocodeMatch | null>;
+}
@@ -0,0 +1,3 @@
+export * from './geocoder.interface';
+export * from './geocode.fixtures';
+export * from './fixture-geocoder';
@@ -0,0 +1,37 @@
+import {
+  ConsumedMessage,
+  MessageConsumer,
+  MessageHandler,
+} from './message-consumer';
+
+/**
+ * Broker stand-in that delivers published messages straight to subscribers.
+ * Used by tests and when running without Kafka (KAFKA_CONSUMER_MODE=memory).
+ */
+export class InMemoryMessageConsumer implements MessageConsumer {
+  private readonly handlers = new Map<string, MessageHandler[]>();
+
+  async subscribe(topic: string, handler: MessageHandler) {
+    const handlers = this.handlers.get(topic) ?? [];
+    handlers.push(handler);
+    this.handlers.set(topic, handlers);
+  }
+
+  async start() {}
+
+  async stop() {
+    this.handlers.clear();
+  }
+
+  async publish(topic: string, value: unknown, key: string | null = null) {
+    const message: ConsumedMessage = {
+      topic,
+      key,
+      value: typeof value === 'string' ? value : JSON.stringify(value),
+    };
+
+    for (const handler of this.handlers.get(topic) ?? []) {
+      await handler(message);
+    }
+  }
+}
@@ -1,11 +1,33 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { KafkaService } from '@yatms/common';
+import { MESSAGE_CONSUMER, KafkajsMessageConsumer } from './message-consumer';
+import { InMemoryMessageConsumer } from './in-memory-message-consumer';
 
 @Module({
-  providers: [KafkaService],
-  exports: [KafkaService],
+  providers: [
+    KafkaService,
+    {
+      provide: MESSAGE_CONSUMER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        if (configService.get<string>('KAFKA_CONSUMER_MODE') === 'memory') {
+          return new InMemoryMessageConsumer();
+        }
+
+        return new KafkajsMessageConsumer({
+          clientId:
+            configService.get<string>('KAFKA_CLIENT_ID') || 'traffic-service',
+          groupId:
+            configService.get<string>('KAFKA_CONSUMER_GROUP_ID') ||
+            'traffic-service',
+          brokers: (
+            configService.get<string>('KAFKA_BROKERS') || 'localhost:9092'
+          ).split(','),
+        });
+      },
+    },
+  ],
+  exports: [KafkaService, MESSAGE_CONSUMER],
 })
 export class KafkaModule {}
-
-
-
@@ -0,0 +1,96 @@
+import { Logger } from '@nestjs/common';
+import { Consumer, Kafka } from 'kafkajs';
+
+export const MESSAGE_CONSUMER = Symbol('MESSAGE_CONSUMER');
+
+export interface ConsumedMessage {
+  topic: string;
+  key: string | null;
+  value: string | null;
+}
+
+export type MessageHandler = (message: ConsumedMessage) => Promise<void>;
+
+/**
+ * Minimal consumer surface the service depends on, so the broker can be
+ * swapped for an in-memory stand-in in tests and local development.
+ */
+export interface MessageConsumer {
+  subscribe(topic: string, handler: MessageHandler): Promise<void>;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface KafkaConsumerOptions {
+  clientId: string;
+  groupId: string;
+  brokers: string[];
+}
+
+export class KafkajsMessageConsumer implements MessageConsumer {
+  private readonly logger = new Logger(KafkajsMessageConsumer.name);
+  private readonly consumer: Consumer;
+  private readonly handlers = new Map<string, MessageHandler>();
+  private running = false;
+
+  constructor(options: KafkaConsumerOptions) {
+    const kafka = new Kafka({
+      clientId: options.clientId,
+      brokers: options.brokers,
+      retry: {
+        initialRetryTime: 300,
+        retries: 8,
+      },
+    });
+    this.consumer = kafka.consumer({ groupId: options.groupId });
+  }
+
+  async subscribe(topic: string, handler: MessageHandler) {
+    if (this.running) {
+      throw new Error(
+        `Cannot subscribe to ${topic} after the consumer has started`,
+      );
+    }
+    this.handlers.set(topic, handler);
+  }
+
+  async start() {
+    if (this.running || this.handlers.size === 0) {
+      return;
+    }
+
+    await this.consumer.connect();
+    await this.consumer.subscribe({
+      topics: Array.from(this.handlers.keys()),
+      fromBeginning: false,
+    });
+    await this.consumer.run({
+      eachMessage: async ({ topic, message }) => {
+        const handler = this.handlers.get(topic);
+        if (!handler) {
+          return;
+        }
+
+        await handler({
+          topic,
+          key: message.key?.toString() ?? null,
+          value: message.value?.toString() ?? null,
+        });
+      },
+    });
+
+    this.running = true;
+    this.logger.log(
+      `Kafka consumer running for topics: ${Array.from(this.handlers.keys()).join(', ')}`,
+    );
+  }
+
+  async stop() {
+    if (!this.running) {
+      return;
+    }
+
+    await this.consumer.disconnect();
+    this.running = false;
+  }
+}
@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { VehicleLocationService } from '../services/vehicle-location.service';
+import { EtaService } from '../services/eta.service';
+import { GeofenceService } from '../services/geofence.service';
+import { DeviationService } from '../services/deviation.service';
+import { InMemoryMessageConsumer } from './in-memory-message-consumer';
+import { MESSAGE_CONSUMER } from './message-consumer';
+import {
+  DEFAULT_VEHICLE_LOCATION_TOPIC,
+  VehicleLocationConsumer,
+} from './vehicle-location.consumer';
+
+describe('VehicleLocationConsumer', () => {
+  let module: TestingModule;
+  let broker: InMemoryMessageConsumer;
+  let recordPosition: jest.Mock;
+  let refreshVehicle: jest.Mock;
+  let checkPosition: jest.Mock;
+  let checkDeviation: jest.Mock;
+
+  beforeEach(async () => {
+    broker = new InMemoryMessageConsumer();
+    recordPosition = jest.fn().mockResolvedValue(null);
+    refreshVehicle = jest.fn();
+    checkPosition = jest.fn();
+    checkDeviation = jest.fn();
+
+    module = await Test.createTestingModule({
+      providers: [
+        VehicleLocationConsumer,
+        { provide: MESSAGE_CONSUMER, useValue: broker },
+        { provide: VehicleLocationService, useValue: { recordPosition } },
+        { provide: EtaService, useValue: { refreshVehicle } },
+        { provide: GeofenceService, useValue: { checkPosition } },
+        {
+          provide: DeviationService,
+          useValue: { checkPosition: checkDeviation },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    await module.init();
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('records valid positions', async () => {
+    await broker.publish(DEFAULT_VEHICLE_LOCATION_TOPIC, {
+      vehicleId: 'vehicle-1',
+      latitude: 40.7128,
+      longitude: -74.006,
+      speed: 32,
+      recordedAt: '2026-10-18T09:00:00.000Z',
+    });
+
+    expect(recordPosition).toHaveBeenCalledWith({
+      vehicleId: 'vehicle-1',
+      latitude: 40.7128,
+      longitude: -74.006,
+      speed: 32,
+      recordedAt: new Date('2026-10-18T09:00:00.000Z'),
+    });
+  });
+
+  it('only checks geofences, deviations and ETAs for positions it stored', async () => {
+    const fix = {
+      vehicleId: 'vehicle-1',
+      latitude: 40.7128,
+      longitude: -74.006,
+      recordedAt: '2026-10-18T09:00:00.000Z',
+    };
+    await broker.publish(DEFAULT_VEHICLE_LOCATION_TOPIC, fix);
+    expect(checkPosition).not.toHaveBeenCalled();
+    expect(checkDeviation).not.toHaveBeenCalled();
+    expect(refreshVehicle).not.toHaveBeenCalled();
+
+    const stored = { vehicleId: 'vehicle-1', routeId: 'route-1' };
+    recordPosition.mockResolvedValue(stored);
+    await broker.publish(DEFAULT_VEHICLE_LOCATION_TOPIC, fix);
+    expect(checkPosition).toHaveBeenCalledWith(stored);
+    expect(checkDeviation).toHaveBeenCalledWith(stored);
+    expect(refreshVehicle).toHaveBeenCalledWith('vehicle-1');
+  });
+
+  it('unwraps positions sent in an event envelope', async () => {
+    await broker.publish(DEFAULT_VEHICLE_LOCATION_TOPIC, {
+      eventId: 'event-1',
+      eventType: 'VEHICLE_LOCATION_UPDATED',
+      data: {
+        vehicleId: 'vehicle-2',
+        latitude: 51.5072,
+        longitude: -0.1276,
+        recordedAt: '2026-10-18T09:05:00.000Z',
+      },
+    });
+
+    expect(recordPosition).toHaveBeenCalledWith(
+      expect.objectContaining({ vehicleId: 'vehicle-2' }),
+    );
+  });
+
+  it('drops invalid and malformed messages', async () => {
+    await broker.publish(DEFAULT_VEHICLE_LOCATION_TOPIC, {
+      vehicleId: 'vehicle-1',
+      latitude: 123,
+      longitude: -74.006,
+      recordedAt: '2026-10-18T09:00:00.000Z',
+    });
+    await broker.publish(DEFAULT_VEHICLE_LOCATION_TOPIC, '{not json');
+
+    expect(recordPosition).not.toHaveBeenCalled();
+  });
+});
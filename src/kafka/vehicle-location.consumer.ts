@@ -0,0 +1,112 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VehicleLocationService } from '../services/vehicle-location.service';
+import { EtaService } from '../services/eta.service';
+import { GeofenceService } from '../services/geofence.service';
+import { DeviationService } from '../services/deviation.service';
+import { vehicleLocationSchema } from '../dto/vehicle-location.dto';
+import {
+  ConsumedMessage,
+  MESSAGE_CONSUMER,
+  MessageConsumer,
+} from './message-consumer';
+
+export const DEFAULT_VEHICLE_LOCATION_TOPIC = 'vehicle-location-events';
+
+@Injectable()
+export class VehicleLocationConsumer implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(VehicleLocationConsumer.name);
+  private readonly topic: string;
+
+  constructor(
+    @Inject(MESSAGE_CONSUMER) private messageConsumer: MessageConsumer,
+    private vehicleLocationService: VehicleLocationService,
+    private etaService: EtaService,
+    private geofenceService: GeofenceService,
+    private deviationService: DeviationService,
+    private configService: ConfigService,
+  ) {
+    this.topic =
+      this.configService.get<string>('VEHICLE_LOCATION_TOPIC') ||
+      DEFAULT_VEHICLE_LOCATION_TOPIC;
+  }
+
+  async onModuleInit() {
+    if (this.configService.get<string>('KAFKA_CONSUMER_ENABLED') === 'false') {
+      this.logger.warn(
+        'Kafka consumer disabled, vehicle telemetry will not be ingested',
+      );
+      return;
+    }
+
+    await this.messageConsumer.subscribe(this.topic, (message) =>
+      this.handleMessage(message),
+    );
+
+    // Don't hold up startup if the broker is unreachable (non-blocking)
+    this.messageConsumer.start().catch((error) => {
+      this.logger.warn(
+        `Failed to start vehicle location consumer: ${error.message}`,
+      );
+    });
+  }
+
+  async onModuleDestroy() {
+    await this.messageConsumer.stop();
+  }
+
+  async handleMessage(message: ConsumedMessage) {
+    if (!message.value) {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(message.value);
+    } catch {
+      this.logger.warn(`Dropping malformed message on ${message.topic}`);
+      return;
+    }
+
+    // Accept both bare positions and our standard event envelope ({ eventType, data })
+    const body =
+      payload && typeof payload === 'object' && 'data' in payload
+        ? (payload as { data: unknown }).data
+        : payload;
+
+    const result = vehicleLocationSchema.safeParse(body);
+    if (!result.success) {
+      this.logger.warn(
+        `Dropping invalid vehicle location on ${message.topic}: ${result.error.issues
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+          .join(', ')}`,
+      );
+      return;
+    }
+
+    try {
+      const position = await this.vehicleLocationService.recordPosition(
+        result.data,
+      );
+      // Stale fixes are not stored and don't move the ETAs. Arrivals come
+      // first so stops just reached drop out of the estimates, and deviations
+      // before the ETAs so they follow any re-plan.
+      if (position) {
+        await this.geofenceService.checkPosition(position);
+        await this.deviationService.checkPosition(position);
+        await this.etaService.refreshVehicle(position.vehicleId);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to record position for vehicle ${result.data.vehicleId}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  DRIVER_RULES_PROFILE_NAMES,
+  DriverRules,
+  DriverRulesProfileName,
+} from './routing-provider.interface';
+
+const HOUR = 3600;
+
+// Simplified daily limits of EU Regulation 561/2006 and the US FMCSA
+// hours-of-service rules for property-carrying drivers
+export const DRIVER_RULES_PROFILES: Record<
+  DriverRulesProfileName,
+  DriverRules
+> = {
+  EU_561: {
+    maxContinuousDrivingSeconds: 4.5 * HOUR,
+    breakDurationSeconds: 0.75 * HOUR,
+    maxShiftSeconds: 13 * HOUR,
+  },
+  US_HOS: {
+    maxContinuousDrivingSeconds: 8 * HOUR,
+    breakDurationSeconds: 0.5 * HOUR,
+    maxShiftSeconds: 14 * HOUR,
+  },
+};
+
+// A request names a profile or gives its own rules
+export type DriverRulesSetting = DriverRulesProfileName | DriverRules;
+
+export function isDriverRulesProfileName(
+  name: string,
+): name is DriverRulesProfileName {
+  return DRIVER_RULES_PROFILE_NAMES.includes(name as DriverRulesProfileName);
+}
+
+export function resolveDriverRules(setting?: DriverRulesSetting) {
+  return typeof setting === 'string' ? DRIVER_RULES_PROFILES[setting] : setting;
+}
@@ -0,0 +1,137 @@
+import { assignStopsToVehicles } from './fleet-assignment';
+import { RouteStop } from './routing-provider.interface';
+
+const now = Date.parse('2026-10-18T08:00:00.000Z');
+const at = (minutes: number) =>
+  new Date(now + minutes * 60 * 1000).toISOString();
+// Points on a line, one unit apart; each unit takes a minute to drive
+const point = (address: string, x: number, extra = {}): RouteStop => ({
+  latitude: 0,
+  longitude: x,
+  address,
+  ...extra,
+});
+const estimateLeg = (from: RouteStop, to: RouteStop) => {
+  const distance = Math.abs(from.longitude - to.longitude);
+  return { cost: distance, duration: distance * 60 };
+};
+
+describe('assignStopsToVehicles', () => {
+  it('gives each vehicle the stops nearest its depot', () => {
+    const { assignments, unassigned } = assignStopsToVehicles(
+      [
+        { vehicleId: 'west', depot: point('West depot', 0), shiftEnd: at(480) },
+        {
+          vehicleId: 'east',
+          depot: point('East depot', 100),
+          shiftEnd: at(480),
+        },
+      ],
+      [point('W1', 5), point('E1', 95), point('W2', 10), point('E2', 90)],
+      estimateLeg,
+      now,
+    );
+
+    expect(assignments.map((a) => a.stops.map((stop) => stop.address))).toEqual(
+      [
+        ['W1', 'W2'],
+        ['E1', 'E2'],
+      ],
+    );
+    expect(unassigned).toEqual([]);
+  });
+
+  it('reports stops that miss their window or the end of every shift', () => {
+    const { assignments, unassigned } = assignStopsToVehicles(
+      [{ vehicleId: 'van', depot: point('Depot', 0), shiftEnd: at(60) }],
+      [
+        point('Too far', 120),
+        point('Closed', 10, { timeWindow: { start: at(0), end: at(5) } }),
+        point('Near', 10),
+      ],
+      estimateLeg,
+      now,
+    );
+
+    expect(assignments[0].stops.map((stop) => stop.address)).toEqual(['Near']);
+    expect(unassigned).toEqual([
+      {
+        stop: expect.objectContaining({ address: 'Closed' }),
+        reason: 'TIME_WINDOW',
+      },
+      {
+        stop: expect.objectContaining({ address: 'Too far' }),
+        reason: 'SHIFT_END',
+      },
+    ]);
+  });
+
+  it('splits stops across vehicles by capacity', () => {
+    const { assignments, unassigned } = assignStopsToVehicles(
+      [
+        {
+          vehicleId: 'small',
+          depot: point('Depot', 0),
+          shiftEnd: at(480),
+          capacity: { pallets: 2 },
+        },
+        {
+          vehicleId: 'large',
+          depot: point('Depot', 0),
+          shiftEnd: at(480),
+          capacity: { pallets: 4 },
+        },
+      ],
+      [
+        point('A', 10, { demand: { pallets: 2 } }),
+        point('B', 20, { demand: { pallets: 3 } }),
+        point('C', 30, { demand: { pallets: 5 } }),
+      ],
+      estimateLeg,
+      now,
+    );
+
+    expect(assignments.map((a) => a.load)).toEqual([
+      { pallets: 2 },
+      { pallets: 3 },
+    ]);
+    expect(unassigned).toEqual([
+      { stop: expect.objectContaining({ address: 'C' }), reason: 'CAPACITY' },
+    ]);
+  });
+
+  it('keeps a pickup and its delivery on one vehicle, pickup first', () => {
+    const pickup = {
+      shipmentId: 'S1',
+      stopType: 'pickup',
+      demand: { pallets: 4 },
+    };
+    const delivery = { shipmentId: 'S1', stopType: 'delivery' };
+    const { assignments, unassigned } = assignStopsToVehicles(
+      [
+        {
+          vehicleId: 'van',
+          depot: point('Depot', 0),
+          shiftEnd: at(480),
+          capacity: { pallets: 4 },
+        },
+      ],
+      [
+        point('Customer', 10, delivery),
+        point('A', 5, { demand: { pallets: 2 } }),
+        point('Supplier', 20, pickup),
+      ],
+      estimateLeg,
+      now,
+    );
+
+    expect(unassigned).toEqual([]);
+    // A is dropped off before the shipment is loaded, so it never exceeds 4 pallets
+    expect(assignments[0].stops.map((stop) => stop.address)).toEqual([
+      'A',
+      'Supplier',
+      'Customer',
+    ]);
+    expect(assignments[0].load).toEqual({ pallets: 4 });
+  });
+});
@@ -0,0 +1,225 @@
+import { DriverRules, Load, RouteStop } from './routing-provider.interface';
+import { planSchedule, serviceDurationOf } from './routing.utils';
+import { findCapacityExcess, peakLoad } from './load.utils';
+import { findShipmentPairs } from './shipment.utils';
+
+export type FleetVehicle = {
+  vehicleId: string;
+  depot: RouteStop;
+  shiftStart?: string; // ISO 8601, defaults to now
+  shiftEnd: string; // ISO 8601
+  // Unconstrained when omitted
+  capacity?: Load;
+};
+
+export type LegEstimate = { cost: number; duration: number };
+
+export type UnassignedReason = 'CAPACITY' | 'TIME_WINDOW' | 'SHIFT_END';
+
+export interface VehicleAssignment<T extends RouteStop> {
+  vehicle: FleetVehicle;
+  // When the vehicle leaves its depot (epoch ms)
+  departureTime: number;
+  stops: T[];
+  // Most the vehicle carries at once on the assigned stops
+  load: Load;
+}
+
+export interface FleetAssignment<T extends RouteStop> {
+  assignments: VehicleAssignment<T>[];
+  unassigned: Array<{ stop: T; reason: UnassignedReason }>;
+}
+
+/**
+ * Spread a pool of stops across vehicles by cheapest feasible insertion.
+ * A vehicle may take a stop only if it still has room for the stop's demand,
+ * every stop on its route is still served within its time window and the
+ * route is done before the shift ends, counting any breaks the driver rules
+ * require and their limit on the working day. A pickup and its delivery are placed
+ * together on one vehicle, pickup first. Stops
+ * with the tightest windows are placed first, then the stops furthest from
+ * any depot. The order within each route is refined later by the provider.
+ */
+export function assignStopsToVehicles<T extends RouteStop>(
+  vehicles: FleetVehicle[],
+  stops: T[],
+  estimateLeg: (from: RouteStop, to: RouteStop) => LegEstimate,
+  now = Date.now(),
+  driverRules?: DriverRules,
+): FleetAssignment<T> {
+  // Legs between every pair of depots and stops, estimated once
+  const points: RouteStop[] = [
+    ...vehicles.map((vehicle) => vehicle.depot),
+    ...stops,
+  ];
+  const indexOf = new Map(points.map((point, index) => [point, index]));
+  const legs = points.map((from) => points.map((to) => estimateLeg(from, to)));
+  const leg = (from: RouteStop, to: RouteStop) =>
+    legs[indexOf.get(from)!][indexOf.get(to)!];
+
+  const assignments: VehicleAssignment<T>[] = vehicles.map((vehicle) => ({
+    vehicle,
+    departureTime: Math.max(
+      now,
+      vehicle.shiftStart ? Date.parse(vehicle.shiftStart) : now,
+    ),
+    stops: [],
+    load: {},
+  }));
+
+  const fitsShift = (assignment: VehicleAssignment<T>, route: RouteStop[]) => {
+    const { schedule, totalLateness, driverShift } = planSchedule(
+      route,
+      route.slice(1).map((stop, index) => leg(route[index], stop).duration),
+      assignment.departureTime,
+      { driverRules },
+    );
+    const finish =
+      schedule[schedule.length - 1].serviceStart +
+      serviceDurationOf(route[route.length - 1], route.length - 1) * 1000;
+    return (
+      totalLateness === 0 &&
+      finish <= Date.parse(assignment.vehicle.shiftEnd) &&
+      !driverShift?.exceedsShift
+    );
+  };
+
+  const fitsCapacity = (assignment: VehicleAssignment<T>, stops: T[]) =>
+    !assignment.vehicle.capacity ||
+    findCapacityExcess(
+      peakLoad([assignment.vehicle.depot, ...stops]),
+      assignment.vehicle.capacity,
+    ).length === 0;
+
+  // Each unit is a lone stop, or a pickup followed by its delivery
+  const pairs = findShipmentPairs(stops);
+  const deliveries = new Set(pairs.map((pair) => pair.delivery));
+  const deliveryOf = new Map(pairs.map((pair) => [pair.pickup, pair.delivery]));
+  const units = stops.flatMap((stop, index): T[][] => {
+    if (deliveries.has(index)) {
+      return [];
+    }
+    const delivery = deliveryOf.get(index);
+    return [delivery === undefined ? [stop] : [stop, stops[delivery]]];
+  });
+
+  const nearestDepotCost = (stop: T) =>
+    Math.min(...vehicles.map((vehicle) => leg(vehicle.depot, stop).cost));
+  const windowEnd = (unit: T[]) =>
+    Math.min(
+      ...unit.map((stop) =>
+        stop.timeWindow ? Date.parse(stop.timeWindow.end) : Infinity,
+      ),
+    );
+  const insertionOrder = [...units].sort(
+    (a, b) =>
+      windowEnd(a) - windowEnd(b) ||
+      nearestDepotCost(b[0]) - nearestDepotCost(a[0]),
+  );
+
+  // Extra cost of visiting stop between two consecutive route points
+  const detour = (previous: RouteStop, stop: T, next?: RouteStop) =>
+    leg(previous, stop).cost +
+    (next ? leg(stop, next).cost - leg(previous, next).cost : 0);
+
+  const unassigned: FleetAssignment<T>['unassigned'] = [];
+  for (const unit of insertionOrder) {
+    const candidates: Array<{
+      assignment: VehicleAssignment<T>;
+      stops: T[];
+      delta: number;
+    }> = [];
+
+    for (const assignment of assignments) {
+      const current = assignment.stops;
+      for (let position = 0; position <= current.length; position++) {
+        const previous = current[position - 1] ?? assignment.vehicle.depot;
+        const next = current[position];
+        if (unit.length === 1) {
+          candidates.push({
+            assignment,
+            stops: [
+              ...current.slice(0, position),
+              unit[0],
+              ...current.slice(position),
+            ],
+            delta: detour(previous, unit[0], next),
+          });
+          continue;
+        }
+
+        // The delivery goes in at the same gap as the pickup or any later one
+        const [pickup, delivery] = unit;
+        for (let later = position; later <= current.length; later++) {
+          const delta =
+            later === position
+              ? leg(previous, pickup).cost +
+                leg(pickup, delivery).cost +
+                (next ? leg(delivery, next).cost - leg(previous, next).cost : 0)
+              : detour(previous, pickup, next) +
+                detour(current[later - 1], delivery, current[later]);
+          candidates.push({
+            assignment,
+            stops: [
+              ...current.slice(0, position),
+              pickup,
+              ...current.slice(position, later),
+              delivery,
+              ...current.slice(later),
+            ],
+            delta,
+          });
+        }
+      }
+    }
+
+    const withRoom = candidates.filter((candidate) =>
+      fitsCapacity(candidate.assignment, candidate.stops),
+    );
+    if (withRoom.length === 0) {
+      unassigned.push(
+        ...unit.map((stop) => ({ stop, reason: 'CAPACITY' as const })),
+      );
+      continue;
+    }
+    withRoom.sort((a, b) => a.delta - b.delta);
+
+    const chosen = withRoom.find(({ assignment, stops }) =>
+      fitsShift(assignment, [assignment.vehicle.depot, ...stops]),
+    );
+
+    if (chosen) {
+      chosen.assignment.stops = chosen.stops;
+      chosen.assignment.load = peakLoad([
+        chosen.assignment.vehicle.depot,
+        ...chosen.stops,
+      ]);
+      continue;
+    }
+
+    // Stops no vehicle could reach in their windows even on their own are a window problem
+    const windowReachable = [
+      ...new Set(withRoom.map((candidate) => candidate.assignment)),
+    ].some((assignment) => {
+      const route = [assignment.vehicle.depot, ...unit];
+      return (
+        planSchedule(
+          route,
+          unit.map((stop, index) => leg(route[index], stop).duration),
+          assignment.departureTime,
+          { driverRules },
+        ).totalLateness === 0
+      );
+    });
+    unassigned.push(
+      ...unit.map((stop) => ({
+        stop,
+        reason: windowReachable
+          ? ('SHIFT_END' as const)
+          : ('TIME_WINDOW' as const),
+      })),
+    );
+  }
+
+  return { assignments, unassigned };
+}
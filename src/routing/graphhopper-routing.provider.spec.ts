@@ -0,0 +1,174 @@
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import {
+  GraphHopperMatrixResponse,
+  GraphHopperRouteResponse,
+  GraphHopperRoutingProvider,
+} from './graphhopper-routing.provider';
+import { HaversineRoutingProvider } from './haversine-routing.provider';
+import { RouteStop, RoutingPreferences } from './routing-provider.interface';
+
+const departureTime = '2026-10-18T09:00:00.000Z';
+const after = (seconds: number) =>
+  new Date(Date.parse(departureTime) + seconds * 1000).toISOString();
+
+// No service time, so arrivals follow the legs alone
+const stop = (address: string, longitude: number): RouteStop => ({
+  latitude: 52.5,
+  longitude,
+  address,
+  serviceDurationSeconds: 0,
+});
+
+// Listed out of line, so the local ordering has something to do
+const stops = [
+  stop('Depot', 13.3),
+  stop('B', 13.32),
+  stop('A', 13.31),
+  stop('End', 13.33),
+];
+
+const preferences = (
+  extra: Partial<RoutingPreferences> = {},
+): RoutingPreferences => ({
+  avoidTolls: false,
+  avoidHighways: false,
+  optimizeFor: 'time',
+  departureTime,
+  ...extra,
+});
+
+// Sign 5 marks a via point and 4 the finish; times are milliseconds
+const instructions = [
+  { distance: 400, time: 60000, sign: 0 },
+  { distance: 600, time: 240000, sign: 5 },
+  { distance: 500, time: 120000, sign: 2 },
+  { distance: 500, time: 60000, sign: 5 },
+  { distance: 1000, time: 300000, sign: 4 },
+];
+
+describe('GraphHopperRoutingProvider', () => {
+  const provider = new GraphHopperRoutingProvider(
+    new ConfigService({
+      GRAPHHOPPER_BASE_URL: 'http://graphhopper.local/',
+      GRAPHHOPPER_API_KEY: 'key&1',
+    }),
+    new HaversineRoutingProvider(
+      new ConfigService({ ROUTE_SOLVER_TIME_BUDGET_MS: '50' }),
+    ),
+  );
+  let post: jest.SpyInstance;
+
+  beforeEach(() => {
+    post = jest.spyOn(axios, 'post');
+  });
+
+  afterEach(() => {
+    post.mockRestore();
+  });
+
+  const request = () => {
+    const [[url, body]] = post.mock.calls as [
+      [string, Record<string, unknown>],
+    ];
+    return { url, body };
+  };
+
+  describe('optimizeRoute', () => {
+    it('splits the path into legs at the via points', async () => {
+      post.mockResolvedValue({
+        data: {
+          paths: [
+            {
+              distance: 3000.6,
+              time: 780000,
+              points: 'road_geometry',
+              instructions,
+            },
+          ],
+        } satisfies GraphHopperRouteResponse,
+      });
+
+      const route = await provider.optimizeRoute(
+        stops,
+        preferences({ avoidTolls: true }),
+      );
+
+      const { url, body } = request();
+      expect(url).toBe('http://graphhopper.local/route?key=key%261');
+      expect(body).toMatchObject({
+        points: [
+          [13.3, 52.5],
+          [13.31, 52.5],
+          [13.32, 52.5],
+          [13.33, 52.5],
+        ],
+        profile: 'car',
+        'ch.disable': true,
+        custom_model: {
+          priority: [{ if: 'toll != NO', multiply_by: '0.1' }],
+        },
+      });
+      expect(route.waypoints.map((waypoint) => waypoint.address)).toEqual([
+        'Depot',
+        'A',
+        'B',
+        'End',
+      ]);
+      // 60 + 240, 120 + 60 and 300 seconds
+      expect(
+        route.waypoints.map((waypoint) => waypoint.estimatedArrival),
+      ).toEqual([after(0), after(300), after(480), after(780)]);
+      expect(route).toMatchObject({
+        totalDistance: 3001,
+        totalDuration: 780,
+        polyline: 'road_geometry',
+        provider: 'graphhopper',
+        stopOrder: { solver: 'local-search' },
+      });
+    });
+
+    it('fails with the message GraphHopper gives', async () => {
+      post.mockResolvedValue({
+        data: { paths: [], message: 'Point 1 is out of bounds' },
+      });
+
+      await expect(
+        provider.optimizeRoute(stops, preferences()),
+      ).rejects.toThrow('GraphHopper error: Point 1 is out of bounds');
+    });
+  });
+
+  describe('getMatrix', () => {
+    it('keeps unreachable pairs empty', async () => {
+      post.mockResolvedValue({
+        data: {
+          distances: [[0, 1000.4, null]],
+          times: [[0, 61.6, null]],
+        } satisfies GraphHopperMatrixResponse,
+      });
+
+      const matrix = await provider.getMatrix(
+        [stops[0]],
+        [stops[0], stops[1], stops[2]],
+      );
+
+      expect(request().body).toMatchObject({
+        from_points: [[13.3, 52.5]],
+        fail_fast: false,
+      });
+      expect(matrix).toEqual({
+        distances: [[0, 1000, null]],
+        durations: [[0, 62, null]],
+      });
+    });
+
+    it('fails when no matrix comes back', async () => {
+      post.mockResolvedValue({ data: { message: 'Too many points' } });
+
+      await expect(provider.getMatrix([stops[0]], [stops[1]])).rejects.toThrow(
+        'GraphHopper matrix error: Too many points',
+      );
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { TrafficIncident } from '../utils/traffic-impact.utils';
+import { Coordinates } from '../utils/geo.utils';
+import { encodePolyline } from '../utils/polyline.utils';
+import {
+  OptimizedRoute,
+  RouteStop,
+  RoutingPreferences,
+  RoutingProvider,
+  TravelMatrix,
+} from './routing-provider.interface';
+import { HaversineRoutingProvider } from './haversine-routing.provider';
+import {
+  applyIncidentDelays,
+  applyRouteMode,
+  departureTimeOf,
+  routeModeOf,
+  scheduleRoute,
+} from './routing.utils';
+
+// Instruction signs that close a leg: a via point was reached, or the finish
+const VIA_REACHED_SIGN = 5;
+const FINISH_SIGN = 4;
+
+export interface GraphHopperRouteResponse {
+  paths: Array<{
+    distance: number; // meters
+    time: number; // milliseconds
+    points: string;
+    instructions: Array<{ distance: number; time: number; sign: number }>;
+  }>;
+  message?: string;
+}
+
+export interface GraphHopperMatrixResponse {
+  distances: Array<Array<number | null>>; // meters
+  times: Array<Array<number | null>>; // seconds
+  message?: string;
+}
+
+/**
+ * Adapter for the GraphHopper routing API (hosted or self-hosted). Stops are
+ * ordered locally and GraphHopper supplies road distances, times and geometry.
+ */
+@Injectable()
+export class GraphHopperRoutingProvider implements RoutingProvider {
+  readonly name = 'graphhopper' as const;
+  private readonly logger = new Logger(GraphHopperRoutingProvider.name);
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly profile: string;
+
+  constructor(
+    private configService: ConfigService,
+    private haversineRoutingProvider: HaversineRoutingProvider,
+  ) {
+    this.baseUrl = (
+      this.configService.get<string>('GRAPHHOPPER_BASE_URL') || ''
+    ).replace(/\/$/, '');
+    this.apiKey = this.configService.get<string>('GRAPHHOPPER_API_KEY') || '';
+    this.profile =
+      this.configService.get<string>('GRAPHHOPPER_PROFILE') || 'car';
+  }
+
+  isAvailable() {
+    // The hosted API needs a key; a self-hosted server only needs its URL
+    return !!this.baseUrl || !!this.apiKey;
+  }
+
+  async optimizeRoute(
+    stops: RouteStop[],
+    preferences: RoutingPreferences,
+    incidents: TrafficIncident[] = [],
+  ): Promise<OptimizedRoute> {
+    if (stops.length < 2) {
+      return this.haversineRoutingProvider.optimizeRoute(
+        stops,
+        preferences,
+        incidents,
+      );
+    }
+
+    const startTime = departureTimeOf(preferences);
+    try {
+      const { stops: plannedStops, fixedEnd } = applyRouteMode(
+        stops,
+        routeModeOf(preferences),
+      );
+      const { stops: orderedStops, stopOrder } =
+        this.haversineRoutingProvider.orderStops(plannedStops, incidents, {
+          fixedEnd,
+          startTime,
+          capacity: preferences.capacity,
+          driverRules: preferences.driverRules,
+          optimizeFor: preferences.optimizeFor,
+        });
+      const response = await axios.post<GraphHopperRouteResponse>(
+        this.endpoint('route'),
+        {
+          points: orderedStops.map((stop) => [stop.longitude, stop.latitude]),
+          profile: this.profile,
+          points_encoded: true,
+          instructions: true,
+          ...this.buildCustomModel(preferences),
+        },
+      );
+
+      const path = response.data.paths?.[0];
+      if (!path) {
+        throw new Error(
+          `GraphHopper error: ${response.data.message || 'no path found'}`,
+        );
+      }
+
+      const { legDurations, trafficIncidents } = applyIncidentDelays(
+        orderedStops,
+        this.splitLegDurations(path.instructions),
+        incidents,
+      );
+
+      const { waypoints, totalDuration, driverShift } = scheduleRoute(
+        orderedStops,
+        legDurations,
+        startTime,
+        preferences,
+      );
+
+      return {
+        totalDistance: Math.round(path.distance),
+        totalDuration,
+        waypoints,
+        // Straight lines through the stops if the provider sent no road geometry
+        polyline: path.points || encodePolyline(waypoints),
+        trafficIncidents,
+        provider: this.name,
+        stopOrder,
+        driverShift,
+      };
+    } catch (error) {
+      this.logger.error('Failed to optimize route with GraphHopper:', error);
+      throw error;
+    }
+  }
+
+  async getMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+  ): Promise<TravelMatrix> {
+    try {
+      const toPoints = (points: Coordinates[]) =>
+        points.map((point) => [point.longitude, point.latitude]);
+      const response = await axios.post<GraphHopperMatrixResponse>(
+        this.endpoint('matrix'),
+        {
+          from_points: toPoints(origins),
+          to_points: toPoints(destinations),
+          out_arrays: ['distances', 'times'],
+          profile: this.profile,
+          // Unreachable pairs come back as null instead of failing the whole matrix
+          fail_fast: false,
+        },
+      );
+      if (!response.data.distances || !response.data.times) {
+        throw new Error(
+          `GraphHopper matrix error: ${response.data.message || 'no matrix returned'}`,
+        );
+      }
+
+      const round = (value: number | null) =>
+        value === null ? null : Math.round(value);
+      return {
+        distances: response.data.distances.map((row) => row.map(round)),
+        durations: response.data.times.map((row) => row.map(round)),
+      };
+    } catch (error) {
+      this.logger.error(
+        'Failed to build travel matrix with GraphHopper:',
+        error,
+      );
+      throw error;
+    }
+  }
+
+  private endpoint(path: string) {
+    const baseUrl = this.baseUrl || 'https://graphhopper.com/api/1';
+    const query = this.apiKey ? `?key=${encodeURIComponent(this.apiKey)}` : '';
+    return `${baseUrl}/${path}${query}`;
+  }
+
+  /**
+   * GraphHopper reports one path; sum instruction times between via points
+   * to recover per-leg durations in seconds
+   */
+  private splitLegDurations(
+    instructions: GraphHopperRouteResponse['paths'][number]['instructions'],
+  ) {
+    const legDurations: number[] = [];
+    let current = 0;
+    for (const instruction of instructions) {
+      current += instruction.time;
+      if (
+        instruction.sign === VIA_REACHED_SIGN ||
+        instruction.sign === FINISH_SIGN
+      ) {
+        legDurations.push(Math.round(current / 1000));
+        current = 0;
+      }
+    }
+    return legDurations;
+  }
+
+  private buildCustomModel(preferences: RoutingPreferences) {
+    const priority: Array<{ if: string; multiply_by: string }> = [];
+    if (preferences.avoidTolls) {
+      priority.push({ if: 'toll != NO', multiply_by: '0.1' });
+    }
+    if (preferences.avoidHighways) {
+      priority.push({ if: 'road_class == MOTORWAY', multiply_by: '0.1' });
+    }
+
+    // Custom models need the flexible (non-CH) mode
+    return priority.length > 0
+      ? { 'ch.disable': true, custom_model: { priority } }
+      : {};
+  }
+}
@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TrafficIncident } from '../utils/traffic-impact.utils';
+import { HaversineRoutingProvider } from './haversine-routing.provider';
+import { loadProfile } from './load.utils';
+import { RouteStop } from './routing-provider.interface';
+
+const stop = (
+  address: string,
+  longitude: number,
+  extra: Partial<RouteStop> = {},
+): RouteStop => ({ latitude: 52.5, longitude, address, ...extra });
+
+describe('HaversineRoutingProvider', () => {
+  const provider = new HaversineRoutingProvider(
+    new ConfigService({ ROUTE_SOLVER_TIME_BUDGET_MS: '50' }),
+  );
+
+  describe('orderStops', () => {
+    it('keeps the vehicle within capacity when an order allows it', () => {
+      // Picking both shipments up first would be shorter but overloads the vehicle
+      const stops = [
+        stop('Depot', 13.3),
+        stop('Pickup A', 13.31, {
+          shipmentId: 'A',
+          stopType: 'pickup',
+          demand: { pallets: 3 },
+        }),
+        stop('Pickup B', 13.32, {
+          shipmentId: 'B',
+          stopType: 'pickup',
+          demand: { pallets: 3 },
+        }),
+        stop('Delivery A', 13.33, { shipmentId: 'A', stopType: 'delivery' }),
+        stop('Delivery B', 13.34, { shipmentId: 'B', stopType: 'delivery' }),
+      ];
+
+      const { stops: ordered } = provider.orderStops(stops, [], {
+        capacity: { pallets: 4 },
+      });
+
+      expect(
+        loadProfile(ordered).every((load) => (load.pallets ?? 0) <= 4),
+      ).toBe(true);
+    });
+
+    it('rejects stops that overload the vehicle in every order', () => {
+      // The fixed last stop keeps its 2 pallets on board past the 3-pallet pickup
+      const stops = [
+        stop('Depot', 13.3),
+        stop('Pickup A', 13.31, {
+          shipmentId: 'A',
+          stopType: 'pickup',
+          demand: { pallets: 3 },
+        }),
+        stop('Delivery A', 13.32, { shipmentId: 'A', stopType: 'delivery' }),
+        stop('Customer', 13.33, { demand: { pallets: 2 } }),
+      ];
+
+      expect.assertions(2);
+      try {
+        provider.orderStops(stops, [], {
+          fixedEnd: true,
+          capacity: { pallets: 4 },
+        });
+      } catch (error) {
+        expect(error).toBeInstanceOf(BadRequestException);
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          overloadedStops: [
+            {
+              address: 'Pickup A',
+              excess: [{ dimension: 'pallets', load: 5, capacity: 4 }],
+            },
+          ],
+        });
+      }
+    });
+  });
+
+  describe('estimateLeg', () => {
+    // Heavy traffic halfway along the leg doubles its driving time
+    const jam: TrafficIncident = {
+      id: 'jam',
+      latitude: 52.5,
+      longitude: 13.35,
+      condition: 'HEAVY',
+      severity: 'CRITICAL',
+      description: 'Stop and go',
+    };
+    const from = stop('West', 13.3);
+    const to = stop('East', 13.4);
+
+    it('weighs slow traffic by what the route is optimized for', () => {
+      const time = provider.estimateLeg(from, to, [jam], 'time');
+      const fuel = provider.estimateLeg(from, to, [jam], 'fuel');
+      const distance = provider.estimateLeg(from, to, [jam], 'distance');
+
+      expect(time.cost).toBeCloseTo(time.distance * 2);
+      expect(fuel.cost).toBeCloseTo(fuel.distance * 1.3);
+      expect(distance.cost).toBeCloseTo(distance.distance);
+      // The leg takes as long whatever the goal
+      expect(
+        new Set([time, fuel, distance].map((leg) => leg.duration)).size,
+      ).toBe(1);
+    });
+
+    it('still avoids blocked roads when optimizing for distance', () => {
+      const blocked = { ...jam, condition: 'BLOCKED' as const };
+
+      const leg = provider.estimateLeg(from, to, [blocked], 'distance');
+
+      expect(leg.cost).toBeGreaterThan(leg.distance * 10);
+    });
+  });
+});
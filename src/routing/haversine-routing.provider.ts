@@ -0,0 +1,321 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  AffectedTrafficIncident,
+  TrafficIncident,
+  assessLegTraffic,
+  recordLegImpact,
+} from '../utils/traffic-impact.utils';
+import { Coordinates, calculateHaversineDistance } from '../utils/geo.utils';
+import { encodePolyline } from '../utils/polyline.utils';
+import {
+  DriverRules,
+  Load,
+  OptimizedRoute,
+  RouteStop,
+  RoutingPreferences,
+  RoutingProvider,
+  StopOrderPlan,
+  TravelMatrix,
+} from './routing-provider.interface';
+import {
+  DEFAULT_STOP_ORDER_OPTIONS,
+  pathCost,
+  solveStopOrder,
+} from './tsp-solver';
+import {
+  applyRouteMode,
+  departureTimeOf,
+  planSchedule,
+  routeModeOf,
+  scheduleRoute,
+} from './routing.utils';
+import { findCapacityExcess, loadProfile } from './load.utils';
+import {
+  countPrecedenceViolations,
+  findShipmentPairs,
+  repairPrecedence,
+} from './shipment.utils';
+
+const AVERAGE_SPEED_KMH = 30; // Average city driving speed
+// Cost (traffic-weighted meters) of reaching a stop one second after its window closes
+const LATENESS_COST_PER_SECOND = 100;
+// Cost of an order that delivers before picking up or overloads the vehicle,
+// high enough that any valid order beats it
+const INFEASIBLE_ORDER_COST = 1e9;
+// Share of a slowdown's extra time that is burnt as fuel, idling in traffic
+const CONGESTION_FUEL_SHARE = 0.3;
+
+/**
+ * Built-in estimator: straight-line distances at an average city speed.
+ * Needs no external service and is deterministic, so it backs offline mode,
+ * development and tests.
+ */
+@Injectable()
+export class HaversineRoutingProvider implements RoutingProvider {
+  readonly name = 'haversine' as const;
+  private readonly timeBudgetMs: number;
+  private readonly seed: number;
+
+  constructor(private configService: ConfigService) {
+    this.timeBudgetMs = Number(
+      this.configService.get<string>('ROUTE_SOLVER_TIME_BUDGET_MS') ??
+        DEFAULT_STOP_ORDER_OPTIONS.timeBudgetMs,
+    );
+    this.seed = Number(
+      this.configService.get<string>('ROUTE_SOLVER_SEED') ??
+        DEFAULT_STOP_ORDER_OPTIONS.seed,
+    );
+  }
+
+  isAvailable() {
+    return true;
+  }
+
+  async optimizeRoute(
+    stops: RouteStop[],
+    preferences: RoutingPreferences,
+    incidents: TrafficIncident[] = [],
+  ): Promise<OptimizedRoute> {
+    const startTime = departureTimeOf(preferences);
+    if (stops.length < 2) {
+      const { waypoints } = scheduleRoute(stops, [], startTime);
+      return {
+        totalDistance: 0,
+        totalDuration: 0,
+        waypoints,
+        polyline: encodePolyline(waypoints),
+        trafficIncidents: [],
+        provider: this.name,
+      };
+    }
+
+    const { stops: plannedStops, fixedEnd } = applyRouteMode(
+      stops,
+      routeModeOf(preferences),
+    );
+    const { stops: optimizedStops, stopOrder } = this.orderStops(
+      plannedStops,
+      incidents,
+      {
+        fixedEnd,
+        startTime,
+        capacity: preferences.capacity,
+        driverRules: preferences.driverRules,
+        optimizeFor: preferences.optimizeFor,
+      },
+    );
+    const affectedIncidents = new Map<string, AffectedTrafficIncident>();
+
+    let totalDistance = 0;
+    const legDurations: number[] = [];
+
+    for (let i = 0; i < optimizedStops.length - 1; i++) {
+      const stop = optimizedStops[i];
+      const nextStop = optimizedStops[i + 1];
+      const distance = calculateHaversineDistance(
+        stop.latitude,
+        stop.longitude,
+        nextStop.latitude,
+        nextStop.longitude,
+      );
+      totalDistance += distance;
+
+      // Slow the leg down for any stored incidents along it
+      const freeFlowSeconds = this.travelSeconds(distance);
+      const impact = assessLegTraffic(stop, nextStop, incidents);
+      const travelTimeSeconds = Math.round(
+        freeFlowSeconds * impact.durationFactor,
+      );
+      recordLegImpact(
+        affectedIncidents,
+        impact,
+        { from: stop.address, to: nextStop.address },
+        travelTimeSeconds - freeFlowSeconds,
+      );
+      legDurations.push(travelTimeSeconds);
+    }
+
+    // Arrivals include service time at each stop and any wait for its window
+    const { waypoints, totalDuration, driverShift } = scheduleRoute(
+      optimizedStops,
+      legDurations,
+      startTime,
+      preferences,
+    );
+
+    return {
+      totalDistance: Math.round(totalDistance), // Keep in meters
+      totalDuration,
+      waypoints,
+      // Straight lines through the stops (and any breaks) in visiting order
+      polyline: encodePolyline(waypoints),
+      trafficIncidents: Array.from(affectedIncidents.values()),
+      provider: this.name,
+      stopOrder,
+      driverShift,
+    };
+  }
+
+  /**
+   * Order stops starting from the first one, weighting each candidate leg
+   * by what optimizeFor minimises and the traffic incidents along it. Pickups stay ahead of their deliveries
+   * and the vehicle is never loaded beyond capacity. Driver breaks count
+   * towards time window lateness.
+   */
+  orderStops<T extends RouteStop>(
+    stops: T[],
+    incidents: TrafficIncident[] = [],
+    {
+      fixedEnd = false,
+      startTime = Date.now(),
+      capacity,
+      driverRules,
+      optimizeFor,
+    }: {
+      fixedEnd?: boolean;
+      startTime?: number;
+      capacity?: Load;
+      driverRules?: DriverRules;
+      optimizeFor?: RoutingPreferences['optimizeFor'];
+    } = {},
+  ): StopOrderPlan<T> {
+    const legs = stops.map((from) =>
+      stops.map((to) => this.estimateLeg(from, to, incidents, optimizeFor)),
+    );
+    const costs = legs.map((row) => row.map((leg) => leg.cost));
+    // Time windows can't be expressed as leg costs, so missed ones are charged per order
+    const durations = legs.map((row) => row.map((leg) => leg.duration));
+    const hasWindows = stops.some((stop) => stop.timeWindow);
+    const pairs = findShipmentPairs(stops);
+    const checkLoad =
+      !!capacity && stops.some((stop) => stop.demand) && pairs.length > 0;
+    const penalty =
+      hasWindows || pairs.length > 0
+        ? (order: number[]) => {
+            const orderedStops = order.map((index) => stops[index]);
+            let cost =
+              countPrecedenceViolations(order, pairs) * INFEASIBLE_ORDER_COST;
+            if (checkLoad) {
+              cost +=
+                loadProfile(orderedStops).filter(
+                  (load) => findCapacityExcess(load, capacity).length > 0,
+                ).length * INFEASIBLE_ORDER_COST;
+            }
+            if (hasWindows) {
+              cost +=
+                planSchedule(
+                  orderedStops,
+                  order
+                    .slice(1)
+                    .map(
+                      (index, position) => durations[order[position]][index],
+                    ),
+                  startTime,
+                  { driverRules },
+                ).totalLateness * LATENESS_COST_PER_SECOND;
+            }
+            return cost;
+          }
+        : undefined;
+
+    const solution = solveStopOrder(costs, {
+      fixedEnd,
+      timeBudgetMs: this.timeBudgetMs,
+      seed: this.seed,
+      penalty,
+    });
+
+    // The search should never settle on a delivery before its pickup, but make sure
+    if (countPrecedenceViolations(solution.order, pairs) > 0) {
+      solution.order = repairPrecedence(solution.order, pairs);
+      solution.cost = pathCost(costs, solution.order);
+    }
+
+    const orderedStops = solution.order.map((index) => stops[index]);
+    // The load penalty only steers the search, so a vehicle that can't carry
+    // the shipments in any order still gets an order back; refuse it instead
+    if (checkLoad) {
+      const profile = loadProfile(orderedStops);
+      const overloadedStops = orderedStops.flatMap((stop, position) => {
+        const excess = findCapacityExcess(profile[position], capacity);
+        return excess.length > 0 ? [{ address: stop.address, excess }] : [];
+      });
+      if (overloadedStops.length > 0) {
+        throw new BadRequestException({
+          message: 'No stop order keeps the vehicle within capacity',
+          overloadedStops,
+        });
+      }
+    }
+
+    return {
+      stops: orderedStops,
+      stopOrder: {
+        solver: 'local-search',
+        inputCost: Math.round(solution.inputCost),
+        optimizedCost: Math.round(solution.cost),
+        improvementPercent:
+          solution.inputCost > 0
+            ? Math.round(
+                ((solution.inputCost - solution.cost) / solution.inputCost) *
+                  10000,
+              ) / 100
+            : 0,
+        iterations: solution.iterations,
+        elapsedMs: solution.elapsedMs,
+      },
+    };
+  }
+
+  async getMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+  ): Promise<TravelMatrix> {
+    const legs = origins.map((from) =>
+      destinations.map((to) => this.estimateLeg(from, to)),
+    );
+    return {
+      distances: legs.map((row) => row.map((leg) => Math.round(leg.distance))),
+      durations: legs.map((row) => row.map((leg) => leg.duration)),
+    };
+  }
+
+  /**
+   * Straight-line estimate for a single leg. Cost is meters weighted by what
+   * optimizeFor minimises: for time by the incidents' whole slowdown, for fuel
+   * by part of it and for distance only by the detours around blocked roads.
+   * Duration is seconds including the incidents' delays.
+   */
+  estimateLeg(
+    from: Coordinates,
+    to: Coordinates,
+    incidents: TrafficIncident[] = [],
+    optimizeFor: RoutingPreferences['optimizeFor'] = 'time',
+  ) {
+    const distance = calculateHaversineDistance(
+      from.latitude,
+      from.longitude,
+      to.latitude,
+      to.longitude,
+    );
+    const impact = assessLegTraffic(from, to, incidents);
+    const costFactor =
+      optimizeFor === 'time' || impact.blocked
+        ? impact.costFactor
+        : optimizeFor === 'fuel'
+          ? 1 + (impact.costFactor - 1) * CONGESTION_FUEL_SHARE
+          : 1;
+    return {
+      distance,
+      cost: distance * costFactor,
+      duration: Math.round(
+        this.travelSeconds(distance) * impact.durationFactor,
+      ),
+    };
+  }
+
+  private travelSeconds(distanceMeters: number) {
+    return Math.round((distanceMeters / 1000 / AVERAGE_SPEED_KMH) * 3600);
+  }
+}
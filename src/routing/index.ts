@@ -0,0 +1,11 @@
+export * from './routing-provider.interface';
+export * from './routing.utils';
+export * from './load.utils';
+export * from './shipment.utils';
+export * from './driver-rules';
+export * from './tsp-solver';
+export * from './fleet-assignment';
+export * from './haversine-routing.provider';
+export * from './osrm-routing.provider';
+export * from './graphhopper-routing.provider';
+export * from './routing.service';
@@ -0,0 +1,66 @@
+import { findCapacityExcess, withRunningLoad } from './load.utils';
+import { PlannedWaypoint } from './routing-provider.interface';
+
+const waypoint = (
+  address: string,
+  demand?: { weight: number },
+  extra: Partial<PlannedWaypoint> = {},
+): PlannedWaypoint => ({
+  latitude: 0,
+  longitude: 0,
+  address,
+  estimatedArrival: '2026-10-18T09:00:00.000Z',
+  ...(demand && { demand }),
+  ...extra,
+});
+
+describe('load utils', () => {
+  it('shows the load still on board after each stop', () => {
+    const waypoints = withRunningLoad([
+      waypoint('Depot'),
+      waypoint('A', { weight: 120.5 }),
+      waypoint('B', { weight: 80 }),
+    ]);
+
+    expect(waypoints.map((w) => w.load)).toEqual([
+      { weight: 200.5 },
+      { weight: 80 },
+      { weight: 0 },
+    ]);
+  });
+
+  it('carries a shipment only between its pickup and delivery', () => {
+    const waypoints = withRunningLoad([
+      waypoint('Depot'),
+      waypoint('A', { weight: 50 }),
+      waypoint(
+        'Supplier',
+        { weight: 300 },
+        {
+          shipmentId: 'S1',
+          stopType: 'pickup',
+        },
+      ),
+      waypoint('Customer', undefined, {
+        shipmentId: 'S1',
+        stopType: 'delivery',
+      }),
+    ]);
+
+    expect(waypoints.map((w) => w.load)).toEqual([
+      { weight: 50 },
+      { weight: 0 },
+      { weight: 300 },
+      { weight: 0 },
+    ]);
+  });
+
+  it('only reports limited dimensions that are exceeded', () => {
+    expect(
+      findCapacityExcess(
+        { weight: 900, volume: 14, pallets: 3 },
+        { weight: 1000, volume: 12 },
+      ),
+    ).toEqual([{ dimension: 'volume', load: 14, capacity: 12 }]);
+  });
+});
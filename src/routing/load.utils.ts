@@ -0,0 +1,114 @@
+import {
+  LOAD_DIMENSIONS,
+  Load,
+  LoadDimension,
+  PlannedWaypoint,
+  RouteStop,
+} from './routing-provider.interface';
+import {
+  ShipmentStop,
+  findShipmentPairs,
+  shipmentDemands,
+} from './shipment.utils';
+
+export type CapacityExcess = {
+  dimension: LoadDimension;
+  load: number;
+  capacity: number;
+};
+
+export function addLoads(a: Load = {}, b: Load = {}, sign = 1): Load {
+  const sum: Load = {};
+  for (const dimension of LOAD_DIMENSIONS) {
+    if (a[dimension] !== undefined || b[dimension] !== undefined) {
+      // Rounded so repeated additions don't drift into float noise
+      sum[dimension] =
+        Math.round(((a[dimension] ?? 0) + sign * (b[dimension] ?? 0)) * 1000) /
+        1000;
+    }
+  }
+  return sum;
+}
+
+export function totalDemand(stops: Array<Pick<RouteStop, 'demand'>>): Load {
+  return stops.reduce<Load>((total, stop) => addLoads(total, stop.demand), {});
+}
+
+/**
+ * Dimensions in which a load is over capacity; unlimited dimensions never are
+ */
+export function findCapacityExcess(load: Load, capacity: Load) {
+  return LOAD_DIMENSIONS.flatMap((dimension): CapacityExcess[] => {
+    const limit = capacity[dimension];
+    const amount = load[dimension] ?? 0;
+    return limit !== undefined && amount > limit
+      ? [{ dimension, load: amount, capacity: limit }]
+      : [];
+  });
+}
+
+/**
+ * What is on board after serving each stop, in visiting order. Unpaired
+ * stops are deliveries loaded at the first stop; a paired pickup loads its
+ * shipment and the matching delivery unloads it.
+ */
+export function loadProfile(stops: ShipmentStop[]): Load[] {
+  const demands = shipmentDemands(stops);
+  const paired = new Set(
+    findShipmentPairs(stops).map((pair) => pair.shipmentId),
+  );
+  const isPaired = (stop: ShipmentStop) =>
+    !!stop.shipmentId && paired.has(stop.shipmentId);
+
+  let load = totalDemand(stops.slice(1).filter((stop) => !isPaired(stop)));
+  return stops.map((stop, index) => {
+    if (isPaired(stop)) {
+      load = addLoads(
+        load,
+        demands.get(stop.shipmentId!),
+        stop.stopType === 'pickup' ? 1 : -1,
+      );
+    } else if (index > 0) {
+      load = addLoads(load, stop.demand, -1);
+    }
+    return load;
+  });
+}
+
+/**
+ * The most the vehicle carries in each dimension at any point of the route
+ */
+export function peakLoad(stops: ShipmentStop[]): Load {
+  return loadProfile(stops).reduce<Load>((peak, load) => {
+    const next = { ...peak };
+    for (const dimension of LOAD_DIMENSIONS) {
+      if (load[dimension] !== undefined) {
+        next[dimension] = Math.max(next[dimension] ?? 0, load[dimension]);
+      }
+    }
+    return next;
+  }, {});
+}
+
+/**
+ * Loads the vehicle carries whatever the stop order: everything loaded at
+ * the first stop, and each shipment between its pickup and delivery
+ */
+export function unavoidableLoads(stops: ShipmentStop[]): Load[] {
+  return [loadProfile(stops)[0] ?? {}, ...shipmentDemands(stops).values()];
+}
+
+/**
+ * Annotate each waypoint with what is still on board after serving it
+ */
+export function withRunningLoad<T extends PlannedWaypoint>(waypoints: T[]) {
+  if (!waypoints.some((waypoint) => waypoint.demand)) {
+    return waypoints;
+  }
+
+  const profile = loadProfile(waypoints);
+  return waypoints.map((waypoint, index) => ({
+    ...waypoint,
+    load: profile[index],
+  }));
+}
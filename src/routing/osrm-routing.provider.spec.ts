@@ -0,0 +1,173 @@
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { HaversineRoutingProvider } from './haversine-routing.provider';
+import {
+  OsrmRouteResponse,
+  OsrmRoutingProvider,
+  OsrmTableResponse,
+  OsrmTripResponse,
+} from './osrm-routing.provider';
+import { RouteStop, RoutingPreferences } from './routing-provider.interface';
+
+const departureTime = '2026-10-18T09:00:00.000Z';
+const after = (seconds: number) =>
+  new Date(Date.parse(departureTime) + seconds * 1000).toISOString();
+
+// No service time, so arrivals follow the legs alone
+const stop = (address: string, longitude: number): RouteStop => ({
+  latitude: 52.5,
+  longitude,
+  address,
+  serviceDurationSeconds: 0,
+});
+
+const stops = [
+  stop('Depot', 13.3),
+  stop('A', 13.31),
+  stop('B', 13.32),
+  stop('End', 13.33),
+];
+
+const preferences = (
+  extra: Partial<RoutingPreferences> = {},
+): RoutingPreferences => ({
+  avoidTolls: false,
+  avoidHighways: false,
+  optimizeFor: 'time',
+  departureTime,
+  ...extra,
+});
+
+const osrmRoute = (legDurations: number[]) => ({
+  distance: 4321.4,
+  duration: legDurations.reduce((sum, duration) => sum + duration, 0),
+  geometry: 'road_geometry',
+  legs: legDurations.map((duration) => ({ distance: 1000, duration })),
+});
+
+describe('OsrmRoutingProvider', () => {
+  const haversine = new HaversineRoutingProvider(
+    new ConfigService({ ROUTE_SOLVER_TIME_BUDGET_MS: '50' }),
+  );
+  const provider = new OsrmRoutingProvider(
+    new ConfigService({ OSRM_BASE_URL: 'http://osrm.local/' }),
+    haversine,
+  );
+  let get: jest.SpyInstance;
+
+  beforeEach(() => {
+    get = jest.spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    get.mockRestore();
+  });
+
+  const requestedUrl = () => {
+    const [[url]] = get.mock.calls as [[string]];
+    return new URL(url);
+  };
+
+  describe('optimizeRoute', () => {
+    it('visits the stops in the order the trip service returns', async () => {
+      // waypoint_index is where each input stop sits within the trip
+      get.mockResolvedValue({
+        data: {
+          code: 'Ok',
+          trips: [osrmRoute([600, 300, 900])],
+          waypoints: [0, 2, 1, 3].map((position) => ({
+            waypoint_index: position,
+            trips_index: 0,
+          })),
+        } satisfies OsrmTripResponse,
+      });
+
+      const route = await provider.optimizeRoute(stops, preferences());
+
+      const url = requestedUrl();
+      expect(url.pathname).toBe(
+        '/trip/v1/driving/13.3,52.5;13.31,52.5;13.32,52.5;13.33,52.5',
+      );
+      expect(url.searchParams.get('source')).toBe('first');
+      expect(url.searchParams.get('destination')).toBe('last');
+      expect(url.searchParams.get('roundtrip')).toBe('false');
+      expect(route.waypoints.map((waypoint) => waypoint.address)).toEqual([
+        'Depot',
+        'B',
+        'A',
+        'End',
+      ]);
+      expect(
+        route.waypoints.map((waypoint) => waypoint.estimatedArrival),
+      ).toEqual([after(0), after(600), after(900), after(1800)]);
+      expect(route).toMatchObject({
+        totalDistance: 4321,
+        totalDuration: 1800,
+        polyline: 'road_geometry',
+        provider: 'osrm',
+      });
+    });
+
+    it.each([
+      ['an open end', { routeMode: 'openEnd' as const }],
+      ['distance', { optimizeFor: 'distance' as const }],
+    ])('orders stops locally for %s', async (_, extra) => {
+      get.mockResolvedValue({
+        data: {
+          code: 'Ok',
+          routes: [osrmRoute([300, 300, 300])],
+        } satisfies OsrmRouteResponse,
+      });
+
+      const route = await provider.optimizeRoute(stops, preferences(extra));
+
+      expect(requestedUrl().pathname).toMatch(/^\/route\/v1\/driving\//);
+      expect(route.stopOrder?.solver).toBe('local-search');
+      // Stops along a straight road are best visited in line
+      expect(route.waypoints.map((waypoint) => waypoint.address)).toEqual([
+        'Depot',
+        'A',
+        'B',
+        'End',
+      ]);
+    });
+
+    it('fails with the message OSRM gives', async () => {
+      get.mockResolvedValue({
+        data: {
+          code: 'NoTrips',
+          message: 'Trip not found',
+          trips: [],
+          waypoints: [],
+        },
+      });
+
+      await expect(
+        provider.optimizeRoute(stops, preferences()),
+      ).rejects.toThrow('OSRM trip error: Trip not found');
+    });
+  });
+
+  describe('getMatrix', () => {
+    it('keeps unreachable pairs empty', async () => {
+      get.mockResolvedValue({
+        data: {
+          code: 'Ok',
+          durations: [[0, 61.6, null]],
+          distances: [[0, 1000.4, null]],
+        } satisfies OsrmTableResponse,
+      });
+
+      const matrix = await provider.getMatrix(
+        [stops[0]],
+        [stops[0], stops[1], stops[2]],
+      );
+
+      expect(requestedUrl().searchParams.get('destinations')).toBe('1;2;3');
+      expect(matrix).toEqual({
+        distances: [[0, 1000, null]],
+        durations: [[0, 62, null]],
+      });
+    });
+  });
+});
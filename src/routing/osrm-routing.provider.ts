@@ -0,0 +1,245 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { TrafficIncident } from '../utils/traffic-impact.utils';
+import { Coordinates } from '../utils/geo.utils';
+import { encodePolyline } from '../utils/polyline.utils';
+import {
+  OptimizedRoute,
+  RouteStop,
+  RoutingPreferences,
+  RoutingProvider,
+  TravelMatrix,
+} from './routing-provider.interface';
+import { HaversineRoutingProvider } from './haversine-routing.provider';
+import {
+  applyIncidentDelays,
+  applyRouteMode,
+  departureTimeOf,
+  requiresLocalOrdering,
+  routeModeOf,
+  scheduleRoute,
+} from './routing.utils';
+
+interface OsrmLeg {
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  geometry: string;
+  legs: OsrmLeg[];
+}
+
+export interface OsrmTripResponse {
+  code: string;
+  message?: string;
+  trips: OsrmRoute[];
+  waypoints: Array<{ waypoint_index: number; trips_index: number }>;
+}
+
+export interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes: OsrmRoute[];
+}
+
+export interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations: Array<Array<number | null>>;
+  distances: Array<Array<number | null>>;
+}
+
+/**
+ * Adapter for a (typically self-hosted) OSRM server. Uses the trip service to
+ * order stops for time between a fixed origin and end, or the route service
+ * for stops ordered locally.
+ */
+@Injectable()
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = 'osrm' as const;
+  private readonly logger = new Logger(OsrmRoutingProvider.name);
+  private readonly baseUrl: string;
+  private readonly profile: string;
+
+  constructor(
+    private configService: ConfigService,
+    private haversineRoutingProvider: HaversineRoutingProvider,
+  ) {
+    this.baseUrl = (
+      this.configService.get<string>('OSRM_BASE_URL') || ''
+    ).replace(/\/$/, '');
+    this.profile = this.configService.get<string>('OSRM_PROFILE') || 'driving';
+  }
+
+  isAvailable() {
+    return !!this.baseUrl;
+  }
+
+  async optimizeRoute(
+    stops: RouteStop[],
+    preferences: RoutingPreferences,
+    incidents: TrafficIncident[] = [],
+  ): Promise<OptimizedRoute> {
+    if (stops.length < 2) {
+      return this.haversineRoutingProvider.optimizeRoute(
+        stops,
+        preferences,
+        incidents,
+      );
+    }
+
+    const startTime = departureTimeOf(preferences);
+    // A round trip is planned as a fixed end back at the origin, so the
+    // trip service's own roundtrip option isn't needed
+    const { stops: plannedStops, fixedEnd } = applyRouteMode(
+      stops,
+      routeModeOf(preferences),
+    );
+    try {
+      const params = new URLSearchParams({
+        overview: 'full',
+        geometries: 'polyline',
+      });
+      const exclude = this.buildExcludeString(preferences);
+      if (exclude) {
+        params.set('exclude', exclude);
+      }
+
+      let orderedStops: RouteStop[];
+      let route: OsrmRoute;
+      let stopOrder: OptimizedRoute['stopOrder'];
+
+      // The trip service can only leave the end open on round trips and only
+      // minimises duration, so open-ended routes and routes optimized for
+      // distance or fuel are ordered locally like constrained ones
+      const localOrderingReason = !fixedEnd
+        ? 'Open-ended route'
+        : preferences.optimizeFor !== 'time'
+          ? `Optimizing for ${preferences.optimizeFor}`
+          : requiresLocalOrdering(plannedStops, incidents)
+            ? 'Time windows, shipments or blocked legs'
+            : undefined;
+
+      if (localOrderingReason) {
+        this.logger.log(`${localOrderingReason}, ordering stops locally`);
+        ({ stops: orderedStops, stopOrder } =
+          this.haversineRoutingProvider.orderStops(plannedStops, incidents, {
+            fixedEnd,
+            startTime,
+            capacity: preferences.capacity,
+            driverRules: preferences.driverRules,
+            optimizeFor: preferences.optimizeFor,
+          }));
+
+        const response = await axios.get<OsrmRouteResponse>(
+          `${this.baseUrl}/route/v1/${this.profile}/${this.toCoordinates(orderedStops)}?${params}`,
+        );
+        if (response.data.code !== 'Ok') {
+          throw new Error(
+            `OSRM route error: ${response.data.message || response.data.code}`,
+          );
+        }
+        route = response.data.routes[0];
+      } else {
+        params.set('source', 'first');
+        params.set('destination', 'last');
+        params.set('roundtrip', 'false');
+
+        const response = await axios.get<OsrmTripResponse>(
+          `${this.baseUrl}/trip/v1/${this.profile}/${this.toCoordinates(plannedStops)}?${params}`,
+        );
+        if (response.data.code !== 'Ok') {
+          throw new Error(
+            `OSRM trip error: ${response.data.message || response.data.code}`,
+          );
+        }
+
+        // waypoint_index is each input stop's position within the trip
+        orderedStops = new Array<RouteStop>(plannedStops.length);
+        response.data.waypoints.forEach((waypoint, index) => {
+          orderedStops[waypoint.waypoint_index] = plannedStops[index];
+        });
+        route = response.data.trips[0];
+      }
+
+      const { legDurations, trafficIncidents } = applyIncidentDelays(
+        orderedStops,
+        route.legs.map((leg) => Math.round(leg.duration)),
+        incidents,
+      );
+
+      const { waypoints, totalDuration, driverShift } = scheduleRoute(
+        orderedStops,
+        legDurations,
+        startTime,
+        preferences,
+      );
+
+      return {
+        totalDistance: Math.round(route.distance),
+        totalDuration,
+        waypoints,
+        // Straight lines through the stops if the provider sent no road geometry
+        polyline: route.geometry || encodePolyline(waypoints),
+        trafficIncidents,
+        provider: this.name,
+        stopOrder,
+        driverShift,
+      };
+    } catch (error) {
+      this.logger.error('Failed to optimize route with OSRM:', error);
+      throw error;
+    }
+  }
+
+  async getMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+  ): Promise<TravelMatrix> {
+    try {
+      // One coordinate list; sources and destinations index into it
+      const params = new URLSearchParams({
+        sources: origins.map((_, index) => index).join(';'),
+        destinations: destinations
+          .map((_, index) => origins.length + index)
+          .join(';'),
+        annotations: 'duration,distance',
+      });
+      const response = await axios.get<OsrmTableResponse>(
+        `${this.baseUrl}/table/v1/${this.profile}/${this.toCoordinates([...origins, ...destinations])}?${params}`,
+      );
+      if (response.data.code !== 'Ok') {
+        throw new Error(
+          `OSRM table error: ${response.data.message || response.data.code}`,
+        );
+      }
+
+      const round = (value: number | null) =>
+        value === null ? null : Math.round(value);
+      return {
+        distances: response.data.distances.map((row) => row.map(round)),
+        durations: response.data.durations.map((row) => row.map(round)),
+      };
+    } catch (error) {
+      this.logger.error('Failed to build travel matrix with OSRM:', error);
+      throw error;
+    }
+  }
+
+  private toCoordinates(stops: Coordinates[]) {
+    // OSRM expects longitude,latitude pairs
+    return stops.map((stop) => `${stop.longitude},${stop.latitude}`).join(';');
+  }
+
+  private buildExcludeString(preferences: RoutingPreferences) {
+    // Only honoured when the OSRM profile defines these classes
+    const excludes: string[] = [];
+    if (preferences.avoidTolls) excludes.push('toll');
+    if (preferences.avoidHighways) excludes.push('motorway');
+    return excludes.join(',');
+  }
+}
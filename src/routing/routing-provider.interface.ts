@@ -0,0 +1,167 @@
+import {
+  AffectedTrafficIncident,
+  TrafficIncident,
+} from '../utils/traffic-impact.utils';
+import { Coordinates } from '../utils/geo.utils';
+
+export const ROUTING_PROVIDER_NAMES = [
+  'google',
+  'osrm',
+  'graphhopper',
+  'haversine',
+] as const;
+
+export type RoutingProviderName = (typeof ROUTING_PROVIDER_NAMES)[number];
+
+export type TimeWindow = {
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+};
+
+export const LOAD_DIMENSIONS = ['weight', 'volume', 'pallets'] as const;
+
+export type LoadDimension = (typeof LOAD_DIMENSIONS)[number];
+
+// Weight in kg, volume in m³. Used both for what a stop needs and what a vehicle holds.
+export type Load = Partial<Record<LoadDimension, number>>;
+
+export const STOP_TYPES = ['pickup', 'delivery'] as const;
+
+export type StopType = (typeof STOP_TYPES)[number];
+
+export type RouteStop = {
+  latitude: number;
+  longitude: number;
+  address: string;
+  // Id of a stored route's stop, carried along when the route is re-planned
+  stopId?: string;
+  // Service may not start before the window opens and should start before it closes
+  timeWindow?: TimeWindow;
+  // Time spent at the stop; defaults to DEFAULT_SERVICE_DURATION_SECONDS
+  serviceDurationSeconds?: number;
+  // Goods handled at the stop. Unpaired stops are deliveries loaded at the origin.
+  demand?: Load;
+  // Pickup/delivery pairs share a shipment id; the pickup must come first
+  shipmentId?: string;
+  stopType?: StopType;
+  // How close the vehicle must come to count as arrived; defaults to STOP_GEOFENCE_RADIUS_METERS
+  geofenceRadiusMeters?: number;
+};
+
+// Limits on a driver's working day. Driving time resets after a break.
+export type DriverRules = {
+  maxContinuousDrivingSeconds: number;
+  breakDurationSeconds: number;
+  maxShiftSeconds: number;
+};
+
+export const DRIVER_RULES_PROFILE_NAMES = ['EU_561', 'US_HOS'] as const;
+
+export type DriverRulesProfileName =
+  (typeof DRIVER_RULES_PROFILE_NAMES)[number];
+
+export type PlannedWaypoint = {
+  latitude: number;
+  longitude: number;
+  address: string;
+  estimatedArrival: string;
+  // Set on every stop of a stored route; see RouteStop.stopId
+  stopId?: string;
+  // Only set on rest breaks the driver rules require; every other waypoint is a stop
+  type?: 'BREAK';
+  timeWindow?: TimeWindow;
+  serviceDurationSeconds?: number;
+  demand?: Load;
+  shipmentId?: string;
+  stopType?: StopType;
+  geofenceRadiusMeters?: number;
+  // Still on board after serving the stop; only set when stops have demand
+  load?: Load;
+  // Only set for stops with a time window
+  waitingSeconds?: number;
+  latenessSeconds?: number;
+};
+
+// roundTrip returns to the first stop, fixedEnd finishes at the last stop and
+// openEnd finishes wherever the best order ends
+export const ROUTE_MODES = ['roundTrip', 'fixedEnd', 'openEnd'] as const;
+
+export type RouteMode = (typeof ROUTE_MODES)[number];
+
+export interface RoutingPreferences {
+  avoidTolls: boolean;
+  avoidHighways: boolean;
+  optimizeFor: 'time' | 'distance' | 'fuel';
+  // Where the route finishes; defaults to fixedEnd
+  routeMode?: RouteMode;
+  // When the vehicle leaves the first stop (ISO 8601); defaults to now
+  departureTime?: string;
+  // What the vehicle can carry at once; unconstrained when omitted
+  capacity?: Load;
+  // Breaks and shift limits for the driver; driving is continuous when omitted
+  driverRules?: DriverRules;
+  // When the driver's working day began (ISO 8601); defaults to the departure
+  shiftStart?: string;
+}
+
+// How much the in-process solver improved on the requested stop order
+export type StopOrderImprovement = {
+  solver: 'local-search';
+  inputCost: number; // traffic-weighted meters
+  optimizedCost: number; // traffic-weighted meters
+  improvementPercent: number;
+  iterations: number;
+  elapsedMs: number;
+};
+
+export interface StopOrderPlan<T extends RouteStop> {
+  stops: T[];
+  stopOrder: StopOrderImprovement;
+}
+
+export interface OptimizedRoute {
+  totalDistance: number; // meters
+  totalDuration: number; // seconds
+  waypoints: PlannedWaypoint[];
+  polyline: string;
+  trafficIncidents: AffectedTrafficIncident[];
+  provider: RoutingProviderName;
+  // Set when the stop order came from the in-process solver
+  stopOrder?: StopOrderImprovement;
+  // Set when the route was planned under driver rules
+  driverShift?: DriverShift;
+}
+
+export type DriverShift = {
+  breaks: number;
+  shiftSeconds: number; // from departure until service ends at the last stop
+  maxShiftSeconds: number;
+  exceedsShift: boolean;
+};
+
+// Travel from each origin (row) to each destination (column); null where
+// the provider found no route
+export type TravelMatrix = {
+  distances: Array<Array<number | null>>; // meters
+  durations: Array<Array<number | null>>; // seconds
+};
+
+/**
+ * A routing backend that can order stops and estimate travel between them.
+ * The first stop is the origin and, for external providers, the last stop is
+ * the destination.
+ */
+export interface RoutingProvider {
+  readonly name: RoutingProviderName;
+  isAvailable(): boolean;
+  optimizeRoute(
+    stops: RouteStop[],
+    preferences: RoutingPreferences,
+    incidents?: TrafficIncident[],
+  ): Promise<OptimizedRoute>;
+  getMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    preferences?: Pick<RoutingPreferences, 'departureTime'>,
+  ): Promise<TravelMatrix>;
+}
@@ -0,0 +1,140 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GoogleMapsService } from '../services/google-maps.service';
+import { TrafficIncident } from '../utils/traffic-impact.utils';
+import {
+  DriverRules,
+  OptimizedRoute,
+  ROUTING_PROVIDER_NAMES,
+  RouteStop,
+  RoutingPreferences,
+  RoutingProvider,
+  RoutingProviderName,
+} from './routing-provider.interface';
+import { HaversineRoutingProvider } from './haversine-routing.provider';
+import { OsrmRoutingProvider } from './osrm-routing.provider';
+import { GraphHopperRoutingProvider } from './graphhopper-routing.provider';
+import {
+  DRIVER_RULES_PROFILES,
+  DriverRulesSetting,
+  isDriverRulesProfileName,
+  resolveDriverRules,
+} from './driver-rules';
+
+export type RoutingServicePreferences = Omit<
+  RoutingPreferences,
+  'driverRules'
+> & {
+  routingProvider?: RoutingProviderName;
+  driverRules?: DriverRulesSetting;
+};
+
+/**
+ * Picks the routing provider for a plan: the one named on the request, else
+ * ROUTING_PROVIDER from configuration, else the built-in haversine estimator.
+ * Driver rules likewise come from the request, else DRIVER_RULES_PROFILE.
+ */
+@Injectable()
+export class RoutingService {
+  private readonly logger = new Logger(RoutingService.name);
+  private readonly providers: Map<RoutingProviderName, RoutingProvider>;
+  private readonly defaultProviderName: RoutingProviderName;
+  private readonly defaultDriverRules?: DriverRules;
+
+  constructor(
+    private configService: ConfigService,
+    googleMapsService: GoogleMapsService,
+    osrmRoutingProvider: OsrmRoutingProvider,
+    graphHopperRoutingProvider: GraphHopperRoutingProvider,
+    private haversineRoutingProvider: HaversineRoutingProvider,
+  ) {
+    this.providers = new Map<RoutingProviderName, RoutingProvider>(
+      [
+        googleMapsService,
+        osrmRoutingProvider,
+        graphHopperRoutingProvider,
+        haversineRoutingProvider,
+      ].map((provider) => [provider.name, provider]),
+    );
+
+    const configured =
+      this.configService.get<string>('ROUTING_PROVIDER') || 'google';
+    if (ROUTING_PROVIDER_NAMES.includes(configured as RoutingProviderName)) {
+      this.defaultProviderName = configured as RoutingProviderName;
+    } else {
+      this.logger.warn(
+        `Unknown ROUTING_PROVIDER "${configured}", using haversine`,
+      );
+      this.defaultProviderName = 'haversine';
+    }
+
+    const driverRulesProfile = this.configService.get<string>(
+      'DRIVER_RULES_PROFILE',
+    );
+    if (driverRulesProfile && isDriverRulesProfileName(driverRulesProfile)) {
+      this.defaultDriverRules = DRIVER_RULES_PROFILES[driverRulesProfile];
+    } else if (driverRulesProfile) {
+      this.logger.warn(
+        `Unknown DRIVER_RULES_PROFILE "${driverRulesProfile}", planning without driver breaks`,
+      );
+    }
+  }
+
+  /**
+   * An explicitly requested provider must be usable (strict); otherwise an
+   * unavailable provider falls back to the haversine estimator.
+   */
+  resolveProvider(
+    name?: RoutingProviderName,
+    { strict = true }: { strict?: boolean } = {},
+  ): RoutingProvider {
+    const requested = name ? this.providers.get(name) : undefined;
+    if (requested?.isAvailable()) {
+      return requested;
+    }
+    if (name && strict) {
+      throw new BadRequestException(
+        `Routing provider ${name} is not configured`,
+      );
+    }
+
+    const fallback = this.providers.get(this.defaultProviderName);
+    if (fallback?.isAvailable()) {
+      return fallback;
+    }
+
+    this.logger.warn(
+      `Routing provider ${this.defaultProviderName} is not configured, using haversine estimates`,
+    );
+    return this.haversineRoutingProvider;
+  }
+
+  resolveDriverRules(setting?: DriverRulesSetting) {
+    return resolveDriverRules(setting) ?? this.defaultDriverRules;
+  }
+
+  async optimizeRoute(
+    stops: RouteStop[],
+    preferences: RoutingServicePreferences,
+    incidents: TrafficIncident[] = [],
+    options: { strict?: boolean } = {},
+  ): Promise<OptimizedRoute> {
+    const provider = this.resolveProvider(preferences.routingProvider, options);
+    return provider.optimizeRoute(
+      stops,
+      {
+        ...preferences,
+        driverRules: this.resolveDriverRules(preferences.driverRules),
+      },
+      incidents,
+    );
+  }
+
+  listProviders() {
+    return Array.from(this.providers.values()).map((provider) => ({
+      name: provider.name,
+      available: provider.isAvailable(),
+      default: provider.name === this.defaultProviderName,
+    }));
+  }
+}
@@ -0,0 +1,122 @@
+import { applyRouteMode, findLateStops, scheduleRoute } from './routing.utils';
+
+const start = Date.parse('2026-10-18T09:00:00.000Z');
+const at = (minutes: number) =>
+  new Date(start + minutes * 60 * 1000).toISOString();
+const stop = (address: string, extra = {}) => ({
+  latitude: 0,
+  longitude: 0,
+  address,
+  ...extra,
+});
+
+describe('scheduleRoute', () => {
+  it('waits for windows to open and carries the wait into later arrivals', () => {
+    const { waypoints, totalDuration } = scheduleRoute(
+      [
+        stop('Depot'),
+        stop('A', { timeWindow: { start: at(30), end: at(60) } }),
+        stop('B', { serviceDurationSeconds: 60 }),
+      ],
+      [600, 600],
+      start,
+    );
+
+    // Arrive at A after 10 minutes, wait 20, serve 5 (default), drive 10
+    expect(waypoints[1]).toMatchObject({
+      estimatedArrival: at(10),
+      waitingSeconds: 20 * 60,
+      latenessSeconds: 0,
+    });
+    expect(waypoints[2].estimatedArrival).toBe(at(45));
+    expect(waypoints[2].serviceDurationSeconds).toBe(60);
+    expect(totalDuration).toBe(45 * 60);
+  });
+
+  it('flags stops reached after their window closes', () => {
+    const { waypoints } = scheduleRoute(
+      [stop('Depot'), stop('A', { timeWindow: { start: at(0), end: at(5) } })],
+      [900],
+      start,
+    );
+
+    expect(findLateStops(waypoints)).toEqual([
+      {
+        index: 1,
+        address: 'A',
+        timeWindow: { start: at(0), end: at(5) },
+        estimatedArrival: at(15),
+        latenessSeconds: 10 * 60,
+      },
+    ]);
+  });
+
+  it('stops for a break when the driving limit runs out mid-leg', () => {
+    const { waypoints, totalDuration, driverShift } = scheduleRoute(
+      [stop('Depot'), stop('A', { longitude: 3 }), stop('B', { longitude: 4 })],
+      [90 * 60, 30 * 60],
+      start,
+      {
+        driverRules: {
+          maxContinuousDrivingSeconds: 60 * 60,
+          breakDurationSeconds: 15 * 60,
+          maxShiftSeconds: 2 * 60 * 60,
+        },
+      },
+    );
+
+    // Two thirds of the way to A after an hour, then 30 more minutes of driving
+    expect(waypoints.map((w) => [w.address, w.estimatedArrival])).toEqual([
+      ['Depot', at(0)],
+      ['Rest break', at(60)],
+      ['A', at(105)],
+      ['B', at(140)],
+    ]);
+    expect(waypoints[1]).toMatchObject({
+      type: 'BREAK',
+      longitude: 2,
+      serviceDurationSeconds: 15 * 60,
+    });
+    expect(totalDuration).toBe(140 * 60);
+    expect(driverShift).toEqual({
+      breaks: 1,
+      shiftSeconds: 145 * 60,
+      maxShiftSeconds: 2 * 60 * 60,
+      exceedsShift: true,
+    });
+  });
+});
+
+describe('applyRouteMode', () => {
+  const stops = [
+    stop('Depot', { demand: { weight: 5 } }),
+    stop('A'),
+    stop('B'),
+  ];
+
+  it('returns to a bare copy of the origin on a round trip', () => {
+    expect(applyRouteMode(stops, 'roundTrip')).toEqual({
+      stops: [
+        ...stops,
+        {
+          latitude: 0,
+          longitude: 0,
+          address: 'Depot',
+          serviceDurationSeconds: 0,
+        },
+      ],
+      fixedEnd: true,
+    });
+  });
+
+  it('only pins the last stop for a fixed end', () => {
+    expect(applyRouteMode(stops, 'fixedEnd')).toEqual({
+      stops,
+      fixedEnd: true,
+    });
+    expect(applyRouteMode(stops, 'openEnd')).toEqual({
+      stops,
+      fixedEnd: false,
+    });
+  });
+});
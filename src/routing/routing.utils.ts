@@ -0,0 +1,318 @@
+import {
+  AffectedTrafficIncident,
+  TrafficIncident,
+  assessLegTraffic,
+  recordLegImpact,
+} from '../utils/traffic-impact.utils';
+import {
+  DriverShift,
+  PlannedWaypoint,
+  RouteMode,
+  RouteStop,
+  RoutingPreferences,
+} from './routing-provider.interface';
+
+export const DEFAULT_ROUTE_MODE: RouteMode = 'fixedEnd';
+
+/**
+ * External providers can't see our stored incidents; when one blocks a leg of
+ * the requested order we choose a traffic-aware order ourselves and keep it fixed.
+ */
+export function hasBlockedLeg(
+  stops: RouteStop[],
+  incidents: TrafficIncident[],
+) {
+  return stops.some(
+    (stop, index) =>
+      index < stops.length - 1 &&
+      assessLegTraffic(stop, stops[index + 1], incidents).blocked,
+  );
+}
+
+/**
+ * Stretch provider leg durations (seconds) by any stored incidents along them
+ */
+export function applyIncidentDelays(
+  stops: RouteStop[],
+  legDurations: number[],
+  incidents: TrafficIncident[],
+) {
+  const affectedIncidents = new Map<string, AffectedTrafficIncident>();
+  const delayedDurations = legDurations.map((legDuration, index) => {
+    const from = stops[index];
+    const to = stops[index + 1];
+    if (!from || !to) {
+      return legDuration;
+    }
+
+    const impact = assessLegTraffic(from, to, incidents);
+    const duration = Math.round(legDuration * impact.durationFactor);
+    recordLegImpact(
+      affectedIncidents,
+      impact,
+      { from: from.address, to: to.address },
+      duration - legDuration,
+    );
+    return duration;
+  });
+
+  return {
+    legDurations: delayedDurations,
+    trafficIncidents: Array.from(affectedIncidents.values()),
+  };
+}
+
+// Time spent at each stop for loading/unloading when the stop doesn't say
+export const DEFAULT_SERVICE_DURATION_SECONDS = 5 * 60;
+
+export function departureTimeOf(preferences: RoutingPreferences) {
+  return preferences.departureTime
+    ? Date.parse(preferences.departureTime)
+    : Date.now();
+}
+
+export function routeModeOf(
+  preferences: Pick<RoutingPreferences, 'routeMode'>,
+) {
+  return preferences.routeMode ?? DEFAULT_ROUTE_MODE;
+}
+
+/**
+ * The stops to plan for a route mode and whether the last of them stays last.
+ * A round trip gets a copy of the origin appended as its fixed destination.
+ */
+export function applyRouteMode(
+  stops: RouteStop[],
+  routeMode: RouteMode,
+): { stops: RouteStop[]; fixedEnd: boolean } {
+  if (routeMode !== 'roundTrip' || stops.length < 2) {
+    return { stops, fixedEnd: routeMode === 'fixedEnd' };
+  }
+
+  const { latitude, longitude, address } = stops[0];
+  return {
+    stops: [
+      ...stops,
+      { latitude, longitude, address, serviceDurationSeconds: 0 },
+    ],
+    fixedEnd: true,
+  };
+}
+
+/**
+ * Seconds spent serving a stop; the origin is only served when it asks to be
+ */
+export function serviceDurationOf(stop: RouteStop, index: number) {
+  return (
+    stop.serviceDurationSeconds ??
+    (index === 0 ? 0 : DEFAULT_SERVICE_DURATION_SECONDS)
+  );
+}
+
+export interface ScheduledBreak {
+  leg: number; // index of the stop the leg starts from
+  fraction: number; // how far along the leg the driver stops, 0 to 1
+  start: number; // epoch ms
+}
+
+export interface StopSchedule {
+  arrival: number; // epoch ms
+  serviceStart: number; // epoch ms, after any wait for the window to open
+  waitingSeconds: number;
+  latenessSeconds: number;
+}
+
+/**
+ * Some providers order stops without seeing our time windows, shipments or
+ * incidents; in those cases we order the stops ourselves and hand the
+ * provider a fixed order
+ */
+export function requiresLocalOrdering(
+  stops: RouteStop[],
+  incidents: TrafficIncident[],
+) {
+  return (
+    stops.some((stop) => stop.timeWindow || stop.shipmentId) ||
+    hasBlockedLeg(stops, incidents)
+  );
+}
+
+/**
+ * Walk the route from startTime: drive each leg (seconds), wait for a stop's
+ * window to open, then serve it. The route ends when service starts at the
+ * final stop. Under driver rules the driver rests wherever the continuous
+ * driving limit runs out, and the working day counts from shiftStart.
+ */
+export function planSchedule(
+  stops: RouteStop[],
+  legDurations: number[],
+  startTime = Date.now(),
+  {
+    driverRules,
+    shiftStart,
+  }: Pick<RoutingPreferences, 'driverRules' | 'shiftStart'> = {},
+) {
+  const schedule: StopSchedule[] = [];
+  const breaks: ScheduledBreak[] = [];
+  let clock = startTime;
+  let totalLateness = 0;
+  let driving = 0; // seconds since the last break
+
+  stops.forEach((stop, index) => {
+    if (index > 0) {
+      const legSeconds = legDurations[index - 1] || 0;
+      let driven = 0;
+      while (
+        driverRules &&
+        driving + legSeconds - driven > driverRules.maxContinuousDrivingSeconds
+      ) {
+        const stint = driverRules.maxContinuousDrivingSeconds - driving;
+        driven += stint;
+        clock += stint * 1000;
+        breaks.push({
+          leg: index - 1,
+          fraction: driven / legSeconds,
+          start: clock,
+        });
+        clock += driverRules.breakDurationSeconds * 1000;
+        driving = 0;
+      }
+      clock += (legSeconds - driven) * 1000;
+      driving += legSeconds - driven;
+    }
+
+    const arrival = clock;
+    const windowStart = stop.timeWindow
+      ? Date.parse(stop.timeWindow.start)
+      : arrival;
+    const windowEnd = stop.timeWindow
+      ? Date.parse(stop.timeWindow.end)
+      : Infinity;
+    const serviceStart = Math.max(arrival, windowStart);
+    const latenessSeconds = Math.max(
+      0,
+      Math.round((serviceStart - windowEnd) / 1000),
+    );
+    totalLateness += latenessSeconds;
+    const waitingSeconds = Math.round((serviceStart - arrival) / 1000);
+    // A wait for a window that is long enough counts as the break
+    if (driverRules && waitingSeconds >= driverRules.breakDurationSeconds) {
+      driving = 0;
+    }
+
+    schedule.push({ arrival, serviceStart, waitingSeconds, latenessSeconds });
+
+    clock = serviceStart + serviceDurationOf(stop, index) * 1000;
+  });
+
+  const last = schedule[schedule.length - 1];
+  let driverShift: DriverShift | undefined;
+  if (driverRules && last) {
+    const shiftSeconds = Math.round(
+      (clock - (shiftStart ? Date.parse(shiftStart) : startTime)) / 1000,
+    );
+    driverShift = {
+      breaks: breaks.length,
+      shiftSeconds,
+      maxShiftSeconds: driverRules.maxShiftSeconds,
+      exceedsShift: shiftSeconds > driverRules.maxShiftSeconds,
+    };
+  }
+
+  return {
+    schedule,
+    breaks,
+    totalDuration: last
+      ? Math.round((last.serviceStart - startTime) / 1000)
+      : 0,
+    totalLateness,
+    driverShift,
+  };
+}
+
+/**
+ * Waypoints with estimated arrivals from leg durations (seconds), including
+ * service time, any waiting for time windows and the breaks driver rules
+ * require, which become waypoints of their own
+ */
+export function scheduleRoute(
+  stops: RouteStop[],
+  legDurations: number[],
+  startTime = Date.now(),
+  options: Pick<RoutingPreferences, 'driverRules' | 'shiftStart'> = {},
+) {
+  const { schedule, breaks, totalDuration, driverShift } = planSchedule(
+    stops,
+    legDurations,
+    startTime,
+    options,
+  );
+
+  const stopWaypoints = stops.map((stop, index): PlannedWaypoint => {
+    const { arrival, waitingSeconds, latenessSeconds } = schedule[index];
+    return {
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      address: stop.address,
+      estimatedArrival: new Date(arrival).toISOString(),
+      ...(stop.stopId && { stopId: stop.stopId }),
+      ...(stop.serviceDurationSeconds !== undefined && {
+        serviceDurationSeconds: stop.serviceDurationSeconds,
+      }),
+      ...(stop.demand && { demand: stop.demand }),
+      ...(stop.shipmentId && { shipmentId: stop.shipmentId }),
+      ...(stop.stopType && { stopType: stop.stopType }),
+      ...(stop.geofenceRadiusMeters !== undefined && {
+        geofenceRadiusMeters: stop.geofenceRadiusMeters,
+      }),
+      ...(stop.timeWindow && {
+        timeWindow: stop.timeWindow,
+        waitingSeconds,
+        latenessSeconds,
+      }),
+    };
+  });
+
+  // Breaks are placed along their leg in proportion to the driving time
+  const waypoints = stopWaypoints.flatMap((waypoint, index) => [
+    waypoint,
+    ...breaks
+      .filter((scheduled) => scheduled.leg === index)
+      .map((scheduled): PlannedWaypoint => {
+        const next = stops[index + 1];
+        return {
+          latitude:
+            waypoint.latitude +
+            (next.latitude - waypoint.latitude) * scheduled.fraction,
+          longitude:
+            waypoint.longitude +
+            (next.longitude - waypoint.longitude) * scheduled.fraction,
+          address: 'Rest break',
+          estimatedArrival: new Date(scheduled.start).toISOString(),
+          type: 'BREAK',
+          serviceDurationSeconds: options.driverRules!.breakDurationSeconds,
+        };
+      }),
+  ]);
+
+  return { waypoints, totalDuration, driverShift };
+}
+
+/**
+ * Stops the plan reaches after their window has closed
+ */
+export function findLateStops(waypoints: PlannedWaypoint[]) {
+  return waypoints.flatMap((waypoint, index) =>
+    waypoint.latenessSeconds
+      ? [
+          {
+            index,
+            address: waypoint.address,
+            timeWindow: waypoint.timeWindow,
+            estimatedArrival: waypoint.estimatedArrival,
+            latenessSeconds: waypoint.latenessSeconds,
+          },
+        ]
+      : [],
+  );
+}
@@ -0,0 +1,67 @@
+import { RouteStop } from './routing-provider.interface';
+import {
+  countPrecedenceViolations,
+  findShipmentIssues,
+  findShipmentPairs,
+  repairPrecedence,
+} from './shipment.utils';
+
+const stop = (address: string, extra: Partial<RouteStop> = {}): RouteStop => ({
+  latitude: 0,
+  longitude: 0,
+  address,
+  ...extra,
+});
+
+describe('shipment utils', () => {
+  it('reports malformed pickup and delivery pairs', () => {
+    const issues = findShipmentIssues(
+      [
+        stop('Depot'),
+        stop('Orphan', { shipmentId: 'S1', stopType: 'pickup' }),
+        stop('Unmarked', { shipmentId: 'S2' }),
+        stop('Pickup', {
+          shipmentId: 'S3',
+          stopType: 'pickup',
+          demand: { weight: 10 },
+        }),
+        stop('Delivery', {
+          shipmentId: 'S3',
+          stopType: 'delivery',
+          demand: { weight: 12 },
+        }),
+      ],
+      { fixedEnd: false },
+    );
+
+    expect(issues).toEqual([
+      {
+        index: 2,
+        message: 'Stop in shipment S2 needs a stopType of pickup or delivery',
+      },
+      {
+        index: 1,
+        message: 'Shipment S1 needs exactly one pickup and one delivery',
+      },
+      {
+        index: 4,
+        message: 'Shipment S3 delivers a different demand than it picks up',
+      },
+    ]);
+  });
+
+  it('moves deliveries behind their pickups', () => {
+    const stops = [
+      stop('Depot'),
+      stop('Delivery', { shipmentId: 'S1', stopType: 'delivery' }),
+      stop('A'),
+      stop('Pickup', { shipmentId: 'S1', stopType: 'pickup' }),
+      stop('B'),
+    ];
+    const pairs = findShipmentPairs(stops);
+
+    expect(countPrecedenceViolations([0, 1, 2, 3, 4], pairs)).toBe(1);
+    expect(repairPrecedence([0, 1, 2, 3, 4], pairs)).toEqual([0, 2, 3, 1, 4]);
+    expect(repairPrecedence([0, 3, 2, 1, 4], pairs)).toEqual([0, 3, 2, 1, 4]);
+  });
+});
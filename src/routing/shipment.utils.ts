@@ -0,0 +1,171 @@
+import { Load, RouteStop } from './routing-provider.interface';
+
+// The parts of a stop or planned waypoint that describe what it handles
+export type ShipmentStop = Pick<
+  RouteStop,
+  'demand' | 'shipmentId' | 'stopType'
+>;
+
+export type ShipmentPair = {
+  shipmentId: string;
+  pickup: number; // stop index
+  delivery: number; // stop index
+};
+
+export type ShipmentIssue = {
+  index: number; // stop index the issue is reported against
+  message: string;
+};
+
+/**
+ * Pickup/delivery pairs by stop index. Assumes the stops passed validation.
+ */
+export function findShipmentPairs(stops: ShipmentStop[]): ShipmentPair[] {
+  const pickups = new Map<string, number>();
+  const deliveries = new Map<string, number>();
+  stops.forEach((stop, index) => {
+    if (stop.shipmentId && stop.stopType === 'pickup') {
+      pickups.set(stop.shipmentId, index);
+    } else if (stop.shipmentId && stop.stopType === 'delivery') {
+      deliveries.set(stop.shipmentId, index);
+    }
+  });
+
+  return Array.from(pickups, ([shipmentId, pickup]) => ({
+    shipmentId,
+    pickup,
+    delivery: deliveries.get(shipmentId)!,
+  })).filter((pair) => pair.delivery !== undefined);
+}
+
+/**
+ * What each shipment carries: the pickup's demand, or the delivery's if only
+ * the delivery states it
+ */
+export function shipmentDemands(stops: ShipmentStop[]) {
+  const demands = new Map<string, Load>();
+  for (const stop of stops) {
+    if (!stop.shipmentId || !stop.stopType || !stop.demand) {
+      continue;
+    }
+    if (stop.stopType === 'pickup' || !demands.has(stop.shipmentId)) {
+      demands.set(stop.shipmentId, stop.demand);
+    }
+  }
+  return demands;
+}
+
+/**
+ * Problems with the pickup/delivery markings of a stop list. The first stop
+ * is the origin when hasOrigin is set, and the last stays last with fixedEnd.
+ */
+export function findShipmentIssues(
+  stops: ShipmentStop[],
+  { hasOrigin = true, fixedEnd = false } = {},
+): ShipmentIssue[] {
+  const issues: ShipmentIssue[] = [];
+  const shipments = new Map<string, number[]>();
+
+  stops.forEach((stop, index) => {
+    if (stop.stopType && !stop.shipmentId) {
+      issues.push({
+        index,
+        message: `${stop.stopType} stop needs a shipmentId`,
+      });
+    } else if (stop.shipmentId && !stop.stopType) {
+      issues.push({
+        index,
+        message: `Stop in shipment ${stop.shipmentId} needs a stopType of pickup or delivery`,
+      });
+    } else if (stop.shipmentId) {
+      shipments.set(stop.shipmentId, [
+        ...(shipments.get(stop.shipmentId) ?? []),
+        index,
+      ]);
+    }
+  });
+
+  for (const [shipmentId, indexes] of shipments) {
+    const pickups = indexes.filter(
+      (index) => stops[index].stopType === 'pickup',
+    );
+    const deliveries = indexes.filter(
+      (index) => stops[index].stopType === 'delivery',
+    );
+    if (pickups.length !== 1 || deliveries.length !== 1) {
+      issues.push({
+        index: indexes[0],
+        message: `Shipment ${shipmentId} needs exactly one pickup and one delivery`,
+      });
+      continue;
+    }
+
+    const [pickup, delivery] = [pickups[0], deliveries[0]];
+    const pickupDemand = stops[pickup].demand;
+    const deliveryDemand = stops[delivery].demand;
+    if (
+      pickupDemand &&
+      deliveryDemand &&
+      JSON.stringify(pickupDemand) !== JSON.stringify(deliveryDemand)
+    ) {
+      issues.push({
+        index: delivery,
+        message: `Shipment ${shipmentId} delivers a different demand than it picks up`,
+      });
+    }
+    if (hasOrigin && delivery === 0) {
+      issues.push({
+        index: delivery,
+        message: `Shipment ${shipmentId} can't be delivered at the origin`,
+      });
+    }
+    if (fixedEnd && pickup === stops.length - 1) {
+      issues.push({
+        index: pickup,
+        message: `Shipment ${shipmentId} can't be picked up at the fixed final stop`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function countPrecedenceViolations(
+  order: number[],
+  pairs: ShipmentPair[],
+) {
+  const position = new Map(order.map((stop, index) => [stop, index]));
+  return pairs.filter(
+    (pair) => position.get(pair.pickup)! > position.get(pair.delivery)!,
+  ).length;
+}
+
+/**
+ * Move every delivery that comes before its pickup to just after the pickup
+ */
+export function repairPrecedence(order: number[], pairs: ShipmentPair[]) {
+  const deliveryOf = new Map(pairs.map((pair) => [pair.pickup, pair.delivery]));
+  const pickupOf = new Map(pairs.map((pair) => [pair.delivery, pair.pickup]));
+  const visited = new Set<number>();
+  const repaired: number[] = [];
+
+  for (const stop of order) {
+    const pickup = pickupOf.get(stop);
+    if (pickup !== undefined && !visited.has(pickup)) {
+      continue; // Placed when its pickup comes up
+    }
+    repaired.push(stop);
+    visited.add(stop);
+
+    const delivery = deliveryOf.get(stop);
+    if (delivery !== undefined && !repaired.includes(delivery)) {
+      const deferred = order.indexOf(delivery) < order.indexOf(stop);
+      if (deferred) {
+        repaired.push(delivery);
+        visited.add(delivery);
+      }
+    }
+  }
+
+  return repaired;
+}
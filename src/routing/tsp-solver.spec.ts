@@ -0,0 +1,92 @@
+import { pathCost, solveStopOrder } from './tsp-solver';
+
+// Euclidean costs between points in the plane
+const matrixOf = (points: Array<[number, number]>) =>
+  points.map(([x1, y1]) =>
+    points.map(([x2, y2]) => Math.hypot(x2 - x1, y2 - y1)),
+  );
+
+// Points around a circle, listed so that every leg crosses the middle
+const zigzagCircle = (size: number) => {
+  const points = Array.from({ length: size }, (_, index): [number, number] => {
+    const angle = (2 * Math.PI * index) / size;
+    return [Math.cos(angle) * 1000, Math.sin(angle) * 1000];
+  });
+  const order = Array.from({ length: size }, (_, index) =>
+    index % 2 === 0 ? index / 2 : size - (index + 1) / 2,
+  );
+  return order.map((index) => points[index]);
+};
+
+describe('solveStopOrder', () => {
+  it('untangles crossing routes', () => {
+    const costs = matrixOf(zigzagCircle(20));
+
+    const solution = solveStopOrder(costs);
+
+    // Walking around the circle from the start is optimal for an open path
+    const optimal = 2 * 1000 * Math.sin(Math.PI / 20) * 19;
+    expect(solution.cost).toBeCloseTo(optimal, 3);
+    expect(solution.cost).toBeLessThan(solution.inputCost);
+    expect(solution.order[0]).toBe(0);
+    expect([...solution.order].sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 20 }, (_, index) => index),
+    );
+  });
+
+  it('keeps a fixed end stop last', () => {
+    const costs = matrixOf([
+      [0, 0],
+      [5, 0],
+      [1, 0],
+      [4, 0],
+      [2, 0],
+      [3, 0],
+      [10, 10],
+    ]);
+
+    const solution = solveStopOrder(costs, { fixedEnd: true });
+
+    expect(solution.order).toEqual([0, 2, 4, 5, 3, 1, 6]);
+    expect(solution.cost).toBeCloseTo(pathCost(costs, solution.order));
+  });
+
+  it('is deterministic for a seed', () => {
+    const costs = matrixOf(zigzagCircle(25));
+
+    const first = solveStopOrder(costs, { seed: 42 });
+    const second = solveStopOrder(costs, { seed: 42 });
+
+    expect(second.order).toEqual(first.order);
+  });
+
+  it('never does worse than the requested order', () => {
+    const costs = matrixOf([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+      [3, 0],
+    ]);
+
+    const solution = solveStopOrder(costs);
+
+    expect(solution.order).toEqual([0, 1, 2, 3]);
+    expect(solution.cost).toBe(solution.inputCost);
+  });
+
+  it('trades path cost for a lower penalty', () => {
+    const costs = matrixOf([
+      [0, 0],
+      [1, 0],
+      [2, 0],
+      [3, 0],
+    ]);
+    // Stop 3 must come straight after the start
+    const penalty = (order: number[]) => (order[1] === 3 ? 0 : 1000);
+
+    const solution = solveStopOrder(costs, { penalty });
+
+    expect(solution.order[1]).toBe(3);
+    expect(solution.penalty).toBe(0);
+  });
+});
@@ -0,0 +1,322 @@
+// Improvements smaller than this are float noise, not progress
+const EPSILON = 1e-9;
+
+export interface StopOrderOptions {
+  // Keep the last stop as the final destination instead of reordering it
+  fixedEnd?: boolean;
+  // Wall-clock limit for the improvement phase
+  timeBudgetMs?: number;
+  // Seed for the perturbations, so equal inputs give equal orders
+  seed?: number;
+  // Perturbation rounds after the first local optimum
+  maxRounds?: number;
+  // Extra, non-additive cost of a whole order (e.g. missed time windows)
+  penalty?: (order: number[]) => number;
+}
+
+export interface StopOrderSolution {
+  // Indexes into the cost matrix, starting with 0
+  order: number[];
+  inputCost: number;
+  cost: number;
+  // Penalty of the chosen order; 0 without a penalty function
+  penalty: number;
+  // Improving moves applied across all rounds
+  iterations: number;
+  elapsedMs: number;
+}
+
+export const DEFAULT_STOP_ORDER_OPTIONS: Required<
+  Omit<StopOrderOptions, 'penalty'>
+> = {
+  fixedEnd: false,
+  timeBudgetMs: 200,
+  seed: 1,
+  maxRounds: 100,
+};
+
+/**
+ * Orders stops to minimise the total cost of an open path that starts at
+ * stop 0 (and, with fixedEnd, finishes at the last stop). Builds a nearest
+ * neighbour tour, improves it with 2-opt and Or-opt moves, then keeps
+ * perturbing and re-improving the best order until the time budget or the
+ * round limit runs out. The result is never worse than the input order, and
+ * is deterministic for a given seed unless the time budget cuts it short.
+ */
+export function solveStopOrder(
+  costs: number[][],
+  options: StopOrderOptions = {},
+): StopOrderSolution {
+  const { fixedEnd, timeBudgetMs, seed, maxRounds } = {
+    ...DEFAULT_STOP_ORDER_OPTIONS,
+    ...options,
+  };
+  const penalty = options.penalty ?? (() => 0);
+  const startedAt = Date.now();
+  const deadline = startedAt + timeBudgetMs;
+  const n = costs.length;
+  const inputOrder = Array.from({ length: n }, (_, index) => index);
+  const inputCost = pathCost(costs, inputOrder);
+
+  // Positions [first, last] may move; the start and a fixed end stay put
+  const first = 1;
+  const last = fixedEnd ? n - 2 : n - 1;
+  if (last - first < 1) {
+    return {
+      order: inputOrder,
+      inputCost,
+      cost: inputCost,
+      penalty: penalty(inputOrder),
+      iterations: 0,
+      elapsedMs: Date.now() - startedAt,
+    };
+  }
+
+  const search: SearchState = {
+    costs,
+    penalty: options.penalty,
+    first,
+    last,
+    deadline,
+    iterations: 0,
+  };
+  const objective = (order: number[]) =>
+    pathCost(costs, order) + penalty(order);
+
+  let best = improve(search, nearestNeighbour(costs, fixedEnd));
+  let bestObjective = objective(best);
+
+  // The nearest neighbour start can be worse than the order we were given
+  const fromInput = improve(search, [...inputOrder]);
+  const fromInputObjective = objective(fromInput);
+  if (fromInputObjective < bestObjective - EPSILON) {
+    best = fromInput;
+    bestObjective = fromInputObjective;
+  }
+
+  const random = mulberry32(seed);
+  for (let round = 0; round < maxRounds && Date.now() < deadline; round++) {
+    const candidate = improve(search, perturb(best, first, last, random));
+    const candidateObjective = objective(candidate);
+    if (candidateObjective < bestObjective - EPSILON) {
+      best = candidate;
+      bestObjective = candidateObjective;
+    }
+  }
+
+  return {
+    order: best,
+    inputCost,
+    cost: pathCost(costs, best),
+    penalty: penalty(best),
+    iterations: search.iterations,
+    elapsedMs: Date.now() - startedAt,
+  };
+}
+
+export function pathCost(costs: number[][], order: number[]) {
+  let total = 0;
+  for (let i = 0; i < order.length - 1; i++) {
+    total += costs[order[i]][order[i + 1]];
+  }
+  return total;
+}
+
+interface SearchState {
+  costs: number[][];
+  penalty?: (order: number[]) => number;
+  first: number;
+  last: number;
+  deadline: number;
+  iterations: number;
+}
+
+function nearestNeighbour(costs: number[][], fixedEnd: boolean) {
+  const n = costs.length;
+  const remaining = new Set(
+    Array.from({ length: fixedEnd ? n - 2 : n - 1 }, (_, index) => index + 1),
+  );
+  const order = [0];
+
+  while (remaining.size > 0) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    for (const candidate of remaining) {
+      if (
+        nearest === -1 ||
+        costs[current][candidate] < costs[current][nearest]
+      ) {
+        nearest = candidate;
+      }
+    }
+    remaining.delete(nearest);
+    order.push(nearest);
+  }
+
+  if (fixedEnd) {
+    order.push(n - 1);
+  }
+  return order;
+}
+
+/**
+ * Whether a move that changes the path cost by pathDelta improves the order.
+ * With a penalty the candidate order is built and scored as a whole.
+ */
+function isImprovement(
+  search: SearchState,
+  order: number[],
+  pathDelta: number,
+  buildCandidate: () => number[],
+) {
+  if (!search.penalty) {
+    return pathDelta < -EPSILON;
+  }
+  const penaltyDelta = search.penalty(buildCandidate()) - search.penalty(order);
+  return pathDelta + penaltyDelta < -EPSILON;
+}
+
+/**
+ * Apply improving 2-opt and Or-opt moves until neither finds one
+ */
+function improve(search: SearchState, order: number[]) {
+  let improved = true;
+  while (improved && Date.now() < search.deadline) {
+    improved = twoOpt(search, order) || orOpt(search, order);
+  }
+  return order;
+}
+
+/**
+ * Reverse the first segment whose reversal shortens the path. Prefix sums of
+ * forward and backward leg costs keep this exact for asymmetric matrices.
+ */
+function twoOpt(search: SearchState, order: number[]) {
+  const { costs, first, last } = search;
+  const forward = [0];
+  const backward = [0];
+  for (let i = 0; i < order.length - 1; i++) {
+    forward.push(forward[i] + costs[order[i]][order[i + 1]]);
+    backward.push(backward[i] + costs[order[i + 1]][order[i]]);
+  }
+
+  for (let i = first; i < last; i++) {
+    for (let k = i + 1; k <= last; k++) {
+      const before = order[i - 1];
+      const after = order[k + 1];
+      const current =
+        costs[before][order[i]] +
+        (forward[k] - forward[i]) +
+        (after === undefined ? 0 : costs[order[k]][after]);
+      const reversed =
+        costs[before][order[k]] +
+        (backward[k] - backward[i]) +
+        (after === undefined ? 0 : costs[order[i]][after]);
+
+      const reverse = () => [
+        ...order.slice(0, i),
+        ...order.slice(i, k + 1).reverse(),
+        ...order.slice(k + 1),
+      ];
+      if (isImprovement(search, order, reversed - current, reverse)) {
+        order.splice(0, order.length, ...reverse());
+        search.iterations++;
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Move a run of one to three stops to a cheaper position in the path
+ */
+function orOpt(search: SearchState, order: number[]) {
+  const { costs, first, last } = search;
+  const cost = (from: number | undefined, to: number | undefined) =>
+    from === undefined || to === undefined ? 0 : costs[from][to];
+
+  for (let length = 1; length <= 3; length++) {
+    for (let i = first; i + length - 1 <= last; i++) {
+      const head = order[i];
+      const tail = order[i + length - 1];
+      const before = order[i - 1];
+      const after = order[i + length];
+      const removalGain =
+        cost(before, head) + cost(tail, after) - cost(before, after);
+
+      const rest = [...order.slice(0, i), ...order.slice(i + length)];
+      // Insert after rest[j]; a fixed end must stay the final stop
+      const lastInsertion =
+        last === order.length - 1 ? rest.length - 1 : rest.length - 2;
+      for (let j = first - 1; j <= lastInsertion; j++) {
+        if (j === i - 1) {
+          continue;
+        }
+        const insertionCost =
+          cost(rest[j], head) +
+          cost(tail, rest[j + 1]) -
+          cost(rest[j], rest[j + 1]);
+
+        const move = () => [
+          ...rest.slice(0, j + 1),
+          ...order.slice(i, i + length),
+          ...rest.slice(j + 1),
+        ];
+        if (isImprovement(search, order, insertionCost - removalGain, move)) {
+          order.splice(0, order.length, ...move());
+          search.iterations++;
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Double-bridge kick on the movable part of the path, which 2-opt and Or-opt
+ * can't undo in one move; short paths get a random reversal instead
+ */
+function perturb(
+  order: number[],
+  first: number,
+  last: number,
+  random: () => number,
+) {
+  const size = last - first + 1;
+  const pick = (from: number, to: number) =>
+    from + Math.floor(random() * (to - from + 1));
+
+  if (size < 8) {
+    const i = pick(first, last - 1);
+    const k = pick(i + 1, last);
+    return [
+      ...order.slice(0, i),
+      ...order.slice(i, k + 1).reverse(),
+      ...order.slice(k + 1),
+    ];
+  }
+
+  const a = pick(first + 1, last - 2);
+  const b = pick(a + 1, last - 1);
+  const c = pick(b + 1, last);
+  return [
+    ...order.slice(0, a),
+    ...order.slice(b, c),
+    ...order.slice(a, b),
+    ...order.slice(c),
+  ];
+}
+
+// Small seeded PRNG; Math.random can't be seeded
+function mulberry32(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, VehicleCapacityProfile } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateCapacityProfileDto,
+  UpdateCapacityProfileDto,
+} from '../dto/capacity-profile.dto';
+import { Load, RouteStop } from '../routing/routing-provider.interface';
+import { findCapacityExcess, unavoidableLoads } from '../routing/load.utils';
+
+@Injectable()
+export class CapacityProfileService {
+  private readonly logger = new Logger(CapacityProfileService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async createProfile(dto: CreateCapacityProfileDto, userId?: string) {
+    try {
+      const profile = await this.prisma.vehicleCapacityProfile.create({
+        data: { ...dto, createdBy: userId },
+      });
+      this.logger.log(
+        `Capacity profile ${profile.id} (${profile.name}) created`,
+      );
+      return profile;
+    } catch (error) {
+      throw this.translateUniqueViolation(error, dto.name);
+    }
+  }
+
+  async listProfiles() {
+    const profiles = await this.prisma.vehicleCapacityProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return { profiles, totalProfiles: profiles.length };
+  }
+
+  async getProfile(id: string) {
+    const profile = await this.prisma.vehicleCapacityProfile.findUnique({
+      where: { id },
+    });
+
+    if (!profile) {
+      throw new NotFoundException(`Capacity profile ${id} not found`);
+    }
+
+    return profile;
+  }
+
+  async updateProfile(id: string, dto: UpdateCapacityProfileDto) {
+    await this.getProfile(id);
+
+    try {
+      return await this.prisma.vehicleCapacityProfile.update({
+        where: { id },
+        data: dto,
+      });
+    } catch (error) {
+      throw this.translateUniqueViolation(error, dto.name);
+    }
+  }
+
+  async deleteProfile(id: string) {
+    await this.getProfile(id);
+    await this.prisma.vehicleCapacityProfile.delete({ where: { id } });
+
+    this.logger.log(`Capacity profile ${id} deleted`);
+    return { id, deleted: true };
+  }
+
+  /**
+   * The capacity a request plans against: a stored profile, the inline
+   * capacity, or undefined when the vehicle is unconstrained
+   */
+  async resolveCapacity(vehicle: {
+    capacityProfileId?: string;
+    capacity?: Load;
+  }): Promise<Load | undefined> {
+    if (vehicle.capacityProfileId) {
+      return this.toCapacity(await this.getProfile(vehicle.capacityProfileId));
+    }
+    return vehicle.capacity;
+  }
+
+  /**
+   * Reject a single-vehicle plan that overloads the vehicle in any stop order:
+   * too much to load at the start, or a shipment bigger than the vehicle
+   */
+  assertWithinCapacity(stops: RouteStop[], capacity?: Load) {
+    if (!capacity) {
+      return;
+    }
+
+    const excess = unavoidableLoads(stops)
+      .map((load) => findCapacityExcess(load, capacity))
+      .find((found) => found.length > 0);
+    if (excess) {
+      throw new BadRequestException({
+        message: 'Stop demand exceeds vehicle capacity',
+        excess,
+      });
+    }
+  }
+
+  private toCapacity(profile: VehicleCapacityProfile): Load {
+    const capacity: Load = {};
+    if (profile.maxWeight !== null) capacity.weight = profile.maxWeight;
+    if (profile.maxVolume !== null) capacity.volume = profile.maxVolume;
+    if (profile.maxPallets !== null) capacity.pallets = profile.maxPallets;
+    return capacity;
+  }
+
+  private translateUniqueViolation(error: unknown, name?: string) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return new ConflictException(`Capacity profile ${name} already exists`);
+    }
+    return error;
+  }
+}
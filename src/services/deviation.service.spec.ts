@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { VehiclePosition } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { OutboxService } from './outbox.service';
+import { RouteOptimizationService } from './route-optimization.service';
+import { DeviationService } from './deviation.service';
+
+const route = {
+  id: 'route-1',
+  requestId: 'request-1',
+  vehicleId: 'truck-7',
+  polyline: null,
+  request: { userId: 'user-1' },
+  waypoints: [
+    { latitude: 0, longitude: 0, address: 'Depot' },
+    { latitude: 0, longitude: 1, address: 'A' },
+    { latitude: 0, longitude: 2, address: 'B' },
+  ],
+};
+
+// About 1.1 km north of the route at 0.01 degrees
+const position = (latitude: number, offRouteFixes: number) =>
+  ({
+    vehicleId: 'truck-7',
+    routeId: 'route-1',
+    latitude,
+    longitude: 0.5,
+    accuracy: null,
+    recordedAt: new Date('2026-10-18T09:30:00.000Z'),
+    offRouteFixes,
+  }) as VehiclePosition;
+
+describe('DeviationService', () => {
+  let updatePosition: jest.Mock;
+  let createRouteUpdate: jest.Mock;
+  let enqueue: jest.Mock;
+  let updateRoute: jest.Mock;
+  let broadcastRouteDeviation: jest.Mock;
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviationService,
+        {
+          provide: PrismaService,
+          useValue: {
+            optimizedRoute: { findUnique: jest.fn().mockResolvedValue(route) },
+            vehiclePosition: { update: updatePosition },
+            $transaction: (work: (tx: unknown) => Promise<unknown>) =>
+              work({ routeUpdate: { create: createRouteUpdate } }),
+          },
+        },
+        { provide: OutboxService, useValue: { enqueue } },
+        { provide: RouteOptimizationService, useValue: { updateRoute } },
+        {
+          provide: RouteOptimizationGateway,
+          useValue: { broadcastRouteDeviation },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    return module.get(DeviationService);
+  };
+
+  beforeEach(() => {
+    updatePosition = jest.fn();
+    createRouteUpdate = jest.fn();
+    enqueue = jest.fn();
+    updateRoute = jest.fn();
+    broadcastRouteDeviation = jest.fn();
+  });
+
+  it('counts consecutive off-route fixes and resets once back on route', async () => {
+    const service = await createService();
+
+    expect(await service.checkPosition(position(0.01, 0))).toBeNull();
+    expect(updatePosition).toHaveBeenLastCalledWith({
+      where: { vehicleId: 'truck-7' },
+      data: { offRouteFixes: 1 },
+    });
+
+    expect(await service.checkPosition(position(0.0005, 2))).toBeNull();
+    expect(updatePosition).toHaveBeenLastCalledWith({
+      where: { vehicleId: 'truck-7' },
+      data: { offRouteFixes: 0 },
+    });
+    expect(broadcastRouteDeviation).not.toHaveBeenCalled();
+  });
+
+  it('records a deviation and alerts fleet managers on the third fix', async () => {
+    const service = await createService();
+
+    const alert = await service.checkPosition(position(0.01, 2));
+
+    expect(alert).toMatchObject({
+      routeId: 'route-1',
+      consecutiveFixes: 3,
+      thresholdMeters: 200,
+      replanned: false,
+    });
+    expect(alert!.distanceMeters).toBeGreaterThan(1100);
+    expect(createRouteUpdate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        updateReason: 'DEVIATION',
+        newWaypoints: route.waypoints,
+      }),
+    });
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.anything(),
+      'route-update-events',
+      expect.objectContaining({ eventType: 'ROUTE_DEVIATION_DETECTED' }),
+      'truck-7',
+    );
+    expect(broadcastRouteDeviation).toHaveBeenCalledWith(
+      'route-1',
+      'request-1',
+      'user-1',
+      alert,
+    );
+    expect(updateRoute).not.toHaveBeenCalled();
+
+    // Still off route on the next fix, but the episode was already reported
+    expect(await service.checkPosition(position(0.01, 3))).toBeNull();
+  });
+
+  it('re-plans from the current location when enabled', async () => {
+    const service = await createService({ OFF_ROUTE_AUTO_REPLAN: 'true' });
+
+    const alert = await service.checkPosition(position(0.01, 2));
+
+    expect(updateRoute).toHaveBeenCalledWith(
+      'route-1',
+      {
+        currentLocation: { latitude: 0.01, longitude: 0.5 },
+        reason: 'DEVIATION',
+      },
+      'truck-7',
+    );
+    expect(alert!.replanned).toBe(true);
+    // The re-plan stores the DEVIATION update itself
+    expect(createRouteUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RouteUpdateReason, VehiclePosition } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { OutboxService, createDomainEvent } from './outbox.service';
+import {
+  RouteOptimizationService,
+  StoredWaypoint,
+} from './route-optimization.service';
+import { distanceToPath } from '../utils/geo.utils';
+import { decodePolyline } from '../utils/polyline.utils';
+import { isStopPending } from '../utils/stop-status.utils';
+
+const DEFAULT_OFF_ROUTE_DISTANCE_METERS = 200;
+const DEFAULT_OFF_ROUTE_CONSECUTIVE_FIXES = 3;
+
+/**
+ * Watches whether vehicles keep to their planned route. A vehicle further
+ * than OFF_ROUTE_DISTANCE_METERS from the route for OFF_ROUTE_CONSECUTIVE_FIXES
+ * fixes in a row raises one ROUTE_DEVIATION_DETECTED alert, recorded as a
+ * DEVIATION route update. With OFF_ROUTE_AUTO_REPLAN=true the remaining stops
+ * are also re-planned from where the vehicle is.
+ */
+@Injectable()
+export class DeviationService {
+  private readonly logger = new Logger(DeviationService.name);
+  private readonly maxDistanceMeters: number;
+  private readonly consecutiveFixes: number;
+  private readonly autoReplan: boolean;
+
+  constructor(
+    private prisma: PrismaService,
+    private outboxService: OutboxService,
+    private routeOptimizationService: RouteOptimizationService,
+    private routeOptimizationGateway: RouteOptimizationGateway,
+    private configService: ConfigService,
+  ) {
+    this.maxDistanceMeters = Number(
+      this.configService.get<string>('OFF_ROUTE_DISTANCE_METERS') ??
+        DEFAULT_OFF_ROUTE_DISTANCE_METERS,
+    );
+    this.consecutiveFixes = Number(
+      this.configService.get<string>('OFF_ROUTE_CONSECUTIVE_FIXES') ??
+        DEFAULT_OFF_ROUTE_CONSECUTIVE_FIXES,
+    );
+    this.autoReplan =
+      this.configService.get<string>('OFF_ROUTE_AUTO_REPLAN') === 'true';
+  }
+
+  /**
+   * Count the position towards an off-route episode and alert when the
+   * episode reaches the configured length. Returns the alert, if one was raised.
+   */
+  async checkPosition(position: VehiclePosition) {
+    if (!position.routeId) {
+      return null;
+    }
+    const route = await this.prisma.optimizedRoute.findUnique({
+      where: { id: position.routeId },
+      include: { request: true },
+    });
+    if (!route) {
+      return null;
+    }
+
+    // Once every stop is served the vehicle is free to leave the route
+    const waypoints = route.waypoints as StoredWaypoint[];
+    const stopsAhead = waypoints.some(
+      (waypoint, index) =>
+        index > 0 && waypoint.type !== 'BREAK' && isStopPending(waypoint),
+    );
+    if (!stopsAhead) {
+      return null;
+    }
+
+    // Without a road geometry the route is the straight legs between stops.
+    // A fix is only off route when even its accuracy circle misses the route.
+    const path = route.polyline ? decodePolyline(route.polyline) : waypoints;
+    const distanceMeters = distanceToPath(position, path);
+    const offRoute =
+      distanceMeters - (position.accuracy ?? 0) > this.maxDistanceMeters;
+
+    if (!offRoute) {
+      if (position.offRouteFixes > 0) {
+        await this.prisma.vehiclePosition.update({
+          where: { vehicleId: position.vehicleId },
+          data: { offRouteFixes: 0 },
+        });
+      }
+      return null;
+    }
+
+    const offRouteFixes = position.offRouteFixes + 1;
+    await this.prisma.vehiclePosition.update({
+      where: { vehicleId: position.vehicleId },
+      data: { offRouteFixes },
+    });
+    // One alert per episode; the count keeps growing until the vehicle is back
+    if (offRouteFixes !== this.consecutiveFixes) {
+      return null;
+    }
+
+    const currentLocation = {
+      latitude: position.latitude,
+      longitude: position.longitude,
+    };
+    const alert = {
+      routeId: route.id,
+      requestId: route.requestId,
+      vehicleId: route.vehicleId,
+      currentLocation,
+      recordedAt: position.recordedAt.toISOString(),
+      distanceMeters: Math.round(distanceMeters),
+      thresholdMeters: this.maxDistanceMeters,
+      consecutiveFixes: offRouteFixes,
+      replanned: false,
+    };
+
+    // The re-plan records the DEVIATION update itself; without one, or when
+    // it fails, the alert is recorded against the unchanged plan
+    if (this.autoReplan) {
+      try {
+        await this.routeOptimizationService.updateRoute(
+          route.id,
+          { currentLocation, reason: RouteUpdateReason.DEVIATION },
+          route.vehicleId,
+        );
+        alert.replanned = true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          `Failed to re-plan route ${route.id} after deviation: ${message}`,
+        );
+      }
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (!alert.replanned) {
+        await tx.routeUpdate.create({
+          data: {
+            routeId: route.id,
+            vehicleId: route.vehicleId,
+            updateReason: RouteUpdateReason.DEVIATION,
+            newWaypoints: waypoints,
+            currentLocation,
+          },
+        });
+      }
+      await this.outboxService.enqueue(
+        tx,
+        'route-update-events',
+        createDomainEvent('ROUTE_DEVIATION_DETECTED', alert),
+        route.vehicleId,
+      );
+    });
+
+    this.routeOptimizationGateway.broadcastRouteDeviation(
+      route.id,
+      route.requestId,
+      route.request.userId,
+      alert,
+    );
+    this.logger.warn(
+      `Vehicle ${route.vehicleId} is ${alert.distanceMeters}m off route ${route.id}`,
+    );
+
+    return alert;
+  }
+}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { RoutingService } from '../routing/routing.service';
+import { DistanceMatrixService } from './distance-matrix.service';
+
+const depot = { id: 'driver-1', latitude: 52.52, longitude: 13.405 };
+const jobA = { latitude: 52.5, longitude: 13.4 };
+const jobB = { latitude: 52.53, longitude: 13.38 };
+
+describe('DistanceMatrixService', () => {
+  let service: DistanceMatrixService;
+  let findMany: jest.Mock;
+  let createMany: jest.Mock;
+  let getMatrix: jest.Mock;
+
+  beforeEach(async () => {
+    findMany = jest.fn();
+    createMany = jest.fn();
+    getMatrix = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DistanceMatrixService,
+        {
+          provide: PrismaService,
+          useValue: {
+            travelMatrixEntry: { findMany, createMany, deleteMany: jest.fn() },
+            $transaction: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: RoutingService,
+          useValue: {
+            resolveProvider: () => ({ name: 'osrm', getMatrix }),
+          },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get(DistanceMatrixService);
+  });
+
+  it('only asks the provider for pairs the cache is missing', async () => {
+    findMany.mockResolvedValue([
+      {
+        originKey: '52.52000,13.40500',
+        destinationKey: '52.50000,13.40000',
+        distance: 2400,
+        duration: 420,
+      },
+    ]);
+    getMatrix.mockResolvedValue({ distances: [[1900]], durations: [[360]] });
+
+    const matrix = await service.getMatrix({
+      origins: [depot],
+      destinations: [jobA, jobB],
+      departureTime: '2026-10-18T08:30:00.000Z',
+    });
+
+    expect(getMatrix).toHaveBeenCalledWith(
+      [{ latitude: 52.52, longitude: 13.405 }],
+      [{ latitude: 52.53, longitude: 13.38 }],
+      { departureTime: '2026-10-18T08:30:00.000Z' },
+    );
+    expect(matrix).toMatchObject({
+      provider: 'osrm',
+      timeBucket: 8,
+      distances: [[2400, 1900]],
+      durations: [[420, 360]],
+      cache: { hits: 1, misses: 1 },
+    });
+    expect(createMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [
+          expect.objectContaining({
+            provider: 'osrm',
+            timeBucket: 8,
+            originKey: '52.52000,13.40500',
+            destinationKey: '52.53000,13.38000',
+            distance: 1900,
+            duration: 360,
+          }),
+        ],
+      }),
+    );
+  });
+
+  it('names the origin that reaches each destination soonest', async () => {
+    findMany.mockResolvedValue([]);
+    getMatrix.mockResolvedValue({
+      distances: [
+        [900, null],
+        [400, 700],
+      ],
+      durations: [
+        [200, null],
+        [300, 150],
+      ],
+    });
+
+    const matrix = await service.getMatrix({ origins: [jobA, jobB] });
+
+    expect(matrix.nearestOrigins).toEqual([
+      { destinationIndex: 0, originIndex: 0, duration: 200, distance: 900 },
+      { destinationIndex: 1, originIndex: 1, duration: 150, distance: 700 },
+    ]);
+  });
+});
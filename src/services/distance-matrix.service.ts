@@ -0,0 +1,260 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { RoutingService } from '../routing/routing.service';
+import {
+  RoutingProvider,
+  TravelMatrix,
+} from '../routing/routing-provider.interface';
+import { Coordinates } from '../utils/geo.utils';
+import { DistanceMatrixDto, MatrixPointDto } from '../dto/distance-matrix.dto';
+
+const DEFAULT_CACHE_TTL_SECONDS = 6 * 3600;
+const DEFAULT_BUCKET_MINUTES = 60;
+
+type CachedTravel = {
+  distance: number | null;
+  duration: number | null;
+};
+
+/**
+ * Travel distances and times between sets of points from the configured
+ * routing provider. Pairs are cached per provider and time-of-day bucket,
+ * so only points the cache doesn't cover go to the provider.
+ */
+@Injectable()
+export class DistanceMatrixService {
+  private readonly logger = new Logger(DistanceMatrixService.name);
+  private readonly cacheTtlSeconds: number;
+  private readonly bucketMinutes: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private routingService: RoutingService,
+    private configService: ConfigService,
+  ) {
+    this.cacheTtlSeconds = Number(
+      this.configService.get<string>('DISTANCE_MATRIX_CACHE_TTL_SECONDS') ??
+        DEFAULT_CACHE_TTL_SECONDS,
+    );
+    this.bucketMinutes = Number(
+      this.configService.get<string>('DISTANCE_MATRIX_BUCKET_MINUTES') ??
+        DEFAULT_BUCKET_MINUTES,
+    );
+  }
+
+  async getMatrix(dto: DistanceMatrixDto) {
+    const provider = this.routingService.resolveProvider(dto.routingProvider);
+    const origins = dto.origins;
+    const destinations = dto.destinations ?? dto.origins;
+    const timeBucket = this.timeBucketOf(
+      dto.departureTime ? new Date(dto.departureTime) : new Date(),
+    );
+
+    const travel = await this.lookUp(
+      provider,
+      origins,
+      destinations,
+      timeBucket,
+      dto.departureTime,
+    );
+    const pick = (field: keyof CachedTravel) =>
+      origins.map((origin) =>
+        destinations.map(
+          (destination) =>
+            travel.pairs.get(pairKey(origin, destination))![field],
+        ),
+      );
+    const matrix: TravelMatrix = {
+      distances: pick('distance'),
+      durations: pick('duration'),
+    };
+
+    return {
+      provider: provider.name,
+      timeBucket,
+      origins,
+      destinations,
+      ...matrix,
+      nearestOrigins: this.findNearestOrigins(destinations, matrix),
+      cache: { hits: travel.hits, misses: travel.misses },
+    };
+  }
+
+  /**
+   * Travel for every origin/destination pair, from the cache where it has a
+   * fresh entry and from the provider for the rest
+   */
+  private async lookUp(
+    provider: RoutingProvider,
+    origins: MatrixPointDto[],
+    destinations: MatrixPointDto[],
+    timeBucket: number,
+    departureTime?: string,
+  ) {
+    const originPoints = uniqueByKey(origins);
+    const destinationPoints = uniqueByKey(destinations);
+    const pairs = new Map<string, CachedTravel>();
+
+    // Straight-line estimates are cheaper to recompute than to look up
+    const cacheable = provider.name !== 'haversine';
+    if (cacheable) {
+      const entries = await this.prisma.travelMatrixEntry.findMany({
+        where: {
+          provider: provider.name,
+          timeBucket,
+          originKey: { in: Array.from(originPoints.keys()) },
+          destinationKey: { in: Array.from(destinationPoints.keys()) },
+          expiresAt: { gt: new Date() },
+        },
+      });
+      for (const entry of entries) {
+        pairs.set(`${entry.originKey}|${entry.destinationKey}`, entry);
+      }
+    }
+    const hits = pairs.size;
+
+    // Ask the provider for every origin and destination with a gap
+    const missingOrigins = new Map<string, Coordinates>();
+    const missingDestinations = new Map<string, Coordinates>();
+    for (const [originKey, origin] of originPoints) {
+      for (const [destinationKey, destination] of destinationPoints) {
+        if (!pairs.has(`${originKey}|${destinationKey}`)) {
+          missingOrigins.set(originKey, origin);
+          missingDestinations.set(destinationKey, destination);
+        }
+      }
+    }
+    if (missingOrigins.size === 0) {
+      return { pairs, hits, misses: 0 };
+    }
+
+    const originKeys = Array.from(missingOrigins.keys());
+    const destinationKeys = Array.from(missingDestinations.keys());
+    const matrix = await provider.getMatrix(
+      Array.from(missingOrigins.values()),
+      Array.from(missingDestinations.values()),
+      { departureTime },
+    );
+    const fetched = originKeys.flatMap((originKey, row) =>
+      destinationKeys.map((destinationKey, column) => ({
+        originKey,
+        destinationKey,
+        distance: matrix.distances[row][column],
+        duration: matrix.durations[row][column],
+      })),
+    );
+    for (const entry of fetched) {
+      pairs.set(`${entry.originKey}|${entry.destinationKey}`, entry);
+    }
+
+    if (cacheable) {
+      await this.store(provider.name, timeBucket, fetched);
+    }
+    this.logger.log(
+      `Travel matrix from ${provider.name}: ${hits} cached pairs, ${fetched.length} fetched`,
+    );
+    return {
+      pairs,
+      hits,
+      misses: originPoints.size * destinationPoints.size - hits,
+    };
+  }
+
+  private async store(
+    provider: string,
+    timeBucket: number,
+    entries: Array<
+      CachedTravel & { originKey: string; destinationKey: string }
+    >,
+  ) {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.cacheTtlSeconds * 1000);
+    try {
+      await this.prisma.$transaction([
+        // Replace stale copies of these pairs and clear out anything expired
+        this.prisma.travelMatrixEntry.deleteMany({
+          where: {
+            OR: [
+              { expiresAt: { lte: now } },
+              {
+                provider,
+                timeBucket,
+                originKey: { in: entries.map((entry) => entry.originKey) },
+                destinationKey: {
+                  in: entries.map((entry) => entry.destinationKey),
+                },
+              },
+            ],
+          },
+        }),
+        this.prisma.travelMatrixEntry.createMany({
+          data: entries.map((entry) => ({
+            ...entry,
+            provider,
+            timeBucket,
+            expiresAt,
+          })),
+          skipDuplicates: true,
+        }),
+      ]);
+    } catch (error) {
+      // The matrix is already built; a cache write failure only costs a later lookup
+      this.logger.warn(
+        `Failed to cache travel matrix: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * For each destination, the origin that reaches it soonest, e.g. the
+   * closest driver to a new job
+   */
+  private findNearestOrigins(
+    destinations: MatrixPointDto[],
+    { distances, durations }: TravelMatrix,
+  ) {
+    return destinations.map((_, column) => {
+      let nearest: number | null = null;
+      for (let row = 0; row < durations.length; row++) {
+        const duration = durations[row][column];
+        if (
+          duration !== null &&
+          (nearest === null || duration < durations[nearest][column]!)
+        ) {
+          nearest = row;
+        }
+      }
+      return {
+        destinationIndex: column,
+        originIndex: nearest,
+        duration: nearest === null ? null : durations[nearest][column],
+        distance: nearest === null ? null : distances[nearest][column],
+      };
+    });
+  }
+
+  // Slot of the (UTC) day the trip starts in; travel times follow daily traffic patterns
+  private timeBucketOf(departure: Date) {
+    const minutes = departure.getUTCHours() * 60 + departure.getUTCMinutes();
+    return Math.floor(minutes / this.bucketMinutes);
+  }
+}
+
+// Coordinates rounded to about a meter, so nearby repeats share an entry
+function coordinateKey(point: Coordinates) {
+  return `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+}
+
+function pairKey(origin: Coordinates, destination: Coordinates) {
+  return `${coordinateKey(origin)}|${coordinateKey(destination)}`;
+}
+
+function uniqueByKey(points: Coordinates[]) {
+  return new Map(
+    points.map((point): [string, Coordinates] => [
+      coordinateKey(point),
+      { latitude: point.latitude, longitude: point.longitude },
+    ]),
+  );
+}
@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { HaversineRoutingProvider } from '../routing/haversine-routing.provider';
+import { RoutingService } from '../routing/routing.service';
+import { TrafficConditionService } from './traffic-condition.service';
+import { EtaService } from './eta.service';
+
+const start = Date.parse('2026-10-18T09:00:00.000Z');
+const at = (minutes: number) =>
+  new Date(start + minutes * 60 * 1000).toISOString();
+
+// Planned at the straight-line pace unless a test slows the plan down
+const plannedRoute = (arrivalAtC = 70) => ({
+  id: 'route-1',
+  requestId: 'request-1',
+  vehicleId: 'truck-7',
+  request: { preferences: { optimizeFor: 'time' } },
+  waypoints: [
+    {
+      latitude: 0,
+      longitude: 0,
+      address: 'Depot',
+      stopId: 'stop-depot',
+      estimatedArrival: at(0),
+    },
+    {
+      latitude: 0,
+      longitude: 1,
+      address: 'A',
+      stopId: 'stop-a',
+      estimatedArrival: at(20),
+      visitedAt: at(21),
+    },
+    {
+      latitude: 0,
+      longitude: 2,
+      address: 'B',
+      stopId: 'stop-b',
+      estimatedArrival: at(45),
+    },
+    {
+      latitude: 0,
+      longitude: 3,
+      address: 'C',
+      stopId: 'stop-c',
+      estimatedArrival: at(arrivalAtC),
+    },
+  ],
+});
+
+describe('EtaService', () => {
+  let service: EtaService;
+  let findMany: jest.Mock;
+  let createMany: jest.Mock;
+  let findPosition: jest.Mock;
+  let broadcastEtaUpdated: jest.Mock;
+
+  beforeEach(async () => {
+    findMany = jest.fn().mockResolvedValue([]);
+    createMany = jest.fn();
+    broadcastEtaUpdated = jest.fn();
+    findPosition = jest.fn().mockResolvedValue({
+      vehicleId: 'truck-7',
+      latitude: 0,
+      longitude: 1.5,
+      recordedAt: new Date(at(40)),
+      route: plannedRoute(),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EtaService,
+        {
+          provide: PrismaService,
+          useValue: {
+            vehiclePosition: { findUnique: findPosition },
+            etaPrediction: { findMany, createMany },
+          },
+        },
+        {
+          provide: TrafficConditionService,
+          useValue: { findActiveIncidents: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: HaversineRoutingProvider,
+          // Ten minutes of driving per half degree
+          useValue: {
+            estimateLeg: (
+              from: { longitude: number },
+              to: { longitude: number },
+            ) => ({ duration: Math.abs(to.longitude - from.longitude) * 1200 }),
+          },
+        },
+        {
+          provide: RoutingService,
+          useValue: { resolveDriverRules: () => undefined },
+        },
+        {
+          provide: RouteOptimizationGateway,
+          useValue: { broadcastEtaUpdated },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get(EtaService);
+  });
+
+  it('re-estimates the stops still ahead from the latest position', async () => {
+    const result = await service.refreshVehicle('truck-7');
+
+    // 10 minutes to B, 5 minutes of service, then 20 minutes to C
+    expect(result?.etas).toEqual([
+      {
+        waypointIndex: 2,
+        stopId: 'stop-b',
+        address: 'B',
+        plannedArrival: at(45),
+        estimatedArrival: at(50),
+        delaySeconds: 5 * 60,
+      },
+      {
+        waypointIndex: 3,
+        stopId: 'stop-c',
+        address: 'C',
+        plannedArrival: at(70),
+        estimatedArrival: at(75),
+        delaySeconds: 5 * 60,
+      },
+    ]);
+    expect(createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          waypointIndex: 2,
+          stopId: 'stop-b',
+          predictedArrival: new Date(at(50)),
+          trigger: 'POSITION',
+        }),
+        expect.objectContaining({ waypointIndex: 3 }),
+      ],
+    });
+    expect(broadcastEtaUpdated).toHaveBeenCalledWith(
+      'route-1',
+      'request-1',
+      expect.objectContaining({ etas: result?.etas }),
+    );
+  });
+
+  it('skips estimates that barely moved since the last prediction', async () => {
+    findMany.mockResolvedValue([
+      {
+        stopId: 'stop-b',
+        predictedArrival: new Date(start + 50 * 60000 + 30000),
+      },
+      { stopId: 'stop-c', predictedArrival: new Date(at(75)) },
+    ]);
+
+    const result = await service.refreshVehicle('truck-7');
+
+    expect(result?.changed).toBe(false);
+    expect(createMany).not.toHaveBeenCalled();
+    expect(broadcastEtaUpdated).not.toHaveBeenCalled();
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { routeId: 'route-1', stopId: { in: ['stop-b', 'stop-c'] } },
+        distinct: ['stopId'],
+      }),
+    );
+  });
+
+  it('drives the remaining legs at the pace of the plan', async () => {
+    // The plan gives B to C 35 minutes where a straight line takes 20
+    findPosition.mockResolvedValue({
+      vehicleId: 'truck-7',
+      latitude: 0,
+      longitude: 1.5,
+      recordedAt: new Date(at(40)),
+      route: plannedRoute(85),
+    });
+
+    const result = await service.refreshVehicle('truck-7');
+
+    // B to C as planned, and the leg to B at the same pace: 17.5 minutes
+    // for 10 straight ones, then 5 minutes of service at B
+    expect(result?.etas.map((eta) => eta.estimatedArrival)).toEqual([
+      at(57.5),
+      at(97.5),
+    ]);
+  });
+});
@@ -0,0 +1,372 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EtaTrigger,
+  OptimizedRoute,
+  RouteOptimizationRequest,
+  VehiclePosition,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { RoutingPreferencesDto } from '../dto/optimize-route.dto';
+import { HaversineRoutingProvider } from '../routing/haversine-routing.provider';
+import { RoutingService } from '../routing/routing.service';
+import { RouteStop } from '../routing/routing-provider.interface';
+import { planSchedule, serviceDurationOf } from '../routing/routing.utils';
+import { isStopPending } from '../utils/stop-status.utils';
+import { TrafficConditionService } from './traffic-condition.service';
+import { StoredWaypoint } from './route-optimization.service';
+
+// Vehicles that reported within this window are treated as driving their route
+const DEFAULT_ACTIVE_VEHICLE_MINUTES = 30;
+// Smaller shifts in every remaining arrival are neither stored nor pushed
+const DEFAULT_CHANGE_THRESHOLD_SECONDS = 60;
+
+type ActiveRoute = OptimizedRoute & { request: RouteOptimizationRequest };
+
+export type StopEta = {
+  waypointIndex: number;
+  stopId?: string;
+  address: string;
+  plannedArrival: string;
+  estimatedArrival: string;
+  delaySeconds: number; // against the plan; negative when ahead
+  latenessSeconds?: number; // only for stops with a time window
+};
+
+// Seconds the plan gives the leg from each remaining stop to the next one,
+// where only breaks lie between them: the gap between their planned arrivals
+// less waiting, service and the breaks. Keyed by the leg's starting waypoint.
+function plannedLegDurations(
+  waypoints: StoredWaypoint[],
+  remaining: number[],
+  breakDurationSeconds: number,
+) {
+  const legs = new Map<number, number>();
+  remaining.slice(0, -1).forEach((from, position) => {
+    const to = remaining[position + 1];
+    const between = waypoints.slice(from + 1, to);
+    if (between.some((waypoint) => waypoint.type !== 'BREAK')) {
+      return;
+    }
+    const stop = waypoints[from];
+    const gapSeconds =
+      (Date.parse(waypoints[to].estimatedArrival) -
+        Date.parse(stop.estimatedArrival)) /
+      1000;
+    legs.set(
+      from,
+      Math.max(
+        0,
+        gapSeconds -
+          (stop.waitingSeconds ?? 0) -
+          serviceDurationOf(stop, from) -
+          between.length * breakDurationSeconds,
+      ),
+    );
+  });
+  return legs;
+}
+
+/**
+ * Keeps arrival times for the stops still ahead up to date. Each new vehicle
+ * position or traffic change re-estimates the remaining legs from where the
+ * vehicle is, scaled to the durations the route's provider planned, pushes
+ * the result to the route's subscribers and stores it so
+ * predictions can later be compared with actual arrivals.
+ */
+@Injectable()
+export class EtaService {
+  private readonly logger = new Logger(EtaService.name);
+  private readonly activeVehicleMinutes: number;
+  private readonly changeThresholdSeconds: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private trafficConditionService: TrafficConditionService,
+    private haversineRoutingProvider: HaversineRoutingProvider,
+    private routingService: RoutingService,
+    private routeOptimizationGateway: RouteOptimizationGateway,
+    private configService: ConfigService,
+  ) {
+    this.activeVehicleMinutes = Number(
+      this.configService.get<string>('ETA_ACTIVE_VEHICLE_MINUTES') ??
+        DEFAULT_ACTIVE_VEHICLE_MINUTES,
+    );
+    this.changeThresholdSeconds = Number(
+      this.configService.get<string>('ETA_CHANGE_THRESHOLD_SECONDS') ??
+        DEFAULT_CHANGE_THRESHOLD_SECONDS,
+    );
+  }
+
+  /**
+   * Re-estimate the vehicle's active route from its latest position. Returns
+   * null when there is nothing to update.
+   */
+  async refreshVehicle(
+    vehicleId: string,
+    trigger: EtaTrigger = EtaTrigger.POSITION,
+  ) {
+    const position = await this.prisma.vehiclePosition.findUnique({
+      where: { vehicleId },
+      include: { route: { include: { request: true } } },
+    });
+    if (!position?.route) {
+      return null;
+    }
+
+    return this.refreshRoute(position.route, position, trigger);
+  }
+
+  /**
+   * Re-estimate every route a vehicle is currently driving, e.g. after a
+   * traffic condition changed. Failures are logged per vehicle.
+   */
+  async refreshActiveRoutes(trigger: EtaTrigger = EtaTrigger.TRAFFIC) {
+    try {
+      const since = new Date(
+        Date.now() - this.activeVehicleMinutes * 60 * 1000,
+      );
+      const positions = await this.prisma.vehiclePosition.findMany({
+        where: { routeId: { not: null }, recordedAt: { gte: since } },
+        select: { vehicleId: true },
+      });
+
+      let updated = 0;
+      for (const { vehicleId } of positions) {
+        try {
+          if ((await this.refreshVehicle(vehicleId, trigger))?.changed) {
+            updated++;
+          }
+        } catch (error) {
+          this.logger.warn(
+            `Failed to refresh ETAs for vehicle ${vehicleId}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+      return { vehicles: positions.length, updated };
+    } catch (error) {
+      this.logger.error('Failed to refresh ETAs for active routes:', error);
+      return { vehicles: 0, updated: 0 };
+    }
+  }
+
+  /**
+   * Stored predictions for a route, each compared with the actual arrival
+   * where the stop has been visited
+   */
+  async getEtaHistory(routeId: string) {
+    const route = await this.prisma.optimizedRoute.findUnique({
+      where: { id: routeId },
+      include: { etaPredictions: { orderBy: { predictedAt: 'asc' } } },
+    });
+    if (!route) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+
+    const waypoints = route.waypoints as StoredWaypoint[];
+    const predictions = route.etaPredictions.map((prediction) => {
+      // Positions shift when the route is re-planned, so they only identify
+      // the stop of predictions stored before stops had ids
+      const waypoint = prediction.stopId
+        ? waypoints.find(({ stopId }) => stopId === prediction.stopId)
+        : waypoints[prediction.waypointIndex];
+      // Geofenced arrivals are exact; otherwise when the stop was marked visited
+      const actualArrival = waypoint?.arrivedAt ?? waypoint?.visitedAt;
+      return {
+        waypointIndex: prediction.waypointIndex,
+        stopId: prediction.stopId,
+        trigger: prediction.trigger,
+        predictedAt: prediction.predictedAt,
+        plannedArrival: prediction.plannedArrival,
+        predictedArrival: prediction.predictedArrival,
+        actualArrival: actualArrival ?? null,
+        // Positive when the vehicle arrived earlier than predicted
+        errorSeconds: actualArrival
+          ? Math.round(
+              (prediction.predictedArrival.getTime() -
+                Date.parse(actualArrival)) /
+                1000,
+            )
+          : null,
+      };
+    });
+
+    const errors = predictions.flatMap((prediction) =>
+      prediction.errorSeconds === null
+        ? []
+        : [Math.abs(prediction.errorSeconds)],
+    );
+    return {
+      routeId,
+      vehicleId: route.vehicleId,
+      predictions,
+      accuracy: {
+        comparedPredictions: errors.length,
+        meanAbsoluteErrorSeconds:
+          errors.length > 0
+            ? Math.round(
+                errors.reduce((sum, error) => sum + error, 0) / errors.length,
+              )
+            : null,
+      },
+    };
+  }
+
+  private async refreshRoute(
+    route: ActiveRoute,
+    position: VehiclePosition,
+    trigger: EtaTrigger,
+  ) {
+    const waypoints = route.waypoints as StoredWaypoint[];
+    // Breaks ahead are rescheduled from the current position; stops already
+    // reached have their actual arrival
+    const remaining = waypoints.flatMap((waypoint, index) =>
+      index > 0 && isStopPending(waypoint) && waypoint.type !== 'BREAK'
+        ? [{ waypoint, index }]
+        : [],
+    );
+    if (remaining.length === 0) {
+      return null;
+    }
+
+    const stops: RouteStop[] = [
+      {
+        latitude: position.latitude,
+        longitude: position.longitude,
+        address: 'Current location',
+      },
+      ...remaining.map(({ waypoint }) => waypoint),
+    ];
+    const incidents =
+      await this.trafficConditionService.findActiveIncidents(stops);
+    const preferences = route.request.preferences as RoutingPreferencesDto;
+    const driverRules = this.routingService.resolveDriverRules(
+      preferences.driverRules,
+    );
+
+    // Straight lines only give the shape of each leg. Legs the plan has are
+    // stretched to its duration, the rest by how much the plan's legs took
+    // longer than a straight line overall, and current traffic comes on top.
+    const plannedLegs = plannedLegDurations(
+      waypoints,
+      remaining.map(({ index }) => index),
+      driverRules?.breakDurationSeconds ?? 0,
+    );
+    const legs = stops.slice(1).map((stop, index) => ({
+      planned:
+        index > 0 ? plannedLegs.get(remaining[index - 1].index) : undefined,
+      straight: this.haversineRoutingProvider.estimateLeg(stops[index], stop)
+        .duration,
+      withTraffic: this.haversineRoutingProvider.estimateLeg(
+        stops[index],
+        stop,
+        incidents,
+      ).duration,
+    }));
+    const compared = legs.filter(
+      ({ planned, straight }) => planned !== undefined && straight > 0,
+    );
+    const straightSeconds = compared.reduce(
+      (sum, { straight }) => sum + straight,
+      0,
+    );
+    const routeScale =
+      straightSeconds > 0
+        ? compared.reduce((sum, { planned }) => sum + planned!, 0) /
+          straightSeconds
+        : 1;
+    const legDurations = legs.map(
+      ({ planned, straight, withTraffic }) =>
+        withTraffic *
+        (planned !== undefined && straight > 0
+          ? planned / straight
+          : routeScale),
+    );
+
+    const { schedule } = planSchedule(
+      stops,
+      legDurations,
+      position.recordedAt.getTime(),
+      { driverRules, shiftStart: waypoints[0].estimatedArrival },
+    );
+
+    const etas: StopEta[] = remaining.map(({ waypoint, index }, stop) => {
+      const { arrival, latenessSeconds } = schedule[stop + 1];
+      return {
+        waypointIndex: index,
+        ...(waypoint.stopId && { stopId: waypoint.stopId }),
+        address: waypoint.address,
+        plannedArrival: waypoint.estimatedArrival,
+        estimatedArrival: new Date(arrival).toISOString(),
+        delaySeconds: Math.round(
+          (arrival - Date.parse(waypoint.estimatedArrival)) / 1000,
+        ),
+        ...(waypoint.timeWindow && { latenessSeconds }),
+      };
+    });
+
+    if (!(await this.hasChanged(route.id, etas))) {
+      return { routeId: route.id, etas, changed: false };
+    }
+
+    await this.prisma.etaPrediction.createMany({
+      data: etas.map((eta) => ({
+        routeId: route.id,
+        vehicleId: route.vehicleId,
+        waypointIndex: eta.waypointIndex,
+        stopId: eta.stopId,
+        plannedArrival: new Date(eta.plannedArrival),
+        predictedArrival: new Date(eta.estimatedArrival),
+        trigger,
+        predictedAt: position.recordedAt,
+      })),
+    });
+    this.routeOptimizationGateway.broadcastEtaUpdated(
+      route.id,
+      route.requestId,
+      {
+        vehicleId: route.vehicleId,
+        trigger,
+        position: {
+          latitude: position.latitude,
+          longitude: position.longitude,
+          recordedAt: position.recordedAt.toISOString(),
+        },
+        etas,
+      },
+    );
+
+    return { routeId: route.id, etas, changed: true };
+  }
+
+  /**
+   * Whether any remaining stop's estimate moved by at least the threshold
+   * since its last stored prediction for that stop, or has none yet
+   */
+  private async hasChanged(routeId: string, etas: StopEta[]) {
+    const latest = await this.prisma.etaPrediction.findMany({
+      where: {
+        routeId,
+        stopId: { in: etas.flatMap((eta) => eta.stopId ?? []) },
+      },
+      orderBy: { predictedAt: 'desc' },
+      distinct: ['stopId'],
+    });
+    const previous = new Map(
+      latest.map((prediction) => [
+        prediction.stopId,
+        prediction.predictedArrival.getTime(),
+      ]),
+    );
+
+    return etas.some((eta) => {
+      const before = eta.stopId ? previous.get(eta.stopId) : undefined;
+      return (
+        before === undefined ||
+        Math.abs(Date.parse(eta.estimatedArrival) - before) >=
+          this.changeThresholdSeconds * 1000
+      );
+    });
+  }
+}
@@ -0,0 +1,243 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { RouteOptimizationStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { FleetOptimizeDto } from '../dto/fleet-optimization.dto';
+import { OptimizeRouteRequestDto } from '../dto/optimize-route.dto';
+import { HaversineRoutingProvider } from '../routing/haversine-routing.provider';
+import { RoutingService } from '../routing/routing.service';
+import { assignStopsToVehicles } from '../routing/fleet-assignment';
+import { serviceDurationOf } from '../routing/routing.utils';
+import {
+  RouteOptimizationResult,
+  RouteOptimizationService,
+} from './route-optimization.service';
+import { CapacityProfileService } from './capacity-profile.service';
+import { GeocodingService } from './geocoding.service';
+
+type FleetRouteResult =
+  | (RouteOptimizationResult & {
+      vehicleId: string;
+      status: 'COMPLETED';
+      shiftOverrunSeconds: number;
+    })
+  | {
+      vehicleId: string;
+      requestId: string;
+      status: 'FAILED';
+      error: string;
+    };
+
+/**
+ * Plans a shared pool of stops across several vehicles. Stops are assigned
+ * with straight-line estimates, then each vehicle's share is planned as a
+ * normal optimization request grouped under one batch.
+ */
+@Injectable()
+export class FleetOptimizationService {
+  private readonly logger = new Logger(FleetOptimizationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private routeOptimizationService: RouteOptimizationService,
+    private routeOptimizationGateway: RouteOptimizationGateway,
+    private haversineRoutingProvider: HaversineRoutingProvider,
+    private capacityProfileService: CapacityProfileService,
+    private routingService: RoutingService,
+    private geocodingService: GeocodingService,
+  ) {}
+
+  async optimizeFleet(dto: FleetOptimizeDto, userId: string) {
+    const { stops: poolStops, warnings: geocodingWarnings } =
+      await this.geocodingService.geocodeStops(dto.stops);
+    // Stops that don't fit any vehicle are reported as unassigned rather than refused
+    const vehicles = await Promise.all(
+      dto.vehicles.map(async (vehicle) => ({
+        ...vehicle,
+        capacity: await this.capacityProfileService.resolveCapacity(vehicle),
+      })),
+    );
+    const incidents = await this.routeOptimizationService.getActiveIncidents([
+      ...dto.vehicles.map((vehicle) => vehicle.depot),
+      ...poolStops,
+    ]);
+    const { assignments, unassigned } = assignStopsToVehicles(
+      vehicles,
+      poolStops,
+      (from, to) =>
+        this.haversineRoutingProvider.estimateLeg(from, to, incidents),
+      Date.now(),
+      this.routingService.resolveDriverRules(dto.preferences.driverRules),
+    );
+
+    const unassignedStops = unassigned.map(({ stop, reason }) => ({
+      ...stop,
+      reason,
+    }));
+    const batch = await this.prisma.fleetOptimizationBatch.create({
+      data: {
+        userId,
+        vehicles,
+        unassignedStops,
+      },
+    });
+    this.logger.log(
+      `Fleet batch ${batch.id}: ${poolStops.length - unassigned.length}/${poolStops.length} stops assigned across ${dto.vehicles.length} vehicles`,
+    );
+
+    const routes: FleetRouteResult[] = [];
+    const idleVehicles: string[] = [];
+
+    for (const { vehicle, departureTime, stops } of assignments) {
+      if (stops.length === 0) {
+        idleVehicles.push(vehicle.vehicleId);
+        continue;
+      }
+
+      const optimizeRouteDto: OptimizeRouteRequestDto = {
+        vehicleId: vehicle.vehicleId,
+        stops: [vehicle.depot, ...stops],
+        preferences: {
+          ...dto.preferences,
+          routeMode: 'openEnd',
+          departureTime: new Date(departureTime).toISOString(),
+        },
+        capacity: vehicle.capacity,
+      };
+      const requestId =
+        await this.routeOptimizationService.createOptimizationRequest(
+          optimizeRouteDto,
+          userId,
+          RouteOptimizationStatus.PROCESSING,
+          batch.id,
+        );
+      this.routeOptimizationGateway.broadcastRouteOptimizationRequested(
+        requestId,
+        {
+          vehicleId: vehicle.vehicleId,
+          userId,
+          batchId: batch.id,
+          status: 'PROCESSING',
+        },
+      );
+
+      // One vehicle failing to plan shouldn't lose the rest of the fleet
+      try {
+        const result = await this.routeOptimizationService.runOptimization(
+          requestId,
+          optimizeRouteDto,
+        );
+        routes.push({
+          ...result,
+          vehicleId: vehicle.vehicleId,
+          status: 'COMPLETED',
+          shiftOverrunSeconds: this.calculateShiftOverrun(
+            result,
+            departureTime,
+            vehicle.shiftEnd,
+          ),
+        });
+      } catch (error) {
+        routes.push({
+          vehicleId: vehicle.vehicleId,
+          requestId,
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const completed = routes.filter((route) => route.status === 'COMPLETED');
+    return {
+      batchId: batch.id,
+      routes,
+      idleVehicles,
+      unassignedStops,
+      ...(geocodingWarnings.length > 0 && { geocodingWarnings }),
+      totals: {
+        vehicles: dto.vehicles.length,
+        vehiclesUsed: completed.length,
+        assignedStops: poolStops.length - unassigned.length,
+        unassignedStops: unassigned.length,
+        totalDistance: completed.reduce(
+          (sum, route) => sum + route.optimizedRoute.totalDistance,
+          0,
+        ),
+        totalDuration: completed.reduce(
+          (sum, route) => sum + route.optimizedRoute.totalDuration,
+          0,
+        ),
+      },
+    };
+  }
+
+  async getBatch(batchId: string) {
+    const batch = await this.prisma.fleetOptimizationBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        requests: {
+          include: {
+            optimizedRoutes: {
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+            },
+          },
+        },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundException(
+        `Fleet optimization batch ${batchId} not found`,
+      );
+    }
+
+    const routes = batch.requests.map((request) => ({
+      requestId: request.id,
+      vehicleId: request.vehicleId,
+      status: request.status,
+      optimizedRoute: request.optimizedRoutes[0] ?? null,
+    }));
+    const completed = routes.filter(
+      (route) => route.status === RouteOptimizationStatus.COMPLETED,
+    );
+
+    return {
+      batchId: batch.id,
+      userId: batch.userId,
+      createdAt: batch.createdAt,
+      vehicles: batch.vehicles,
+      unassignedStops: batch.unassignedStops,
+      routes,
+      totals: {
+        vehiclesUsed: completed.length,
+        totalDistance: routes.reduce(
+          (sum, route) => sum + (route.optimizedRoute?.totalDistance ?? 0),
+          0,
+        ),
+        totalDuration: routes.reduce(
+          (sum, route) => sum + (route.optimizedRoute?.totalDuration ?? 0),
+          0,
+        ),
+      },
+    };
+  }
+
+  /**
+   * How far past the end of the shift the planned route runs, in seconds.
+   * Assignment uses estimates, so the provider's plan can overrun slightly.
+   */
+  private calculateShiftOverrun(
+    result: RouteOptimizationResult,
+    departureTime: number,
+    shiftEnd: string,
+  ) {
+    const { waypoints, totalDuration } = result.optimizedRoute;
+    const lastStop = waypoints[waypoints.length - 1];
+    const finish =
+      departureTime +
+      (totalDuration + serviceDurationOf(lastStop, waypoints.length - 1)) *
+        1000;
+    return Math.max(0, Math.round((finish - Date.parse(shiftEnd)) / 1000));
+  }
+}
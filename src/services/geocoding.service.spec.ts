@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { FixtureGeocoder } from '../geocoding/fixture-geocoder';
+import { GeocodingService } from './geocoding.service';
+import { GoogleMapsService } from './google-maps.service';
+
+describe('GeocodingService', () => {
+  let service: GeocodingService;
+  let findFirst: jest.Mock;
+  let upsert: jest.Mock;
+
+  beforeEach(async () => {
+    findFirst = jest.fn().mockResolvedValue(null);
+    upsert = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GeocodingService,
+        FixtureGeocoder,
+        {
+          provide: PrismaService,
+          useValue: { geocodeCacheEntry: { findFirst, upsert } },
+        },
+        {
+          provide: GoogleMapsService,
+          useValue: { name: 'google', isAvailable: () => false },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get(GeocodingService);
+  });
+
+  it('geocodes address-only stops and warns about partial matches', async () => {
+    findFirst.mockImplementation(({ where }) =>
+      where.query === 'dam 1012 js amsterdam netherlands'
+        ? {
+            latitude: 52.37,
+            longitude: 4.89,
+            formattedAddress: 'Dam, 1012 JS Amsterdam, Netherlands',
+            quality: 'ROOFTOP',
+            partialMatch: false,
+          }
+        : null,
+    );
+
+    const { stops, warnings } = await service.geocodeStops([
+      { latitude: 52.5, longitude: 13.4, address: 'Depot' },
+      { address: 'Dam, 1012 JS  Amsterdam, Netherlands' },
+      { address: 'Alexanderplatz 1' },
+    ]);
+
+    expect(stops.map((stop) => [stop.latitude, stop.longitude])).toEqual([
+      [52.5, 13.4],
+      [52.37, 4.89],
+      [52.521918, 13.413215],
+    ]);
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        index: 2,
+        formattedAddress: 'Alexanderplatz 1, 10178 Berlin, Germany',
+        quality: 'APPROXIMATE',
+        partialMatch: true,
+      }),
+    ]);
+    // Only the fixture lookup is new to the cache
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(upsert.mock.calls[0][0].where).toEqual({
+      provider_query: { provider: 'fixture', query: 'alexanderplatz 1' },
+    });
+  });
+
+  it('refuses stops whose address matches nothing', async () => {
+    await expect(
+      service.geocodeStops([
+        { address: 'Alexanderplatz 1, 10178 Berlin, Germany' },
+        { address: 'Nowhere Lane 99' },
+      ]),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(upsert).toHaveBeenCalledTimes(1);
+  });
+
+  it('reverse geocodes positions near a known address', async () => {
+    await expect(
+      service.reverseGeocode({ latitude: 52.5219, longitude: 13.4133 }),
+    ).resolves.toMatchObject({
+      geocoder: 'fixture',
+      address: 'Alexanderplatz 1, 10178 Berlin, Germany',
+    });
+  });
+});
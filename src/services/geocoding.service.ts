@@ -0,0 +1,207 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { GoogleMapsService } from './google-maps.service';
+import {
+  FixtureGeocoder,
+  normalizeAddress,
+} from '../geocoding/fixture-geocoder';
+import {
+  GeocodeMatch,
+  GeocodeQuality,
+  Geocoder,
+} from '../geocoding/geocoder.interface';
+import { Coordinates } from '../utils/geo.utils';
+
+const DEFAULT_CACHE_TTL_DAYS = 30;
+
+type AddressedStop = Partial<Coordinates> & { address: string };
+
+export type GeocodingWarning = {
+  index: number;
+  address: string;
+  formattedAddress: string;
+  quality: GeocodeQuality;
+  partialMatch: boolean;
+  message: string;
+};
+
+/**
+ * Turns addresses into coordinates and back. Uses Google when an API key is
+ * configured and the local fixture geocoder otherwise. Forward lookups are
+ * cached per geocoder and normalized address.
+ */
+@Injectable()
+export class GeocodingService {
+  private readonly logger = new Logger(GeocodingService.name);
+  private readonly geocoder: Geocoder;
+  private readonly cacheTtlDays: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    googleMapsService: GoogleMapsService,
+    fixtureGeocoder: FixtureGeocoder,
+  ) {
+    this.geocoder = googleMapsService.isAvailable()
+      ? {
+          name: googleMapsService.name,
+          isAvailable: () => true,
+          geocode: (address) => googleMapsService.geocodeAddress(address),
+          reverseGeocode: (point) => googleMapsService.reverseGeocode(point),
+        }
+      : fixtureGeocoder;
+    this.cacheTtlDays = Number(
+      this.configService.get<string>('GEOCODE_CACHE_TTL_DAYS') ??
+        DEFAULT_CACHE_TTL_DAYS,
+    );
+  }
+
+  async geocode(address: string) {
+    const match = await this.lookUp(address);
+    if (!match) {
+      throw new NotFoundException(`No location found for address: ${address}`);
+    }
+    return { geocoder: this.geocoder.name, ...match };
+  }
+
+  async reverseGeocode(point: Coordinates) {
+    const match = await this.geocoder.reverseGeocode(point);
+    if (!match) {
+      throw new NotFoundException(
+        `No address found near ${point.latitude},${point.longitude}`,
+      );
+    }
+    return {
+      geocoder: this.geocoder.name,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      ...match,
+    };
+  }
+
+  /**
+   * Fill in coordinates for stops that only have an address. Imprecise or
+   * partial matches are kept but reported as warnings; addresses that can't
+   * be found at all refuse the request.
+   */
+  async geocodeStops<T extends AddressedStop>(stops: T[]) {
+    const addresses = new Set(
+      stops.filter((stop) => !hasCoordinates(stop)).map((stop) => stop.address),
+    );
+    const matches = new Map<string, GeocodeMatch | null>();
+    for (const address of addresses) {
+      matches.set(address, await this.lookUp(address));
+    }
+
+    const unresolved = stops.flatMap((stop, index) =>
+      !hasCoordinates(stop) && !matches.get(stop.address)
+        ? [{ index, address: stop.address }]
+        : [],
+    );
+    if (unresolved.length > 0) {
+      throw new BadRequestException({
+        message: 'Some stop addresses could not be geocoded',
+        stops: unresolved,
+      });
+    }
+
+    const warnings: GeocodingWarning[] = [];
+    const geocoded = stops.map((stop, index) => {
+      if (hasCoordinates(stop)) {
+        return stop;
+      }
+
+      const match = matches.get(stop.address)!;
+      const message = describeMatchIssue(match);
+      if (message) {
+        warnings.push({
+          index,
+          address: stop.address,
+          formattedAddress: match.formattedAddress,
+          quality: match.quality,
+          partialMatch: match.partialMatch,
+          message,
+        });
+      }
+      return { ...stop, latitude: match.latitude, longitude: match.longitude };
+    });
+
+    return {
+      stops: geocoded as Array<T & Coordinates>,
+      warnings,
+    };
+  }
+
+  /**
+   * A forward lookup from the cache when it has a fresh entry, otherwise from
+   * the geocoder. Only successful lookups are cached.
+   */
+  private async lookUp(address: string): Promise<GeocodeMatch | null> {
+    const query = normalizeAddress(address);
+    const cached = await this.prisma.geocodeCacheEntry.findFirst({
+      where: {
+        provider: this.geocoder.name,
+        query,
+        expiresAt: { gt: new Date() },
+      },
+    });
+    if (cached) {
+      return {
+        latitude: cached.latitude,
+        longitude: cached.longitude,
+        formattedAddress: cached.formattedAddress,
+        quality: cached.quality as GeocodeQuality,
+        partialMatch: cached.partialMatch,
+      };
+    }
+
+    const match = await this.geocoder.geocode(address);
+    if (match) {
+      await this.store(query, match);
+    }
+    return match;
+  }
+
+  private async store(query: string, match: GeocodeMatch) {
+    const expiresAt = new Date(
+      Date.now() + this.cacheTtlDays * 24 * 3600 * 1000,
+    );
+    try {
+      await this.prisma.geocodeCacheEntry.upsert({
+        where: {
+          provider_query: { provider: this.geocoder.name, query },
+        },
+        create: { provider: this.geocoder.name, query, ...match, expiresAt },
+        update: { ...match, expiresAt },
+      });
+    } catch (error) {
+      // The lookup already succeeded; a cache write failure only costs a later lookup
+      this.logger.warn(
+        `Failed to cache geocode for "${query}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+function hasCoordinates(
+  stop: AddressedStop,
+): stop is AddressedStop & Coordinates {
+  return stop.latitude !== undefined && stop.longitude !== undefined;
+}
+
+// Why a match may put the stop in the wrong place, if it might
+function describeMatchIssue(match: GeocodeMatch) {
+  if (match.partialMatch) {
+    return `Only part of the address matched ${match.formattedAddress}`;
+  }
+  if (match.quality === 'GEOMETRIC_CENTER' || match.quality === 'APPROXIMATE') {
+    return `Location is approximate (${match.quality})`;
+  }
+  return null;
+}
@@ -0,0 +1,144 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VehiclePosition } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { OutboxService, createDomainEvent } from './outbox.service';
+import {
+  RouteChangedException,
+  StoredWaypoint,
+} from './route-optimization.service';
+import { detectStopEvents } from '../utils/geofence.utils';
+
+const DEFAULT_GEOFENCE_RADIUS_METERS = 100;
+// Times a position is checked against a route that keeps changing under it
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Tells when a vehicle actually reached and left each stop of its active
+ * route from its reported positions. Arrival, departure and dwell time are
+ * stored on the route's waypoints and announced as STOP_ARRIVED and
+ * STOP_DEPARTED events.
+ */
+@Injectable()
+export class GeofenceService {
+  private readonly logger = new Logger(GeofenceService.name);
+  private readonly defaultRadiusMeters: number;
+
+  constructor(
+    private prisma: PrismaService,
+    private outboxService: OutboxService,
+    private routeOptimizationGateway: RouteOptimizationGateway,
+    private configService: ConfigService,
+  ) {
+    this.defaultRadiusMeters = Number(
+      this.configService.get<string>('STOP_GEOFENCE_RADIUS_METERS') ??
+        DEFAULT_GEOFENCE_RADIUS_METERS,
+    );
+  }
+
+  async checkPosition(position: VehiclePosition) {
+    // Drivers and re-plans write the same waypoints; check again against
+    // what they wrote rather than overwrite it
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.recordStopEvents(position);
+      } catch (error) {
+        if (
+          !(error instanceof RouteChangedException) ||
+          attempt >= MAX_WRITE_ATTEMPTS
+        ) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async recordStopEvents(position: VehiclePosition) {
+    if (!position.routeId) {
+      return [];
+    }
+    const route = await this.prisma.optimizedRoute.findUnique({
+      where: { id: position.routeId },
+    });
+    if (!route) {
+      return [];
+    }
+
+    const { waypoints, events } = detectStopEvents(
+      route.waypoints as StoredWaypoint[],
+      position,
+      position.recordedAt,
+      this.defaultRadiusMeters,
+    );
+    if (events.length === 0) {
+      return [];
+    }
+
+    const stopEvents = events.map((event) => {
+      const waypoint = waypoints[event.waypointIndex];
+      return {
+        eventType: event.type === 'arrived' ? 'STOP_ARRIVED' : 'STOP_DEPARTED',
+        data: {
+          routeId: route.id,
+          requestId: route.requestId,
+          vehicleId: route.vehicleId,
+          stopId: waypoint.stopId,
+          waypointIndex: event.waypointIndex,
+          address: waypoint.address,
+          plannedArrival: waypoint.estimatedArrival,
+          arrivedAt: waypoint.arrivedAt,
+          // Actual against planned arrival; negative when early
+          arrivalDelaySeconds: Math.round(
+            (Date.parse(waypoint.arrivedAt!) -
+              Date.parse(waypoint.estimatedArrival)) /
+              1000,
+          ),
+          ...(event.type === 'departed' && {
+            departedAt: waypoint.departedAt,
+            dwellSeconds: waypoint.dwellSeconds,
+          }),
+        },
+      };
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.optimizedRoute.updateMany({
+        where: { id: route.id, revision: route.revision },
+        data: { waypoints, revision: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new RouteChangedException(route.id);
+      }
+      for (const { eventType, data } of stopEvents) {
+        await this.outboxService.enqueue(
+          tx,
+          'route-tracking-events',
+          createDomainEvent(eventType, data),
+          route.vehicleId,
+        );
+      }
+    });
+
+    for (const { eventType, data } of stopEvents) {
+      if (eventType === 'STOP_ARRIVED') {
+        this.routeOptimizationGateway.broadcastStopArrived(
+          route.id,
+          route.requestId,
+          data,
+        );
+      } else {
+        this.routeOptimizationGateway.broadcastStopDeparted(
+          route.id,
+          route.requestId,
+          data,
+        );
+      }
+      this.logger.log(
+        `Vehicle ${route.vehicleId} ${eventType === 'STOP_ARRIVED' ? 'arrived at' : 'departed from'} stop ${data.waypointIndex} of route ${route.id}`,
+      );
+    }
+
+    return stopEvents;
+  }
+}
@@ -0,0 +1,84 @@
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { HaversineRoutingProvider } from '../routing/haversine-routing.provider';
+import { Coordinates } from '../utils/geo.utils';
+import {
+  GoogleDistanceMatrixResponse,
+  GoogleMapsService,
+} from './google-maps.service';
+
+const points = (count: number): Coordinates[] =>
+  Array.from({ length: count }, (_, index) => ({
+    latitude: 52.5,
+    longitude: 13.3 + index / 1000,
+  }));
+
+const count = (param: string | null) => param?.split('|').length ?? 0;
+
+describe('GoogleMapsService', () => {
+  const service = new GoogleMapsService(
+    new ConfigService({ GOOGLE_MAPS_API_KEY: 'key' }),
+    new HaversineRoutingProvider(new ConfigService({})),
+  );
+  let get: jest.SpyInstance;
+
+  beforeEach(() => {
+    // Answers every pair of the request with its position in the block
+    get = jest.spyOn(axios, 'get').mockImplementation((url: string) => {
+      const params = new URL(url).searchParams;
+      const data: GoogleDistanceMatrixResponse = {
+        status: 'OK',
+        rows: Array.from({ length: count(params.get('origins')) }, () => ({
+          elements: Array.from(
+            { length: count(params.get('destinations')) },
+            () => ({
+              status: 'OK',
+              distance: { value: 1000 },
+              duration: { value: 60 },
+            }),
+          ),
+        })),
+      };
+      return Promise.resolve({ data });
+    });
+  });
+
+  afterEach(() => {
+    get.mockRestore();
+  });
+
+  describe('getMatrix', () => {
+    it.each([
+      [100, 2],
+      [100, 100],
+      [3, 60],
+    ])(
+      'keeps every request of a %i by %i matrix within the limits',
+      async (origins, destinations) => {
+        const matrix = await service.getMatrix(
+          points(origins),
+          points(destinations),
+        );
+
+        const requests = (get.mock.calls as [string][]).map(([url]) => {
+          const params = new URL(url).searchParams;
+          return {
+            origins: count(params.get('origins')),
+            destinations: count(params.get('destinations')),
+          };
+        });
+        for (const request of requests) {
+          expect(request.origins).toBeLessThanOrEqual(25);
+          expect(request.destinations).toBeLessThanOrEqual(25);
+          expect(request.origins * request.destinations).toBeLessThanOrEqual(
+            100,
+          );
+        }
+        // Every pair is filled in once the blocks are put together
+        expect(matrix.distances.flat()).toEqual(
+          new Array(origins * destinations).fill(1000),
+        );
+      },
+    );
+  });
+});
@@ -1,6 +1,25 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
+import { TrafficIncident } from '../utils/traffic-impact.utils';
+import { Coordinates } from '../utils/geo.utils';
+import {
+  OptimizedRoute,
+  RouteStop,
+  RoutingPreferences,
+  RoutingProvider,
+  TravelMatrix,
+} from '../routing/routing-provider.interface';
+import { HaversineRoutingProvider } from '../routing/haversine-routing.provider';
+import {
+  applyIncidentDelays,
+  applyRouteMode,
+  requiresLocalOrdering,
+  departureTimeOf,
+  routeModeOf,
+  scheduleRoute,
+} from '../routing/routing.utils';
+import { GeocodeMatch, GeocodeQuality, ReverseGeocodeMatch } from '../geocoding/geocoder.interface';
 
 export interface GoogleMapsRouteResponse {
   routes: Array<{
@@ -16,29 +35,54 @@ export interface GoogleMapsRouteResponse {
       }>;
     }>;
     overview_polyline: { points: string };
+    // Visiting order of the via points, by their position in the request
+    waypoint_order: number[];
   }>;
   status: string;
 }
 
-export interface OptimizedRoute {
-  totalDistance: number;
-  totalDuration: number;
-  waypoints: Array<{
-    latitude: number;
-    longitude: number;
-    address: string;
-    estimatedArrival: string;
+export interface GoogleDistanceMatrixResponse {
+  rows: Array<{
+    elements: Array<{
+      status: string;
+      distance?: { value: number };
+      duration?: { value: number };
+      duration_in_traffic?: { value: number };
+    }>;
+  }>;
+  status: string;
+}
+
+export interface GoogleGeocodeResponse {
+  results: Array<{
+    formatted_address: string;
+    geometry: {
+      location: { lat: number; lng: number };
+      location_type: GeocodeQuality;
+    };
+    partial_match?: boolean;
   }>;
-  polyline: string;
+  status: string;
 }
 
+// Distance Matrix limits: 25 origins, 25 destinations and 100 elements per request
+const MATRIX_MAX_ORIGINS = 25;
+const MATRIX_MAX_DESTINATIONS = 25;
+const MATRIX_MAX_ELEMENTS = 100;
+
+export type { OptimizedRoute } from '../routing/routing-provider.interface';
+
 @Injectable()
-export class GoogleMapsService {
+export class GoogleMapsService implements RoutingProvider {
+  readonly name = 'google' as const;
   private readonly logger = new Logger(GoogleMapsService.name);
   private readonly apiKey: string;
   private readonly baseUrl = 'https://maps.googleapis.com/maps/api';
 
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private haversineRoutingProvider: HaversineRoutingProvider,
+  ) {
     this.apiKey = this.configService.get<string>('GOOGLE_MAPS_API_KEY') || '';
     if (!this.apiKey || this.apiKey === 'your_google_maps_api_key_here') {
       this.logger.warn('Google Maps API key not configured, using mock data');
@@ -46,21 +90,42 @@ export class GoogleMapsService {
     }
   }
 
+  isAvailable() {
+    return !!this.apiKey;
+  }
+
   async optimizeRoute(
-    stops: Array<{ latitude: number; longitude: number; address: string }>,
-    preferences: {
-      avoidTolls: boolean;
-      avoidHighways: boolean;
-      optimizeFor: 'time' | 'distance' | 'fuel';
-    }
+    stops: RouteStop[],
+    preferences: RoutingPreferences,
+    incidents: TrafficIncident[] = [],
   ): Promise<OptimizedRoute> {
     if (!this.apiKey) {
-      this.logger.warn('Google Maps API key not configured, using mock data');
-      return this.getMockOptimizedRoute(stops);
+      this.logger.warn('Google Maps API key not configured, using haversine estimates');
+      return this.haversineRoutingProvider.optimizeRoute(stops, preferences, incidents);
     }
 
+    const startTime = departureTimeOf(preferences);
+    let fixedEnd: boolean;
+    ({ stops, fixedEnd } = applyRouteMode(stops, routeModeOf(preferences)));
     try {
-      const waypoints = stops.slice(1, -1).map(stop => 
+      // Google can't see our time windows, shipments or stored incidents, so we order around them ourselves.
+      // Directions always ends at its destination and only optimizes for time, so an open end
+      // and the other optimization goals are also ordered locally.
+      const orderLocally =
+        !fixedEnd || preferences.optimizeFor !== 'time' || requiresLocalOrdering(stops, incidents);
+      let stopOrder: OptimizedRoute['stopOrder'];
+      if (orderLocally) {
+        this.logger.log('Open end, distance or fuel goal, time windows, shipments or blocked legs, ordering stops locally');
+        ({ stops, stopOrder } = this.haversineRoutingProvider.orderStops(stops, incidents, {
+          fixedEnd,
+          startTime,
+          capacity: preferences.capacity,
+          driverRules: preferences.driverRules,
+          optimizeFor: preferences.optimizeFor,
+        }));
+      }
+
+      const viaPoints = stops.slice(1, -1).map(stop => 
         `${stop.latitude},${stop.longitude}`
       ).join('|');
 
@@ -70,9 +135,9 @@ export class GoogleMapsService {
       const params = new URLSearchParams({
         origin,
         destination,
-        waypoints: waypoints || '',
+        // Directions only reorders the via points when the list itself asks for it
+        waypoints: viaPoints && !orderLocally ? `optimize:true|${viaPoints}` : viaPoints,
         key: this.apiKey,
-        optimize: 'true',
         avoid: this.buildAvoidString(preferences),
         mode: 'driving',
         units: 'metric',
@@ -88,31 +153,32 @@ export class GoogleMapsService {
 
       const route = response.data.routes[0];
 
-      const totalDistance = route.legs.reduce((sum, leg) => sum + leg.distance.value, 0) / 1000; // Convert to kilometers
-      const totalDuration = route.legs.reduce((sum, leg) => sum + leg.duration.value, 0); // In seconds
+      // Legs follow Google's order, so the stops have to as well
+      if (!orderLocally) {
+        const via = stops.slice(1, -1);
+        stops = [stops[0], ...route.waypoint_order.map(index => via[index]), stops[stops.length - 1]];
+      }
 
-      // Calculate estimated arrival times for each waypoint
-      const waypointsWithArrival = stops.map((stop, index) => {
-        let estimatedArrival = new Date();
-        
-        // Add duration for all legs up to this stop
-        for (let i = 0; i < index && i < route.legs.length; i++) {
-          estimatedArrival = new Date(estimatedArrival.getTime() + (route.legs[i]?.duration.value || 0) * 1000);
-        }
+      // Stretch each leg's duration by any stored incidents along it
+      const { legDurations, trafficIncidents } = applyIncidentDelays(
+        stops,
+        route.legs.map(leg => leg.duration.value),
+        incidents,
+      );
 
-        return {
-          latitude: stop.latitude,
-          longitude: stop.longitude,
-          address: stop.address,
-          estimatedArrival: estimatedArrival.toISOString(),
-        };
-      });
+      const totalDistance = route.legs.reduce((sum, leg) => sum + leg.distance.value, 0); // In meters, like every other provider
+      // Arrivals include service time at each stop and any wait for its window
+      const { waypoints, totalDuration, driverShift } = scheduleRoute(stops, legDurations, startTime, preferences);
 
       return {
         totalDistance,
         totalDuration,
-        waypoints: waypointsWithArrival,
+        waypoints,
         polyline: route.overview_polyline.points,
+        trafficIncidents,
+        provider: this.name,
+        stopOrder,
+        driverShift,
       };
     } catch (error) {
       this.logger.error('Failed to optimize route with Google Maps:', error);
@@ -120,7 +186,67 @@ export class GoogleMapsService {
     }
   }
 
-  async geocodeAddress(address: string): Promise<{ latitude: number; longitude: number }> {
+  async getMatrix(
+    origins: Coordinates[],
+    destinations: Coordinates[],
+    preferences: Pick<RoutingPreferences, 'departureTime'> = {},
+  ): Promise<TravelMatrix> {
+    if (!this.apiKey) {
+      this.logger.warn('Google Maps API key not configured, using haversine estimates');
+      return this.haversineRoutingProvider.getMatrix(origins, destinations);
+    }
+
+    const distances = origins.map(() => destinations.map((): number | null => null));
+    const durations = origins.map(() => destinations.map((): number | null => null));
+    const toParam = (points: Coordinates[]) => points.map(point => `${point.latitude},${point.longitude}`).join('|');
+    // Traffic-aware durations need a departure time that is not in the past
+    const departureTime = Math.max(
+      Math.ceil(Date.now() / 1000),
+      preferences.departureTime ? Math.floor(Date.parse(preferences.departureTime) / 1000) : 0,
+    );
+
+    try {
+      // Split into blocks within the per-request limits
+      const destinationBlock = Math.min(destinations.length, MATRIX_MAX_DESTINATIONS);
+      const originBlock = Math.min(MATRIX_MAX_ORIGINS, Math.floor(MATRIX_MAX_ELEMENTS / destinationBlock));
+      for (let originStart = 0; originStart < origins.length; originStart += originBlock) {
+        for (let destinationStart = 0; destinationStart < destinations.length; destinationStart += destinationBlock) {
+          const params = new URLSearchParams({
+            origins: toParam(origins.slice(originStart, originStart + originBlock)),
+            destinations: toParam(destinations.slice(destinationStart, destinationStart + destinationBlock)),
+            departure_time: String(departureTime),
+            mode: 'driving',
+            units: 'metric',
+            key: this.apiKey,
+          });
+          const response = await axios.get<GoogleDistanceMatrixResponse>(
+            `${this.baseUrl}/distancematrix/json?${params}`
+          );
+          if (response.data.status !== 'OK') {
+            throw new Error(`Google Maps API error: ${response.data.status}`);
+          }
+
+          response.data.rows.forEach((row, rowIndex) => {
+            row.elements.forEach((element, columnIndex) => {
+              if (element.status !== 'OK') {
+                return; // No route between this pair
+              }
+              distances[originStart + rowIndex][destinationStart + columnIndex] = element.distance!.value;
+              durations[originStart + rowIndex][destinationStart + columnIndex] =
+                (element.duration_in_traffic ?? element.duration!).value;
+            });
+          });
+        }
+      }
+
+      return { distances, durations };
+    } catch (error) {
+      this.logger.error('Failed to build travel matrix with Google Maps:', error);
+      throw error;
+    }
+  }
+
+  async geocodeAddress(address: string): Promise<GeocodeMatch | null> {
     if (!this.apiKey) {
       throw new Error('Google Maps API key not configured');
     }
@@ -131,18 +257,24 @@ export class GoogleMapsService {
         key: this.apiKey,
       });
 
-      const response = await axios.get(
+      const response = await axios.get<GoogleGeocodeResponse>(
         `${this.baseUrl}/geocode/json?${params}`
       );
 
+      if (response.data.status === 'ZERO_RESULTS') {
+        return null;
+      }
       if (response.data.status !== 'OK' || !response.data.results.length) {
         throw new Error(`Geocoding failed for address: ${address}`);
       }
 
-      const location = response.data.results[0].geometry.location;
+      const result = response.data.results[0];
       return {
-        latitude: location.lat,
-        longitude: location.lng,
+        latitude: result.geometry.location.lat,
+        longitude: result.geometry.location.lng,
+        formattedAddress: result.formatted_address,
+        quality: result.geometry.location_type,
+        partialMatch: !!result.partial_match,
       };
     } catch (error) {
       this.logger.error(`Failed to geocode address ${address}:`, error);
@@ -150,147 +282,46 @@ export class GoogleMapsService {
     }
   }
 
-  private buildAvoidString(preferences: {
-    avoidTolls: boolean;
-    avoidHighways: boolean;
-  }): string {
-    const avoids: string[] = [];
-    if (preferences.avoidTolls) avoids.push('tolls');
-    if (preferences.avoidHighways) avoids.push('highways');
-    return avoids.join('|');
-  }
-
-  private getMockOptimizedRoute(stops: Array<{ latitude: number; longitude: number; address: string }>): OptimizedRoute {
-    if (stops.length < 2) {
-      return {
-        totalDistance: 0,
-        totalDuration: 0,
-        waypoints: stops.map(stop => ({
-          latitude: stop.latitude,
-          longitude: stop.longitude,
-          address: stop.address,
-          estimatedArrival: new Date().toISOString(),
-        })),
-        polyline: '',
-      };
+  async reverseGeocode(point: Coordinates): Promise<ReverseGeocodeMatch | null> {
+    if (!this.apiKey) {
+      throw new Error('Google Maps API key not configured');
     }
 
-    // Actually optimize the route order using a simple nearest neighbor algorithm
-    const optimizedStops = this.optimizeStopOrder(stops);
-    
-    // Calculate realistic distances between consecutive stops using Haversine formula
-    let totalDistance = 0;
-    let totalDuration = 0;
-    const waypoints: Array<{
-      latitude: number;
-      longitude: number;
-      address: string;
-      estimatedArrival: string;
-    }> = [];
-    let currentTime = Date.now();
-
-    let cumulativeDuration = 0; // Track duration up to each stop
-    
-    for (let i = 0; i < optimizedStops.length; i++) {
-      const stop = optimizedStops[i];
-      
-      // Calculate estimated arrival time using cumulative duration up to this stop
-      const estimatedArrival = new Date(currentTime + (cumulativeDuration * 1000));
-      
-      waypoints.push({
-        latitude: stop.latitude,
-        longitude: stop.longitude,
-        address: stop.address,
-        estimatedArrival: estimatedArrival.toISOString(),
+    try {
+      const params = new URLSearchParams({
+        latlng: `${point.latitude},${point.longitude}`,
+        key: this.apiKey,
       });
-      
-      // Calculate distance to next stop (if not the last stop)
-      if (i < optimizedStops.length - 1) {
-        const nextStop = optimizedStops[i + 1];
-        const distance = this.calculateHaversineDistance(
-          stop.latitude, stop.longitude,
-          nextStop.latitude, nextStop.longitude
-        );
-        totalDistance += distance;
-        
-        // Estimate travel time based on distance
-        const AVERAGE_SPEED_KMH = 30; // Average city driving speed
-        const distanceKm = distance / 1000; // Convert meters to kilometers
-        const travelTimeHours = distanceKm / AVERAGE_SPEED_KMH; // Time in hours
-        const travelTimeSeconds = Math.round(travelTimeHours * 3600); // Convert to seconds
-        cumulativeDuration += travelTimeSeconds;
-        
-        // Add stop/loading time at the next stop (except for last stop)
-        const STOP_LOADING_TIME_MINUTES = 5; // Time spent at each stop for loading/unloading
-        if (i < optimizedStops.length - 2) {
-          cumulativeDuration += STOP_LOADING_TIME_MINUTES * 60; 
-        }
-      }
-    }
 
-    return {
-      totalDistance: Math.round(totalDistance), // Keep in meters
-      totalDuration: cumulativeDuration,
-      waypoints,
-      polyline: '',
-    };
-  }
-
-  private optimizeStopOrder(stops: Array<{ latitude: number; longitude: number; address: string }>): Array<{ latitude: number; longitude: number; address: string }> {
-    if (stops.length <= 2) {
-      return stops; // No optimization needed for 1-2 stops
-    }
+      const response = await axios.get<GoogleGeocodeResponse>(
+        `${this.baseUrl}/geocode/json?${params}`
+      );
 
-    // Simple nearest neighbor algorithm for route optimization
-    const optimizedStops: Array<{ latitude: number; longitude: number; address: string }> = [];
-    const remainingStops = [...stops];
-    
-    // Start with the first stop
-    let currentStop = remainingStops.shift()!;
-    optimizedStops.push(currentStop);
-    
-    // Find the nearest stop to the current one, repeat until all stops are visited
-    while (remainingStops.length > 0) {
-      let nearestStopIndex = 0;
-      let shortestDistance = Infinity;
-      
-      for (let i = 0; i < remainingStops.length; i++) {
-        const distance = this.calculateHaversineDistance(
-          currentStop.latitude, currentStop.longitude,
-          remainingStops[i].latitude, remainingStops[i].longitude
-        );
-        
-        if (distance < shortestDistance) {
-          shortestDistance = distance;
-          nearestStopIndex = i;
-        }
+      if (response.data.status === 'ZERO_RESULTS') {
+        return null;
+      }
+      if (response.data.status !== 'OK' || !response.data.results.length) {
+        throw new Error(`Reverse geocoding failed for ${point.latitude},${point.longitude}`);
       }
-      
-      // Move to the nearest stop
-      currentStop = remainingStops.splice(nearestStopIndex, 1)[0];
-      optimizedStops.push(currentStop);
-    }
-    
-    return optimizedStops;
-  }
 
-  /**
-   * Calculate distance between two points using Haversine formula
-   * Returns distance in meters
-   */
-  private calculateHaversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) * 
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+      const result = response.data.results[0];
+      return {
+        address: result.formatted_address,
+        quality: result.geometry.location_type,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to reverse geocode ${point.latitude},${point.longitude}:`, error);
+      throw error;
+    }
   }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  private buildAvoidString(preferences: {
+    avoidTolls: boolean;
+    avoidHighways: boolean;
+  }): string {
+    const avoids: string[] = [];
+    if (preferences.avoidTolls) avoids.push('tolls');
+    if (preferences.avoidHighways) avoids.push('highways');
+    return avoids.join('|');
   }
 }
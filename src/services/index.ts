@@ -1,3 +1,18 @@
 export * from './google-maps.service';
 export * from './route-optimization.service';
-
+export * from './traffic-condition.service';
+export * from './vehicle-location.service';
+export * from './outbox.service';
+export * from './outbox-relay.service';
+export * from './route-optimization-job.service';
+export * from './fleet-optimization.service';
+export * from './capacity-profile.service';
+export * from './distance-matrix.service';
+export * from './geocoding.service';
+export * from './route-export.service';
+export * from './stop-import.service';
+export * from './eta.service';
+export * from './geofence.service';
+export * from './deviation.service';
+export * from './route-stop.service';
+export * from './route-version.service';
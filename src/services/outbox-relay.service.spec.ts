@@ -0,0 +1,209 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OutboxEvent, OutboxEventStatus } from '@prisma/client';
+import { KafkaService } from '@yatms/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxRelayService } from './outbox-relay.service';
+
+let nextSequence = 0n;
+
+const outboxEvent = (
+  id: string,
+  partitionKey: string,
+  overrides: Partial<OutboxEvent> = {},
+): OutboxEvent => ({
+  id,
+  topic: 'route-optimization-events',
+  eventType: 'ROUTE_OPTIMIZED',
+  partitionKey,
+  payload: { eventId: id },
+  status: OutboxEventStatus.PENDING,
+  attempts: 0,
+  lastError: null,
+  nextAttemptAt: new Date(0),
+  deliveredAt: null,
+  sequence: ++nextSequence,
+  lockedUntil: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const backingOff = { nextAttemptAt: new Date(Date.now() + 60000) };
+
+describe('OutboxRelayService', () => {
+  let relay: OutboxRelayService;
+  let table: OutboxEvent[];
+  let claim: jest.Mock;
+  let publishEvent: jest.Mock;
+
+  beforeEach(async () => {
+    table = [];
+    // Stands in for the claim query: the oldest due, unleased events whose
+    // key has no earlier pending event, up to the LIMIT the query was given
+    claim = jest.fn((query: TemplateStringsArray, ...values: unknown[]) => {
+      const now = Date.now();
+      const limit = values[values.length - 1] as number;
+      const pending = table.filter(
+        (event) => event.status === OutboxEventStatus.PENDING,
+      );
+      const claimed = pending
+        .filter(
+          (event) =>
+            event.nextAttemptAt.getTime() <= now &&
+            (!event.lockedUntil || event.lockedUntil.getTime() < now) &&
+            !pending.some(
+              (earlier) =>
+                earlier.partitionKey === event.partitionKey &&
+                earlier.sequence < event.sequence,
+            ),
+        )
+        .slice(0, limit);
+      claimed.forEach((event) => {
+        event.lockedUntil = values[0] as Date;
+      });
+      return Promise.resolve([...claimed].reverse());
+    });
+    const update = jest.fn(
+      ({ where, data }: { where: { id: string }; data: object }) => {
+        Object.assign(
+          table.find((event) => event.id === where.id)!,
+          data,
+        );
+        return Promise.resolve({});
+      },
+    );
+    publishEvent = jest.fn().mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxRelayService,
+        {
+          provide: PrismaService,
+          useValue: {
+            outboxEvent: { update },
+            $transaction: (work: (tx: unknown) => Promise<unknown>) =>
+              work({ $executeRaw: jest.fn(), $queryRaw: claim }),
+          },
+        },
+        { provide: KafkaService, useValue: { publishEvent } },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              ({ OUTBOX_MAX_ATTEMPTS: '2', OUTBOX_BATCH_SIZE: '3' })[key],
+          },
+        },
+      ],
+    }).compile();
+
+    relay = module.get(OutboxRelayService);
+  });
+
+  const published = () =>
+    publishEvent.mock.calls.map(
+      ([, payload]: [string, { eventId: string }]) => payload.eventId,
+    );
+
+  it('delivers pending events and marks them delivered', async () => {
+    table.push(outboxEvent('a', 'vehicle-1'), outboxEvent('b', 'vehicle-2'));
+
+    const result = await relay.relayPendingEvents();
+
+    expect(result).toEqual({ delivered: 2, failed: 0 });
+    expect(publishEvent).toHaveBeenCalledWith('route-optimization-events', {
+      eventId: 'a',
+    });
+    expect(table[0]).toMatchObject({
+      status: OutboxEventStatus.DELIVERED,
+      lockedUntil: null,
+    });
+  });
+
+  it('only claims events that are due and head their key', async () => {
+    table.push(outboxEvent('a', 'vehicle-1'));
+
+    await relay.relayPendingEvents();
+
+    const [query] = claim.mock.calls[0] as [TemplateStringsArray];
+    const sql = query.join('?');
+    expect(sql).toContain('"nextAttemptAt" <= ?');
+    expect(sql).not.toContain('"earlier"."lockedUntil"');
+  });
+
+  it('holds back later events for a vehicle whose earlier event failed', async () => {
+    table.push(
+      outboxEvent('a', 'vehicle-1'),
+      outboxEvent('b', 'vehicle-1'),
+      outboxEvent('c', 'vehicle-2'),
+    );
+    publishEvent.mockRejectedValueOnce(new Error('broker down'));
+
+    const result = await relay.relayPendingEvents();
+
+    expect(result).toEqual({ delivered: 1, failed: 1 });
+    expect(published()).toEqual(['a', 'c']);
+    expect(table[0]).toMatchObject({
+      status: OutboxEventStatus.PENDING,
+      attempts: 1,
+      lockedUntil: null,
+    });
+  });
+
+  it('keeps delivering other vehicles while one backs off', async () => {
+    // More events of the backing-off vehicle than fit in a batch, all ahead
+    // of everyone else's
+    table.push(
+      outboxEvent('a', 'vehicle-1', backingOff),
+      ...['b', 'c', 'd', 'e'].map((id) => outboxEvent(id, 'vehicle-1')),
+      outboxEvent('f', 'vehicle-2'),
+      outboxEvent('g', 'vehicle-3'),
+    );
+
+    const result = await relay.relayPendingEvents();
+
+    expect(result).toEqual({ delivered: 2, failed: 0 });
+    expect(published()).toEqual(['f', 'g']);
+    // Nothing of the held back vehicle stays leased
+    expect(table.every((event) => event.lockedUntil === null)).toBe(true);
+  });
+
+  it('publishes a vehicle in write order within one run', async () => {
+    table.push(
+      outboxEvent('a', 'vehicle-1'),
+      outboxEvent('b', 'vehicle-2'),
+      outboxEvent('c', 'vehicle-1'),
+    );
+
+    const result = await relay.relayPendingEvents();
+
+    expect(result).toEqual({ delivered: 3, failed: 0 });
+    expect(published()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('stops a run once it has handled a batch', async () => {
+    table.push(
+      ...['a', 'b', 'c', 'd'].map((id, index) =>
+        outboxEvent(id, `vehicle-${index}`),
+      ),
+    );
+
+    const result = await relay.relayPendingEvents();
+
+    expect(result).toEqual({ delivered: 3, failed: 0 });
+    expect(table[3].status).toBe(OutboxEventStatus.PENDING);
+  });
+
+  it('marks an event failed once it runs out of attempts', async () => {
+    table.push(outboxEvent('a', 'vehicle-1', { attempts: 1 }));
+    publishEvent.mockRejectedValueOnce(new Error('broker down'));
+
+    await relay.relayPendingEvents();
+
+    expect(table[0]).toMatchObject({
+      status: OutboxEventStatus.FAILED,
+      attempts: 2,
+      lastError: 'broker down',
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OutboxEvent, OutboxEventStatus } from '@prisma/client';
+import { KafkaService } from '@yatms/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// Advisory lock that serializes claims across relay instances
+const CLAIM_LOCK_KEY = 7_318_204;
+
+/**
+ * Publishes outbox events to Kafka. Events are relayed in write order per
+ * partition key (vehicle); a key whose head event is failing or backing off
+ * holds back its later events until the head is delivered or given up on.
+ * Every instance runs a relay, so each batch is leased before it is published.
+ */
+@Injectable()
+export class OutboxRelayService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly leaseMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private relaying = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private kafkaService: KafkaService,
+    private configService: ConfigService,
+  ) {
+    this.pollIntervalMs = Number(
+      this.configService.get<string>('OUTBOX_POLL_INTERVAL_MS') ?? 1000,
+    );
+    this.batchSize = Number(
+      this.configService.get<string>('OUTBOX_BATCH_SIZE') ?? 100,
+    );
+    this.maxAttempts = Number(
+      this.configService.get<string>('OUTBOX_MAX_ATTEMPTS') ?? 10,
+    );
+    this.leaseMs = Number(
+      this.configService.get<string>('OUTBOX_LEASE_MS') ?? 60000,
+    );
+  }
+
+  onModuleInit() {
+    if (this.configService.get<string>('OUTBOX_RELAY_ENABLED') === 'false') {
+      this.logger.warn(
+        'Outbox relay disabled, route events will not be published',
+      );
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.relayPendingEvents().catch((error) => {
+        this.logger.error('Outbox relay run failed:', error);
+      });
+    }, this.pollIntervalMs);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async relayPendingEvents() {
+    // Skip overlapping runs; the next tick picks up whatever is left
+    if (this.relaying) {
+      return { delivered: 0, failed: 0 };
+    }
+    this.relaying = true;
+
+    try {
+      let delivered = 0;
+      let failed = 0;
+
+      // Each claim takes the next due event of every key, so keep claiming
+      // until the run has handled a batch or nothing more is due
+      while (delivered + failed < this.batchSize) {
+        const claimed = await this.claimPendingEvents(
+          this.batchSize - delivered - failed,
+        );
+        if (claimed.length === 0) {
+          break;
+        }
+
+        for (const event of claimed) {
+          if (await this.publish(event)) {
+            delivered++;
+          } else {
+            failed++;
+          }
+        }
+      }
+
+      return { delivered, failed };
+    } finally {
+      this.relaying = false;
+    }
+  }
+
+  /**
+   * Lease the oldest due events to this instance, at most one per key: an
+   * event is only claimed once no earlier event of its key is pending, so a
+   * key is never published by two instances at once and a key backing off
+   * holds back only its own events.
+   */
+  private async claimPendingEvents(limit: number) {
+    const now = new Date();
+    const leasedUntil = new Date(now.getTime() + this.leaseMs);
+
+    const claimed = await this.prisma.$transaction(async (tx) => {
+      // Claims run one at a time, so each one sees the leases taken before it
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CLAIM_LOCK_KEY}::bigint)`;
+      return tx.$queryRaw<OutboxEvent[]>`
+        UPDATE "outbox_events"
+        SET "lockedUntil" = ${leasedUntil}
+        WHERE "id" IN (
+          SELECT "id" FROM "outbox_events" AS "event"
+          WHERE "status" = 'PENDING'
+            AND "nextAttemptAt" <= ${now}
+            AND ("lockedUntil" IS NULL OR "lockedUntil" < ${now})
+            AND NOT EXISTS (
+              SELECT 1 FROM "outbox_events" AS "earlier"
+              WHERE "earlier"."partitionKey" = "event"."partitionKey"
+                AND "earlier"."status" = 'PENDING'
+                AND "earlier"."sequence" < "event"."sequence"
+            )
+          ORDER BY "sequence"
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *`;
+    });
+
+    // RETURNING keeps no order
+    return claimed.sort((a, b) =>
+      a.sequence < b.sequence ? -1 : a.sequence > b.sequence ? 1 : 0,
+    );
+  }
+
+  private async publish(event: OutboxEvent): Promise<boolean> {
+    try {
+      await this.kafkaService.publishEvent(event.topic, event.payload);
+      await this.prisma.outboxEvent.update({
+        where: { id: event.id },
+        data: {
+          status: OutboxEventStatus.DELIVERED,
+          attempts: event.attempts + 1,
+          deliveredAt: new Date(),
+          lastError: null,
+          lockedUntil: null,
+        },
+      });
+
+      this.logger.log(
+        `Outbox event ${event.id} (${event.eventType}) delivered to ${event.topic}`,
+      );
+      return true;
+    } catch (error) {
+      const attempts = event.attempts + 1;
+      const exhausted = attempts >= this.maxAttempts;
+      const delay = Math.min(
+        BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+        MAX_RETRY_DELAY_MS,
+      );
+      const message = error instanceof Error ? error.message : String(error);
+
+      await this.prisma.outboxEvent.update({
+        where: { id: event.id },
+        data: {
+          status: exhausted
+            ? OutboxEventStatus.FAILED
+            : OutboxEventStatus.PENDING,
+          attempts,
+          lastError: message,
+          nextAttemptAt: new Date(Date.now() + delay),
+          lockedUntil: null,
+        },
+      });
+
+      this.logger.warn(
+        `Failed to deliver outbox event ${event.id} (attempt ${attempts}/${this.maxAttempts}): ${message}`,
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { OutboxEventStatus, Prisma } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface DomainEvent {
+  eventId: string;
+  eventType: string;
+  timestamp: Date;
+  source: string;
+  version: string;
+  data: Record<string, any>;
+}
+
+export function createDomainEvent(
+  eventType: string,
+  data: Record<string, any>,
+): DomainEvent {
+  return {
+    eventId: uuidv4(),
+    eventType,
+    timestamp: new Date(),
+    source: 'traffic-service',
+    version: '1.0',
+    data,
+  };
+}
+
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record an event for the relay to publish. Pass the transaction client so
+   * the event commits (or rolls back) together with the rows it describes.
+   * Events sharing a partition key are delivered in the order they were written.
+   */
+  async enqueue(
+    tx: Prisma.TransactionClient,
+    topic: string,
+    event: DomainEvent,
+    partitionKey: string,
+  ) {
+    await tx.outboxEvent.create({
+      data: {
+        id: event.eventId,
+        topic,
+        eventType: event.eventType,
+        partitionKey,
+        // Round-trip through JSON so dates and nested DTOs are stored as plain JSON
+        payload: JSON.parse(JSON.stringify(event)) as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  async listEvents(status?: OutboxEventStatus) {
+    const events = await this.prisma.outboxEvent.findMany({
+      where: status
+        ? { status }
+        : {
+            status: {
+              in: [OutboxEventStatus.PENDING, OutboxEventStatus.FAILED],
+            },
+          },
+      orderBy: { sequence: 'asc' },
+      // The sequence is a BigInt, which JSON can't carry; it only orders the relay
+      omit: { sequence: true },
+      take: 200,
+    });
+
+    return {
+      events,
+      totalEvents: events.length,
+    };
+  }
+
+  async replayEvent(id: string) {
+    const event = await this.prisma.outboxEvent.findUnique({ where: { id } });
+
+    if (!event) {
+      throw new NotFoundException(`Outbox event ${id} not found`);
+    }
+
+    const replayed = await this.prisma.outboxEvent.update({
+      where: { id },
+      omit: { sequence: true },
+      data: {
+        status: OutboxEventStatus.PENDING,
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    this.logger.log(`Outbox event ${id} queued for replay`);
+    return replayed;
+  }
+
+  async replayFailedEvents() {
+    const { count } = await this.prisma.outboxEvent.updateMany({
+      where: { status: OutboxEventStatus.FAILED },
+      data: {
+        status: OutboxEventStatus.PENDING,
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    this.logger.log(`${count} failed outbox events queued for replay`);
+    return { replayed: count };
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PlannedWaypoint } from '../routing/routing-provider.interface';
+import { decodePolyline } from '../utils/polyline.utils';
+import {
+  ROUTE_EXPORT_CONTENT_TYPES,
+  RouteExportFormat,
+  exportRoute,
+} from '../utils/route-export.utils';
+
+/**
+ * Stored routes as files for navigation apps and GIS tools
+ */
+@Injectable()
+export class RouteExportService {
+  constructor(private prisma: PrismaService) {}
+
+  async exportRoute(routeId: string, format: RouteExportFormat) {
+    const route = await this.prisma.optimizedRoute.findUnique({
+      where: { id: routeId },
+    });
+
+    if (!route) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+
+    const waypoints = route.waypoints as PlannedWaypoint[];
+    const content = exportRoute(
+      {
+        id: route.id,
+        vehicleId: route.vehicleId,
+        totalDistance: route.totalDistance,
+        totalDuration: route.totalDuration,
+        routingProvider: route.routingProvider,
+        createdAt: route.createdAt,
+        waypoints,
+        path: route.polyline ? decodePolyline(route.polyline) : waypoints,
+      },
+      format,
+    );
+
+    return {
+      content,
+      contentType: ROUTE_EXPORT_CONTENT_TYPES[format],
+      filename: `route-${route.id}.${format}`,
+    };
+  }
+}
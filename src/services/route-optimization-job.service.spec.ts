@@ -0,0 +1,264 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RouteOptimizationStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OptimizeRouteInputDto } from '../dto/optimize-route.dto';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { RouteOptimizationJobService } from './route-optimization-job.service';
+import { RouteOptimizationService } from './route-optimization.service';
+
+const requestDto = {
+  vehicleId: 'truck-7',
+  stops: [
+    { latitude: 52.52, longitude: 13.405, address: 'Depot' },
+    { latitude: 52.5, longitude: 13.4, address: 'Customer' },
+  ],
+} as OptimizeRouteInputDto;
+
+// Let queued workers run up to their next pending await
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('RouteOptimizationJobService', () => {
+  let service: RouteOptimizationJobService;
+  let requests: Record<string, jest.Mock>;
+  let runOptimization: jest.Mock;
+  let broadcastRouteOptimizationFailed: jest.Mock;
+  let finishRuns: Array<() => void>;
+  let nextRequestId: number;
+
+  beforeEach(async () => {
+    finishRuns = [];
+    nextRequestId = 0;
+    requests = {
+      count: jest.fn().mockResolvedValue(0),
+      findMany: jest.fn().mockResolvedValue([]),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(({ where }: { where: { id: string } }) =>
+        Promise.resolve({
+          id: where.id,
+          userId: 'user-1',
+          capacity: null,
+          ...requestDto,
+        }),
+      ),
+      // Every claim succeeds unless a test says otherwise
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    };
+    // Optimizations run until the test lets them finish
+    runOptimization = jest.fn(
+      () => new Promise<void>((resolve) => finishRuns.push(resolve)),
+    );
+    broadcastRouteOptimizationFailed = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteOptimizationJobService,
+        {
+          provide: PrismaService,
+          useValue: { routeOptimizationRequest: requests },
+        },
+        {
+          provide: RouteOptimizationService,
+          useValue: {
+            prepareRequest: (dto: OptimizeRouteInputDto) =>
+              Promise.resolve({ optimizeRouteDto: dto, geocodingWarnings: [] }),
+            createOptimizationRequest: () =>
+              Promise.resolve(`request-${++nextRequestId}`),
+            runOptimization,
+          },
+        },
+        {
+          provide: RouteOptimizationGateway,
+          useValue: {
+            broadcastRouteOptimizationQueued: jest.fn(),
+            broadcastRouteOptimizationRequested: jest.fn(),
+            broadcastRouteOptimizationCancelled: jest.fn(),
+            broadcastRouteOptimizationFailed,
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            OPTIMIZATION_WORKER_CONCURRENCY: '2',
+            OPTIMIZATION_MAX_RUNNING_PER_USER: '1',
+            OPTIMIZATION_MAX_ACTIVE_PER_USER: '3',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get(RouteOptimizationJobService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  const updateManyCall = (index: number) =>
+    requests.updateMany.mock.calls[index] as [
+      { where: Record<string, unknown>; data: Record<string, unknown> },
+    ];
+
+  it('runs one job at a time per user within the worker pool', async () => {
+    await service.submit(requestDto, 'user-1');
+    await service.submit(requestDto, 'user-1');
+    await service.submit(requestDto, 'user-2');
+    await flush();
+
+    // user-1's second job waits although a worker is free for user-2
+    expect(runOptimization).toHaveBeenCalledTimes(2);
+    expect(runOptimization).toHaveBeenCalledWith(
+      'request-1',
+      expect.anything(),
+    );
+    expect(runOptimization).toHaveBeenCalledWith(
+      'request-3',
+      expect.anything(),
+    );
+    expect(service.getQueueStats()).toMatchObject({ queued: 1, running: 2 });
+
+    finishRuns[0]();
+    await flush();
+
+    expect(runOptimization).toHaveBeenLastCalledWith(
+      'request-2',
+      expect.objectContaining({ vehicleId: 'truck-7' }),
+    );
+  });
+
+  it('refuses new jobs once a user has too many active ones', async () => {
+    requests.count.mockResolvedValue(3);
+
+    await expect(service.submit(requestDto, 'user-1')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(runOptimization).not.toHaveBeenCalled();
+  });
+
+  it('skips a job it could not claim', async () => {
+    requests.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await service.submit(requestDto, 'user-1');
+    await flush();
+
+    const [{ where, data }] = updateManyCall(0);
+    expect(where).toEqual({
+      id: 'request-1',
+      status: RouteOptimizationStatus.PENDING,
+    });
+    expect(data.status).toBe(RouteOptimizationStatus.PROCESSING);
+    expect(data.leaseExpiresAt).toBeInstanceOf(Date);
+    expect(runOptimization).not.toHaveBeenCalled();
+    expect(service.getQueueStats().running).toBe(0);
+  });
+
+  it('drops a cancelled job from the queue', async () => {
+    await service.submit(requestDto, 'user-1');
+    await service.submit(requestDto, 'user-1');
+    await flush();
+    requests.findUnique.mockResolvedValue({
+      id: 'request-2',
+      userId: 'user-1',
+      status: RouteOptimizationStatus.PENDING,
+    });
+
+    await service.cancel('request-2', 'user-1', ['driver']);
+    finishRuns[0]();
+    await flush();
+
+    expect(service.getQueueStats().queued).toBe(0);
+    expect(runOptimization).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses to cancel a job that already finished', async () => {
+    requests.findUnique.mockResolvedValue({
+      id: 'request-1',
+      userId: 'user-1',
+      status: RouteOptimizationStatus.COMPLETED,
+    });
+    requests.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.cancel('request-1', 'user-1', ['driver']),
+    ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+  });
+
+  it('fails a claimed job whose request cannot be loaded', async () => {
+    requests.findUniqueOrThrow.mockRejectedValueOnce(new Error('gone'));
+
+    await service.submit(requestDto, 'user-1');
+    await flush();
+
+    expect(requests.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'request-1', status: RouteOptimizationStatus.PROCESSING },
+      data: {
+        status: RouteOptimizationStatus.FAILED,
+        completedAt: expect.any(Date),
+      },
+    });
+    expect(broadcastRouteOptimizationFailed).toHaveBeenCalledWith(
+      'request-1',
+      expect.any(Error),
+    );
+    expect(runOptimization).not.toHaveBeenCalled();
+  });
+
+  it('re-queues interrupted and pending jobs on startup', async () => {
+    requests.findMany
+      .mockResolvedValueOnce([{ id: 'request-8', userId: 'user-1' }])
+      .mockResolvedValueOnce([{ id: 'request-9', userId: 'user-2' }]);
+
+    await service.onModuleInit();
+    await flush();
+
+    // Jobs whose lease ran out, and unleased ones that went stale
+    const [{ where, data }] = updateManyCall(0);
+    expect(where).toMatchObject({
+      status: RouteOptimizationStatus.PROCESSING,
+      id: { in: ['request-8'] },
+    });
+    expect(where.OR).toHaveLength(2);
+    expect(data).toEqual({
+      status: RouteOptimizationStatus.PENDING,
+      leaseExpiresAt: null,
+    });
+    expect(runOptimization.mock.calls.map(([id]) => id as string)).toEqual([
+      'request-8',
+      'request-9',
+    ]);
+  });
+
+  it('re-queues a job whose worker stopped just before a restart', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    // At startup the stopped worker's lease hasn't run out yet
+    await service.onModuleInit();
+    expect(runOptimization).not.toHaveBeenCalled();
+
+    requests.findMany.mockResolvedValueOnce([
+      { id: 'request-9', userId: 'user-1' },
+    ]);
+    jest.advanceTimersByTime(20 * 1000);
+    await flush();
+
+    expect(runOptimization).toHaveBeenCalledWith(
+      'request-9',
+      expect.objectContaining({ vehicleId: 'truck-7' }),
+    );
+  });
+
+  it('renews the leases of the jobs it runs', async () => {
+    await service.submit(requestDto, 'user-1');
+    await flush();
+
+    await service.maintainLeases();
+
+    const [{ where, data }] = updateManyCall(1);
+    expect(where).toEqual({
+      id: { in: ['request-1'] },
+      status: RouteOptimizationStatus.PROCESSING,
+    });
+    expect(data.leaseExpiresAt).toBeInstanceOf(Date);
+  });
+});
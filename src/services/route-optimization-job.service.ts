@@ -0,0 +1,404 @@
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, RouteOptimizationStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import {
+  OptimizationCancelledException,
+  RouteOptimizationService,
+} from './route-optimization.service';
+import {
+  OptimizeRouteInputDto,
+  OptimizeRouteRequestDto,
+} from '../dto/optimize-route.dto';
+
+interface QueuedJob {
+  requestId: string;
+  userId: string;
+}
+
+// A worker holds a lease on each job it runs and renews it while the job
+// runs, so a job whose lease ran out was left behind by a worker that stopped
+const DEFAULT_JOB_LEASE_SECONDS = 60;
+// Requests optimized synchronously hold no lease; one still PROCESSING this
+// long after it last changed was left behind as well
+const DEFAULT_STALE_JOB_SECONDS = 600;
+
+const ACTIVE_STATUSES: RouteOptimizationStatus[] = [
+  RouteOptimizationStatus.PENDING,
+  RouteOptimizationStatus.PROCESSING,
+];
+
+/**
+ * Runs route optimizations in the background for async requests. Jobs are
+ * stored as PENDING and processed by a bounded pool of workers, with a cap
+ * on how many jobs a single user can have running at once. Jobs left behind
+ * by a stopped worker, on this instance or another, are queued again.
+ */
+@Injectable()
+export class RouteOptimizationJobService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(RouteOptimizationJobService.name);
+  private readonly queue: QueuedJob[] = [];
+  private readonly runningPerUser = new Map<string, number>();
+  private readonly runningJobs = new Set<string>();
+  private running = 0;
+  private readonly concurrency: number;
+  private readonly maxRunningPerUser: number;
+  private readonly maxActivePerUser: number;
+  private readonly leaseSeconds: number;
+  private readonly staleJobSeconds: number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private prisma: PrismaService,
+    private routeOptimizationService: RouteOptimizationService,
+    private routeOptimizationGateway: RouteOptimizationGateway,
+    private configService: ConfigService,
+  ) {
+    this.concurrency = Number(
+      this.configService.get<string>('OPTIMIZATION_WORKER_CONCURRENCY') ?? 4,
+    );
+    this.maxRunningPerUser = Number(
+      this.configService.get<string>('OPTIMIZATION_MAX_RUNNING_PER_USER') ?? 2,
+    );
+    this.maxActivePerUser = Number(
+      this.configService.get<string>('OPTIMIZATION_MAX_ACTIVE_PER_USER') ?? 20,
+    );
+    this.leaseSeconds = Number(
+      this.configService.get<string>('OPTIMIZATION_JOB_LEASE_SECONDS') ??
+        DEFAULT_JOB_LEASE_SECONDS,
+    );
+    this.staleJobSeconds = Number(
+      this.configService.get<string>('OPTIMIZATION_STALE_JOB_SECONDS') ??
+        DEFAULT_STALE_JOB_SECONDS,
+    );
+  }
+
+  async onModuleInit() {
+    // Pick up jobs that were still waiting when the service last stopped, and
+    // run again the ones a stopped worker had claimed but never finished
+    try {
+      await this.requeueAbandonedJobs();
+
+      const pending = await this.prisma.routeOptimizationRequest.findMany({
+        where: { status: RouteOptimizationStatus.PENDING },
+        select: { id: true, userId: true },
+        orderBy: { requestedAt: 'asc' },
+      });
+
+      this.enqueue(pending);
+      if (pending.length > 0) {
+        this.logger.log(
+          `Recovered ${pending.length} pending optimization jobs`,
+        );
+        this.drain();
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to recover pending optimization jobs: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    // Renew often enough that a lease never runs out while its job runs
+    this.timer = setInterval(
+      () => {
+        this.maintainLeases().catch((error) => {
+          this.logger.error('Optimization job lease upkeep failed:', error);
+        });
+      },
+      (this.leaseSeconds * 1000) / 3,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Extend the leases of the jobs running here, then queue again the jobs
+   * whose workers stopped
+   */
+  async maintainLeases() {
+    if (this.runningJobs.size > 0) {
+      await this.prisma.routeOptimizationRequest.updateMany({
+        where: {
+          id: { in: [...this.runningJobs] },
+          status: RouteOptimizationStatus.PROCESSING,
+        },
+        data: { leaseExpiresAt: this.leaseExpiry() },
+      });
+    }
+
+    await this.requeueAbandonedJobs();
+  }
+
+  private async requeueAbandonedJobs() {
+    const now = new Date();
+    const abandoned: Prisma.RouteOptimizationRequestWhereInput = {
+      status: RouteOptimizationStatus.PROCESSING,
+      OR: [
+        { leaseExpiresAt: { lt: now } },
+        {
+          leaseExpiresAt: null,
+          updatedAt: {
+            lt: new Date(now.getTime() - this.staleJobSeconds * 1000),
+          },
+        },
+      ],
+    };
+
+    const jobs = await this.prisma.routeOptimizationRequest.findMany({
+      where: abandoned,
+      select: { id: true, userId: true },
+      orderBy: { requestedAt: 'asc' },
+    });
+    if (jobs.length === 0) {
+      return;
+    }
+
+    // Another instance may re-queue the same jobs; only one of them claims each
+    const { count } = await this.prisma.routeOptimizationRequest.updateMany({
+      where: { ...abandoned, id: { in: jobs.map((job) => job.id) } },
+      data: { status: RouteOptimizationStatus.PENDING, leaseExpiresAt: null },
+    });
+    if (count > 0) {
+      this.logger.warn(`Re-queued ${count} interrupted optimization jobs`);
+    }
+
+    this.enqueue(jobs);
+    this.drain();
+  }
+
+  private enqueue(requests: Array<{ id: string; userId: string }>) {
+    for (const request of requests) {
+      if (
+        !this.runningJobs.has(request.id) &&
+        !this.queue.some((job) => job.requestId === request.id)
+      ) {
+        this.queue.push({ requestId: request.id, userId: request.userId });
+      }
+    }
+  }
+
+  private leaseExpiry() {
+    return new Date(Date.now() + this.leaseSeconds * 1000);
+  }
+
+  async submit(requestDto: OptimizeRouteInputDto, userId: string) {
+    const activeJobs = await this.prisma.routeOptimizationRequest.count({
+      where: { userId, status: { in: ACTIVE_STATUSES } },
+    });
+    if (activeJobs >= this.maxActivePerUser) {
+      throw new HttpException(
+        `Too many active optimization jobs (limit ${this.maxActivePerUser})`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    // Refuse unknown addresses and plans the vehicle can't carry before they are queued
+    const { optimizeRouteDto, geocodingWarnings } =
+      await this.routeOptimizationService.prepareRequest(requestDto);
+    const requestId =
+      await this.routeOptimizationService.createOptimizationRequest(
+        optimizeRouteDto,
+        userId,
+        RouteOptimizationStatus.PENDING,
+      );
+
+    // Broadcast WebSocket update
+    this.routeOptimizationGateway.broadcastRouteOptimizationQueued(requestId, {
+      vehicleId: optimizeRouteDto.vehicleId,
+      userId,
+    });
+
+    this.queue.push({ requestId, userId });
+    this.drain();
+
+    return {
+      requestId,
+      status: RouteOptimizationStatus.PENDING,
+      statusUrl: `/traffic/routes/status/${requestId}`,
+      ...(geocodingWarnings.length > 0 && { geocodingWarnings }),
+    };
+  }
+
+  async cancel(requestId: string, userId: string, roles: string[]) {
+    const request = await this.prisma.routeOptimizationRequest.findUnique({
+      where: { id: requestId },
+    });
+
+    if (!request) {
+      throw new NotFoundException(
+        `Route optimization request ${requestId} not found`,
+      );
+    }
+
+    const isPrivileged =
+      roles.includes('admin') || roles.includes('fleet_manager');
+    if (request.userId !== userId && !isPrivileged) {
+      throw new ForbiddenException(
+        'Unauthorized access to route optimization request',
+      );
+    }
+
+    // A PROCESSING job keeps running, but its result is discarded when it finishes
+    const { count } = await this.prisma.routeOptimizationRequest.updateMany({
+      where: { id: requestId, status: { in: ACTIVE_STATUSES } },
+      data: {
+        status: RouteOptimizationStatus.CANCELLED,
+        completedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new HttpException(
+        `Route optimization request ${requestId} is already ${request.status}`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const queuedIndex = this.queue.findIndex(
+      (job) => job.requestId === requestId,
+    );
+    if (queuedIndex >= 0) {
+      this.queue.splice(queuedIndex, 1);
+    }
+
+    // Broadcast WebSocket update
+    this.routeOptimizationGateway.broadcastRouteOptimizationCancelled(
+      requestId,
+    );
+
+    return {
+      requestId,
+      status: RouteOptimizationStatus.CANCELLED,
+      cancelledAt: new Date().toISOString(),
+    };
+  }
+
+  getQueueStats() {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      concurrency: this.concurrency,
+    };
+  }
+
+  private drain() {
+    while (this.running < this.concurrency) {
+      // Take the oldest job whose owner is still under their running limit
+      const index = this.queue.findIndex(
+        (job) =>
+          (this.runningPerUser.get(job.userId) ?? 0) < this.maxRunningPerUser,
+      );
+      if (index < 0) {
+        return;
+      }
+
+      const [job] = this.queue.splice(index, 1);
+      this.running++;
+      this.runningJobs.add(job.requestId);
+      this.runningPerUser.set(
+        job.userId,
+        (this.runningPerUser.get(job.userId) ?? 0) + 1,
+      );
+
+      this.process(job)
+        .catch((error) => {
+          this.logger.error(`Optimization job ${job.requestId} failed:`, error);
+        })
+        .finally(() => {
+          this.running--;
+          this.runningJobs.delete(job.requestId);
+          const userRunning = (this.runningPerUser.get(job.userId) ?? 1) - 1;
+          if (userRunning > 0) {
+            this.runningPerUser.set(job.userId, userRunning);
+          } else {
+            this.runningPerUser.delete(job.userId);
+          }
+          this.drain();
+        });
+    }
+  }
+
+  private async process(job: QueuedJob) {
+    // Claim the job; if it was cancelled (or claimed elsewhere) there is nothing to do
+    const { count } = await this.prisma.routeOptimizationRequest.updateMany({
+      where: { id: job.requestId, status: RouteOptimizationStatus.PENDING },
+      data: {
+        status: RouteOptimizationStatus.PROCESSING,
+        leaseExpiresAt: this.leaseExpiry(),
+      },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    // The job is claimed now, so it must not be left PROCESSING if it can't start
+    let optimizeRouteDto: OptimizeRouteRequestDto;
+    try {
+      const request =
+        await this.prisma.routeOptimizationRequest.findUniqueOrThrow({
+          where: { id: job.requestId },
+        });
+      optimizeRouteDto = {
+        vehicleId: request.vehicleId,
+        stops: request.stops,
+        preferences: request.preferences,
+        capacity: request.capacity ?? undefined,
+      } as OptimizeRouteRequestDto;
+
+      // Broadcast WebSocket update
+      this.routeOptimizationGateway.broadcastRouteOptimizationRequested(
+        job.requestId,
+        {
+          vehicleId: request.vehicleId,
+          userId: request.userId,
+          status: 'PROCESSING',
+        },
+      );
+    } catch (error) {
+      await this.prisma.routeOptimizationRequest.updateMany({
+        where: {
+          id: job.requestId,
+          status: RouteOptimizationStatus.PROCESSING,
+        },
+        data: {
+          status: RouteOptimizationStatus.FAILED,
+          completedAt: new Date(),
+        },
+      });
+      this.routeOptimizationGateway.broadcastRouteOptimizationFailed(
+        job.requestId,
+        error,
+      );
+      throw error;
+    }
+
+    try {
+      await this.routeOptimizationService.runOptimization(
+        job.requestId,
+        optimizeRouteDto,
+      );
+    } catch (error) {
+      // Failures are recorded and broadcast by runOptimization; cancellation is expected
+      if (!(error instanceof OptimizationCancelledException)) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,352 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RouteUpdateReason } from '@prisma/client';
+import { KafkaService } from '@yatms/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RoutingService } from '../routing/routing.service';
+import { RouteStop } from '../routing/routing-provider.interface';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { CapacityProfileService } from './capacity-profile.service';
+import { GeocodingService } from './geocoding.service';
+import { GoogleMapsService } from './google-maps.service';
+import { OutboxService } from './outbox.service';
+import {
+  RouteChangedException,
+  RouteOptimizationService,
+  StoredWaypoint,
+} from './route-optimization.service';
+import { TrafficConditionService } from './traffic-condition.service';
+
+const stops: RouteStop[] = [
+  { latitude: 52.52, longitude: 13.405, address: 'Depot' },
+  { latitude: 52.5, longitude: 13.42, address: 'Customer A' },
+  { latitude: 52.49, longitude: 13.39, address: 'Customer B' },
+];
+
+const preferences = (optimizeFor: 'time' | 'distance' | 'fuel') => ({
+  avoidTolls: false,
+  avoidHighways: false,
+  optimizeFor,
+});
+
+const plannedRoute = (totalDistance: number, totalDuration: number) => ({
+  totalDistance,
+  totalDuration,
+  waypoints: stops.map((stop) => ({
+    ...stop,
+    estimatedArrival: '2026-10-18T09:00:00.000Z',
+  })),
+  polyline: null,
+  trafficIncidents: [],
+  provider: 'haversine' as const,
+});
+
+const at = (minutes: number) =>
+  new Date(
+    Date.parse('2026-10-18T09:00:00.000Z') + minutes * 60 * 1000,
+  ).toISOString();
+
+// A route whose pickup has been served, with a break and its delivery ahead
+const storedRoute = () => ({
+  id: 'route-1',
+  vehicleId: 'truck-7',
+  version: 2,
+  revision: 5,
+  routingProvider: 'haversine',
+  request: {
+    preferences: preferences('time'),
+    routeMode: null,
+    capacity: null,
+  },
+  waypoints: [
+    { ...stops[0], stopId: 'stop-depot', estimatedArrival: at(0) },
+    {
+      latitude: 52.51,
+      longitude: 13.41,
+      address: 'Pickup',
+      stopId: 'stop-pickup',
+      estimatedArrival: at(10),
+      shipmentId: 'shipment-1',
+      stopType: 'pickup',
+      demand: { pallets: 2 },
+    },
+    { ...stops[1], stopId: 'stop-a', estimatedArrival: at(30) },
+    {
+      latitude: 52.5,
+      longitude: 13.4,
+      address: 'Break',
+      estimatedArrival: at(40),
+      type: 'BREAK',
+    },
+    {
+      latitude: 52.48,
+      longitude: 13.38,
+      address: 'Delivery',
+      stopId: 'stop-delivery',
+      estimatedArrival: at(60),
+      shipmentId: 'shipment-1',
+      stopType: 'delivery',
+    },
+    { ...stops[2], stopId: 'stop-b', estimatedArrival: at(80) },
+  ] as StoredWaypoint[],
+});
+
+const currentLocation = { latitude: 52.505, longitude: 13.415 };
+
+describe('RouteOptimizationService', () => {
+  let service: RouteOptimizationService;
+  let optimizeRoute: jest.Mock;
+  let prisma: Record<string, jest.Mock | Record<string, jest.Mock>>;
+  let updateMany: jest.Mock;
+  let enqueue: jest.Mock;
+  let broadcastRouteUpdated: jest.Mock;
+
+  beforeEach(async () => {
+    optimizeRoute = jest.fn();
+    updateMany = jest.fn().mockResolvedValue({ count: 1 });
+    prisma = {
+      routeOptimizationRequest: { create: jest.fn(), update: jest.fn() },
+      optimizedRoute: {
+        create: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(storedRoute()),
+        updateMany,
+      },
+      routeUpdate: { create: jest.fn().mockResolvedValue({ id: 'update-1' }) },
+      routeVersion: { create: jest.fn() },
+    };
+    prisma.$transaction = jest.fn((work: (tx: unknown) => Promise<unknown>) =>
+      work(prisma),
+    );
+    enqueue = jest.fn();
+    broadcastRouteUpdated = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteOptimizationService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: GoogleMapsService, useValue: {} },
+        {
+          provide: RoutingService,
+          useValue: { optimizeRoute, resolveDriverRules: () => undefined },
+        },
+        { provide: KafkaService, useValue: {} },
+        {
+          provide: RouteOptimizationGateway,
+          useValue: {
+            broadcastRouteUpdateRequested: jest.fn(),
+            broadcastRouteUpdated,
+          },
+        },
+        {
+          provide: TrafficConditionService,
+          useValue: { findActiveIncidents: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: OutboxService, useValue: { enqueue } },
+        {
+          provide: CapacityProfileService,
+          useValue: {
+            resolveCapacity: jest.fn().mockResolvedValue(undefined),
+            assertWithinCapacity: jest.fn(),
+          },
+        },
+        {
+          provide: GeocodingService,
+          useValue: {
+            geocodeStops: (input: RouteStop[]) =>
+              Promise.resolve({ stops: input, warnings: [] }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(RouteOptimizationService);
+  });
+
+  describe('compareRoutes', () => {
+    it('plans every variant and names the best one per measure', async () => {
+      optimizeRoute
+        .mockResolvedValueOnce(plannedRoute(12000, 1800))
+        .mockResolvedValueOnce(plannedRoute(10000, 2400))
+        .mockRejectedValueOnce(new Error('No route found'));
+
+      const comparison = await service.compareRoutes({
+        vehicleId: 'truck-7',
+        stops,
+        variants: [
+          { name: 'fastest', preferences: preferences('time') },
+          { name: 'shortest', preferences: preferences('distance') },
+          { name: 'greenest', preferences: preferences('fuel') },
+        ],
+      });
+
+      expect(optimizeRoute).toHaveBeenCalledTimes(3);
+      expect(optimizeRoute).toHaveBeenNthCalledWith(
+        2,
+        stops,
+        expect.objectContaining({ optimizeFor: 'distance' }),
+        [],
+      );
+      expect(comparison.variants.map((variant) => variant.name)).toEqual([
+        'fastest',
+        'shortest',
+        'greenest',
+      ]);
+      // The variant that failed is reported without hiding the others
+      expect(comparison.variants[2]).toMatchObject({
+        error: 'No route found',
+      });
+      expect(comparison.best).toEqual({
+        distance: 'shortest',
+        duration: 'fastest',
+        // Ten minutes less of the driver outweighs the extra fuel
+        cost: 'fastest',
+        co2: 'shortest',
+      });
+    });
+
+    it('stores and publishes nothing', async () => {
+      optimizeRoute.mockResolvedValue(plannedRoute(10000, 1800));
+
+      await service.compareRoutes({
+        vehicleId: 'truck-7',
+        stops,
+        variants: [
+          { name: 'fastest', preferences: preferences('time') },
+          { name: 'shortest', preferences: preferences('distance') },
+        ],
+      });
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      for (const model of [
+        prisma.routeOptimizationRequest,
+        prisma.optimizedRoute,
+        prisma.routeUpdate,
+        prisma.routeVersion,
+      ]) {
+        for (const method of Object.values(model)) {
+          expect(method).not.toHaveBeenCalled();
+        }
+      }
+      expect(enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRoute', () => {
+    beforeEach(() => {
+      // Plans the stops in the order given
+      optimizeRoute.mockImplementation((replanStops: RouteStop[]) =>
+        Promise.resolve({
+          ...plannedRoute(8000, 1500),
+          waypoints: replanStops.map((stop, index) => ({
+            ...stop,
+            estimatedArrival: at(45 + index * 10),
+          })),
+        }),
+      );
+    });
+
+    const replan = (
+      reason: RouteUpdateReason = RouteUpdateReason.DRIVER_REQUEST,
+    ) =>
+      service.updateRoute(
+        'route-1',
+        { currentLocation, reason, completedWaypoints: [1, 2] },
+        'truck-7',
+      );
+
+    it('re-plans the stops still ahead from the current location', async () => {
+      await replan();
+
+      const [replanStops, replanPreferences] = optimizeRoute.mock.calls[0] as [
+        RouteStop[],
+        Record<string, unknown>,
+      ];
+      // Served stops and breaks are left out; the destination stays last
+      expect(replanStops.map((stop) => stop.address)).toEqual([
+        'Current location',
+        'Delivery',
+        'Customer B',
+      ]);
+      expect(replanPreferences).toMatchObject({
+        routeMode: 'fixedEnd',
+        routingProvider: 'haversine',
+        shiftStart: at(0),
+      });
+      // The shipment is on board, so its delivery is a plain drop-off
+      expect(replanStops[1]).toMatchObject({
+        stopId: 'stop-delivery',
+        demand: { pallets: 2 },
+      });
+      expect(replanStops[1].stopType).toBeUndefined();
+
+      const [{ where, data }] = updateMany.mock.calls[0] as [
+        {
+          where: object;
+          data: { version: number; waypoints: StoredWaypoint[] };
+        },
+      ];
+      expect(where).toEqual({ id: 'route-1', revision: 5 });
+      expect(data.version).toBe(3);
+      expect(data.waypoints.map((waypoint) => waypoint.stopId)).toEqual([
+        'stop-depot',
+        'stop-pickup',
+        'stop-a',
+        'stop-delivery',
+        'stop-b',
+      ]);
+      expect(
+        data.waypoints.slice(0, 3).every((waypoint) => waypoint.visitedAt),
+      ).toBe(true);
+      expect(data.waypoints[3]).toMatchObject({
+        stopType: 'delivery',
+        estimatedArrival: at(55),
+      });
+      expect(data.waypoints[3].visitedAt).toBeUndefined();
+    });
+
+    it.each([
+      [RouteUpdateReason.TRAFFIC_CHANGE, true],
+      [RouteUpdateReason.DEVIATION, true],
+      [RouteUpdateReason.DRIVER_REQUEST, false],
+    ])('pushes a %s re-plan: %s', async (reason, pushed) => {
+      const result = await replan(reason);
+
+      expect(result.version).toBe(3);
+      expect(
+        enqueue.mock.calls.map(
+          ([, , event]: [unknown, unknown, { eventType: string }]) =>
+            event.eventType,
+        ),
+      ).toEqual(
+        pushed
+          ? ['ROUTE_UPDATE_REQUESTED', 'ROUTE_UPDATED']
+          : ['ROUTE_UPDATE_REQUESTED'],
+      );
+      expect(broadcastRouteUpdated).toHaveBeenCalledTimes(pushed ? 1 : 0);
+    });
+
+    it('refuses to overwrite stops updated while it was planning', async () => {
+      updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(replan()).rejects.toBeInstanceOf(RouteChangedException);
+      expect(enqueue).not.toHaveBeenCalled();
+      expect(broadcastRouteUpdated).not.toHaveBeenCalled();
+    });
+
+    it('refuses completed waypoints of an older version', async () => {
+      await expect(
+        service.updateRoute(
+          'route-1',
+          {
+            currentLocation,
+            reason: RouteUpdateReason.DRIVER_REQUEST,
+            completedWaypoints: [1, 2],
+            expectedVersion: 1,
+          },
+          'truck-7',
+        ),
+      ).rejects.toMatchObject({ status: HttpStatus.CONFLICT });
+      expect(optimizeRoute).not.toHaveBeenCalled();
+    });
+  });
+});
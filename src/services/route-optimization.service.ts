@@ -1,17 +1,142 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
-import { GoogleMapsService, OptimizedRoute } from './google-maps.service';
+import { GoogleMapsService } from './google-maps.service';
+import { TrafficConditionService } from './traffic-condition.service';
+import { OutboxService, createDomainEvent } from './outbox.service';
 import { KafkaService } from '@yatms/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
 import {
-  OptimizeRouteDto,
-  RouteUpdateDto,
   OptimizedRouteResponse,
   Waypoint,
   OptimizationMetrics,
 } from '@yatms/common';
-import { RouteOptimizationStatus, RouteUpdateReason } from '@prisma/client';
+import { Prisma, RouteOptimizationStatus, RouteUpdateReason } from '@prisma/client';
+import { RouteReplanRequest } from '../dto/route-update.dto';
+import { CompareRoutesDto } from '../dto/route-comparison.dto';
+import {
+  OptimizeRouteInputDto,
+  OptimizeRouteRequestDto,
+  RoutingPreferencesDto,
+} from '../dto/optimize-route.dto';
+import { RoutingService } from '../routing/routing.service';
+import {
+  DriverRules,
+  DriverShift,
+  Load,
+  OptimizedRoute,
+  PlannedWaypoint,
+  RouteMode,
+  RouteStop,
+  RoutingProviderName,
+} from '../routing/routing-provider.interface';
+import {
+  applyRouteMode,
+  findLateStops,
+  planSchedule,
+  routeModeOf,
+} from '../routing/routing.utils';
+import { withRunningLoad } from '../routing/load.utils';
+import { shipmentDemands } from '../routing/shipment.utils';
+import { CapacityProfileService } from './capacity-profile.service';
+import { GeocodingService, GeocodingWarning } from './geocoding.service';
+import {
+  AffectedTrafficIncident,
+  TrafficIncident,
+  assessLegTraffic,
+} from '../utils/traffic-impact.utils';
+import { decodePolyline } from '../utils/polyline.utils';
+import {
+  ProofOfDelivery,
+  StopFailureReason,
+  StopStatus,
+  stopStatusOf,
+} from '../utils/stop-status.utils';
+
+export type RouteOptimizationResult = OptimizedRouteResponse & {
+  trafficIncidents: AffectedTrafficIncident[];
+  lateStops: ReturnType<typeof findLateStops>;
+  // Set when the route was planned under driver rules
+  driverShift?: DriverShift;
+  // Set when address-only stops were geocoded to imprecise or partial matches
+  geocodingWarnings?: GeocodingWarning[];
+};
+
+export class OptimizationCancelledException extends ConflictException {
+  constructor(requestId: string) {
+    super(`Route optimization request ${requestId} was cancelled`);
+  }
+}
+
+// Another write to the route's waypoints committed after they were read
+export class RouteChangedException extends ConflictException {
+  constructor(routeId: string) {
+    super(`Route ${routeId} changed while it was being updated, reload it and try again`);
+  }
+}
+
+// Stored waypoints remember when the vehicle was done with them, so re-plans skip them,
+// and when the geofence saw it arrive and leave
+export type StoredWaypoint = PlannedWaypoint & {
+  visitedAt?: string;
+  arrivedAt?: string;
+  departedAt?: string;
+  dwellSeconds?: number;
+  // Lifecycle reported by the driver or the geofences; see stopStatusOf
+  status?: StopStatus;
+  statusChangedAt?: string;
+  reasonCode?: StopFailureReason;
+  note?: string;
+  proofOfDelivery?: ProofOfDelivery;
+};
+
+// Stops are addressed by id rather than position, which changes when the route is re-planned
+function withStopIds<T extends PlannedWaypoint>(waypoints: T[]): T[] {
+  return waypoints.map(waypoint =>
+    waypoint.type === 'BREAK' || waypoint.stopId ? waypoint : { ...waypoint, stopId: uuidv4() },
+  );
+}
+
+// Decoded coordinates of a stored route's polyline, for map clients that can't decode it
+function withGeometry<T extends { polyline: string | null }>(route: T) {
+  return {
+    ...route,
+    geometry: route.polyline ? decodePolyline(route.polyline) : [],
+  };
+}
+
+// Running cost assumptions behind the savings metrics and scenario comparisons
+const FUEL_COST_PER_LITER = 1.5; // USD
+const DRIVER_COST_PER_HOUR = 25; // USD
+const CO2_KG_PER_LITER = 2.3; // gasoline
+
+// L/100km; short routes are mostly city driving
+function fuelConsumptionOf(totalDistance: number) {
+  return totalDistance / 1000 < 50 ? 10 : 7;
+}
+
+// What driving a whole plan costs in fuel, CO2 and money
+function estimateRouteCosts(totalDistance: number, totalDuration: number) {
+  const fuelLiters = (totalDistance / 1000) * fuelConsumptionOf(totalDistance) / 100;
+  const cost = fuelLiters * FUEL_COST_PER_LITER + (totalDuration / 3600) * DRIVER_COST_PER_HOUR;
+  return {
+    fuelLiters: Math.round(fuelLiters * 1000) / 1000,
+    co2Kg: Math.round(fuelLiters * CO2_KG_PER_LITER * 1000) / 1000,
+    cost: Math.round(cost * 100) / 100,
+  };
+}
+
+// Reasons urgent enough to push the new plan to the driver and downstream services
+const PUSHED_UPDATE_REASONS: RouteUpdateReason[] = [
+  RouteUpdateReason.EMERGENCY,
+  RouteUpdateReason.TRAFFIC_CHANGE,
+  RouteUpdateReason.DEVIATION,
+];
 
 @Injectable()
 export class RouteOptimizationService {
@@ -20,76 +145,169 @@ export class RouteOptimizationService {
   constructor(
     private prisma: PrismaService,
     private googleMapsService: GoogleMapsService,
+    private routingService: RoutingService,
     private kafkaService: KafkaService,
     private routeOptimizationGateway: RouteOptimizationGateway,
+    private trafficConditionService: TrafficConditionService,
+    private outboxService: OutboxService,
+    private capacityProfileService: CapacityProfileService,
+    private geocodingService: GeocodingService,
   ) {}
 
   async optimizeRoute(
-    optimizeRouteDto: OptimizeRouteDto,
+    requestDto: OptimizeRouteInputDto,
     userId: string,
-  ): Promise<OptimizedRouteResponse> {
+  ): Promise<RouteOptimizationResult> {
+    const { optimizeRouteDto, geocodingWarnings } = await this.prepareRequest(requestDto);
+    const requestId = await this.createOptimizationRequest(
+      optimizeRouteDto,
+      userId,
+      RouteOptimizationStatus.PROCESSING,
+    );
+
+    // Broadcast WebSocket update
+    this.routeOptimizationGateway.broadcastRouteOptimizationRequested(requestId, {
+      vehicleId: optimizeRouteDto.vehicleId,
+      userId,
+      status: 'PROCESSING',
+    });
+
+    const result = await this.runOptimization(requestId, optimizeRouteDto);
+    return geocodingWarnings.length > 0 ? { ...result, geocodingWarnings } : result;
+  }
+
+  /**
+   * Geocode address-only stops, then apply the vehicle's capacity
+   */
+  async prepareRequest(requestDto: OptimizeRouteInputDto) {
+    const { stops, warnings } = await this.geocodingService.geocodeStops(requestDto.stops);
+    const optimizeRouteDto = await this.applyCapacity({ ...requestDto, stops });
+    return { optimizeRouteDto, geocodingWarnings: warnings };
+  }
+
+  /**
+   * Resolve the vehicle's capacity and refuse plans it can't carry
+   */
+  async applyCapacity(
+    optimizeRouteDto: OptimizeRouteRequestDto,
+  ): Promise<OptimizeRouteRequestDto> {
+    const capacity = await this.capacityProfileService.resolveCapacity(optimizeRouteDto);
+    this.capacityProfileService.assertWithinCapacity(optimizeRouteDto.stops, capacity);
+    return { ...optimizeRouteDto, capacity };
+  }
+
+  /**
+   * Store a new optimization request together with its requested event
+   */
+  async createOptimizationRequest(
+    optimizeRouteDto: OptimizeRouteRequestDto,
+    userId: string,
+    status: RouteOptimizationStatus,
+    batchId?: string,
+  ): Promise<string> {
     const requestId = uuidv4();
     this.logger.log(`Starting route optimization for request ${requestId}`);
 
-    try {
-      // Create route optimization request
-      const routeRequest = await this.prisma.routeOptimizationRequest.create({
+    await this.prisma.$transaction(async tx => {
+      await tx.routeOptimizationRequest.create({
         data: {
           id: requestId,
           vehicleId: optimizeRouteDto.vehicleId,
           userId,
           stops: optimizeRouteDto.stops,
           preferences: optimizeRouteDto.preferences,
-          status: RouteOptimizationStatus.PROCESSING,
+          capacity: optimizeRouteDto.capacity,
+          routeMode: routeModeOf(optimizeRouteDto.preferences),
+          status,
+          batchId,
         },
       });
+      await this.enqueueRouteOptimizationRequestedEvent(tx, requestId, optimizeRouteDto, userId);
+    });
 
-      // Publish route optimization requested event (non-blocking)
-      this.publishRouteOptimizationRequestedEvent(requestId, optimizeRouteDto, userId).catch(error => {
-        this.logger.warn(`Failed to publish route optimization requested event: ${error.message}`);
-      });
+    return requestId;
+  }
 
-      // Broadcast WebSocket update
-      this.routeOptimizationGateway.broadcastRouteOptimizationRequested(requestId, {
-        vehicleId: optimizeRouteDto.vehicleId,
-        userId,
-        status: 'PROCESSING',
-      });
+  /**
+   * Plan and store the route for a request that is already PROCESSING.
+   * If the request is cancelled while planning, the result is discarded.
+   */
+  async runOptimization(
+    requestId: string,
+    optimizeRouteDto: OptimizeRouteRequestDto,
+  ): Promise<RouteOptimizationResult> {
+    try {
+      // Look up stored incidents so the planner can route around them
+      const incidents = await this.getActiveIncidents(optimizeRouteDto.stops);
 
-      // Optimize route using Google Maps
-      const optimizedRoute = await this.googleMapsService.optimizeRoute(
+      // Optimize route with the requested (or configured) routing provider
+      const plannedRoute = await this.routingService.optimizeRoute(
         optimizeRouteDto.stops,
-        optimizeRouteDto.preferences,
+        { ...optimizeRouteDto.preferences, capacity: optimizeRouteDto.capacity },
+        incidents,
       );
+      // Show what is still on board after each stop
+      const optimizedRoute = {
+        ...plannedRoute,
+        waypoints: withStopIds(withRunningLoad(plannedRoute.waypoints)),
+      };
 
       // Calculate optimization metrics by comparing original vs optimized route
-      const optimizationMetrics = this.calculateOptimizationMetrics(optimizedRoute, optimizeRouteDto.stops);
+      // The requested order is compared with the same ending, including a round trip's way back
+      const requestedStops = applyRouteMode(optimizeRouteDto.stops, routeModeOf(optimizeRouteDto.preferences)).stops;
+      const optimizationMetrics = this.calculateOptimizationMetrics(
+        optimizedRoute,
+        requestedStops,
+        incidents,
+        this.routingService.resolveDriverRules(optimizeRouteDto.preferences.driverRules),
+      );
+      // Stops whose delivery window the plan can't make
+      const lateStops = findLateStops(optimizedRoute.waypoints);
+      const { driverShift } = optimizedRoute;
+      if (driverShift?.exceedsShift) {
+        this.logger.warn(
+          `Route for request ${requestId} needs ${driverShift.shiftSeconds}s, beyond the ${driverShift.maxShiftSeconds}s driver shift`,
+        );
+      }
 
-      // Save optimized route
-      await this.prisma.optimizedRoute.create({
-        data: {
-          requestId,
-          vehicleId: optimizeRouteDto.vehicleId,
-          totalDistance: optimizedRoute.totalDistance,
-          totalDuration: optimizedRoute.totalDuration,
-          waypoints: optimizedRoute.waypoints,
-          optimizationMetrics,
-          polyline: optimizedRoute.polyline,
-        },
-      });
+      // Save optimized route, complete the request and queue the optimized event atomically
+      await this.prisma.$transaction(async tx => {
+        // Only a request still PROCESSING may complete; anything else was cancelled meanwhile
+        const { count } = await tx.routeOptimizationRequest.updateMany({
+          where: { id: requestId, status: RouteOptimizationStatus.PROCESSING },
+          data: {
+            status: RouteOptimizationStatus.COMPLETED,
+            completedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw new OptimizationCancelledException(requestId);
+        }
 
-      // Update request status
-      await this.prisma.routeOptimizationRequest.update({
-        where: { id: requestId },
-        data: {
-          status: RouteOptimizationStatus.COMPLETED,
-          completedAt: new Date(),
-        },
-      });
+        await tx.optimizedRoute.create({
+          data: {
+            requestId,
+            vehicleId: optimizeRouteDto.vehicleId,
+            totalDistance: optimizedRoute.totalDistance,
+            totalDuration: optimizedRoute.totalDuration,
+            waypoints: optimizedRoute.waypoints,
+            optimizationMetrics,
+            polyline: optimizedRoute.polyline,
+            trafficIncidents: optimizedRoute.trafficIncidents,
+            routingProvider: optimizedRoute.provider,
+            versions: {
+              create: {
+                version: 1,
+                totalDistance: optimizedRoute.totalDistance,
+                totalDuration: optimizedRoute.totalDuration,
+                waypoints: optimizedRoute.waypoints,
+                polyline: optimizedRoute.polyline,
+              },
+            },
+          },
+        });
 
-      // Publish route optimized event (non-blocking)
-      this.publishRouteOptimizedEvent(requestId, optimizeRouteDto.vehicleId, optimizedRoute, optimizationMetrics).catch(error => {
-        this.logger.warn(`Failed to publish route optimized event: ${error.message}`);
+        await this.enqueueRouteOptimizedEvent(tx, requestId, optimizeRouteDto.vehicleId, optimizedRoute, optimizationMetrics);
       });
 
       // Broadcast WebSocket update
@@ -101,6 +319,9 @@ export class RouteOptimizationService {
           waypoints: optimizedRoute.waypoints,
         },
         optimizationMetrics,
+        trafficIncidents: optimizedRoute.trafficIncidents,
+        lateStops,
+        driverShift,
       });
 
       return {
@@ -111,13 +332,21 @@ export class RouteOptimizationService {
           waypoints: optimizedRoute.waypoints,
         },
         optimizationMetrics,
+        trafficIncidents: optimizedRoute.trafficIncidents,
+        lateStops,
+        driverShift,
       };
     } catch (error) {
+      if (error instanceof OptimizationCancelledException) {
+        this.logger.log(`Route optimization request ${requestId} was cancelled, discarding result`);
+        throw error;
+      }
+
       this.logger.error(`Failed to optimize route for request ${requestId}:`, error);
 
-      // Update request status to failed
-      await this.prisma.routeOptimizationRequest.update({
-        where: { id: requestId },
+      // Update request status to failed (unless it was cancelled in the meantime)
+      await this.prisma.routeOptimizationRequest.updateMany({
+        where: { id: requestId, status: RouteOptimizationStatus.PROCESSING },
         data: {
           status: RouteOptimizationStatus.FAILED,
           completedAt: new Date(),
@@ -131,7 +360,7 @@ export class RouteOptimizationService {
     }
   }
 
-  async getRouteStatus(requestId: string) {
+  async getRouteStatus(requestId: string, includeGeometry = false) {
     const request = await this.prisma.routeOptimizationRequest.findUnique({
       where: { id: requestId },
       include: { 
@@ -147,10 +376,12 @@ export class RouteOptimizationService {
       throw new NotFoundException(`Route optimization request ${requestId} not found`);
     }
 
-    return request;
+    return includeGeometry
+      ? { ...request, optimizedRoutes: request.optimizedRoutes.map(withGeometry) }
+      : request;
   }
 
-  async getRouteTracking(vehicleId: string) {
+  async getRouteTracking(vehicleId: string, includeGeometry = false) {
     const activeRoutes = await this.prisma.optimizedRoute.findMany({
       where: { vehicleId },
       include: {
@@ -164,9 +395,15 @@ export class RouteOptimizationService {
       take: 5,
     });
 
+    // Latest telemetry fix, fed by the vehicle location consumer
+    const currentPosition = await this.prisma.vehiclePosition.findUnique({
+      where: { vehicleId },
+    });
+
     return {
       vehicleId,
-      activeRoutes,
+      currentPosition,
+      activeRoutes: includeGeometry ? activeRoutes.map(withGeometry) : activeRoutes,
       totalRoutes: activeRoutes.length,
     };
   }
@@ -197,31 +434,180 @@ export class RouteOptimizationService {
 
   async updateRoute(
     routeId: string,
-    updateDto: RouteUpdateDto,
+    updateDto: RouteReplanRequest,
     vehicleId: string,
   ) {
     const route = await this.prisma.optimizedRoute.findFirst({
       where: { id: routeId, vehicleId },
+      include: { request: true },
     });
 
     if (!route) {
       throw new NotFoundException(`Route ${routeId} not found for vehicle ${vehicleId}`);
     }
+    // Completed waypoints are positions in the version the client saw
+    if (updateDto.expectedVersion !== undefined && updateDto.expectedVersion !== route.version) {
+      throw new ConflictException(
+        `Route ${routeId} is at version ${route.version}, not ${updateDto.expectedVersion}`,
+      );
+    }
 
     try {
-      // Create route update record
-      await this.prisma.routeUpdate.create({
-        data: {
-          routeId,
-          vehicleId,
-          updateReason: updateDto.reason as RouteUpdateReason,
-          newWaypoints: route.waypoints as Waypoint[], 
-        },
+      const updateReason = updateDto.reason;
+      const now = new Date().toISOString();
+
+      // Split the stored plan into stops already served and stops still ahead.
+      // The origin is where the vehicle set off from, so it always counts as visited.
+      const completed = new Set(updateDto.completedWaypoints ?? []);
+      const waypoints = route.waypoints as StoredWaypoint[];
+      const visited: StoredWaypoint[] = [];
+      const remaining: StoredWaypoint[] = [];
+      waypoints.forEach((waypoint, index) => {
+        // A stop the vehicle has reached is being served and stays where it is, as do
+        // stops already completed, failed or skipped. Only served stops count as visited.
+        const status = stopStatusOf(waypoint);
+        if (index === 0 || status !== 'PENDING' || completed.has(index)) {
+          visited.push(
+            status === 'FAILED' || status === 'SKIPPED'
+              ? waypoint
+              : { ...waypoint, visitedAt: waypoint.visitedAt ?? now },
+          );
+        } else if (waypoint.type !== 'BREAK') {
+          // Breaks still ahead are rescheduled along the new plan
+          remaining.push(waypoint);
+        }
       });
 
-      // Publish route update requested event (non-blocking)
-      this.publishRouteUpdateRequestedEvent(routeId, vehicleId, updateDto).catch(error => {
-        this.logger.warn(`Failed to publish route update requested event: ${error.message}`);
+      // Re-plan the remaining stops starting from where the vehicle is now.
+      // Shipments already picked up are on board, so their deliveries become
+      // plain deliveries loaded at the current location.
+      const pickedUp = new Set(
+        visited.filter(waypoint => waypoint.stopType === 'pickup').map(waypoint => waypoint.shipmentId),
+      );
+      const demands = shipmentDemands(waypoints);
+      const replanStops: RouteStop[] = [
+        {
+          latitude: updateDto.currentLocation.latitude,
+          longitude: updateDto.currentLocation.longitude,
+          address: 'Current location',
+        },
+        ...remaining.map(waypoint => {
+          const onBoard = !!waypoint.shipmentId && pickedUp.has(waypoint.shipmentId);
+          return {
+            latitude: waypoint.latitude,
+            longitude: waypoint.longitude,
+            address: waypoint.address,
+            stopId: waypoint.stopId,
+            timeWindow: waypoint.timeWindow,
+            serviceDurationSeconds: waypoint.serviceDurationSeconds,
+            demand: onBoard ? demands.get(waypoint.shipmentId!) : waypoint.demand,
+            shipmentId: waypoint.shipmentId,
+            stopType: onBoard ? undefined : waypoint.stopType,
+            geofenceRadiusMeters: waypoint.geofenceRadiusMeters,
+          };
+        }),
+      ];
+      const incidents = await this.getActiveIncidents(replanStops);
+      // Stay on the provider that planned the route, unless it has since become unavailable
+      const preferences = route.request.preferences as RoutingPreferencesDto;
+      // The stored plan already ends at its destination (the origin, for a round trip),
+      // which stays last while it is still ahead
+      const routeMode = (route.request.routeMode as RouteMode | null) ?? routeModeOf(preferences);
+      const destinationAhead = remaining[remaining.length - 1] === waypoints[waypoints.length - 1];
+      const replannedRoute = await this.routingService.optimizeRoute(
+        replanStops,
+        {
+          ...preferences,
+          routeMode: routeMode !== 'openEnd' && destinationAhead ? 'fixedEnd' : 'openEnd',
+          routingProvider:
+            (route.routingProvider as RoutingProviderName | null) ??
+            preferences.routingProvider,
+          capacity: (route.request.capacity as Load | null) ?? undefined,
+          // The driver's working day started when the vehicle first set off
+          shiftStart: waypoints[0].estimatedArrival,
+        },
+        incidents,
+        { strict: false },
+      );
+      const optimizationMetrics = this.calculateOptimizationMetrics(
+        replannedRoute,
+        replanStops,
+        incidents,
+        this.routingService.resolveDriverRules(preferences.driverRules),
+      );
+      const lateStops = findLateStops(replannedRoute.waypoints);
+      const { driverShift } = replannedRoute;
+
+      // The current location is only the planning origin, not a stop to store
+      const newWaypoints: StoredWaypoint[] = withStopIds([
+        ...visited,
+        ...withRunningLoad(replannedRoute.waypoints)
+          .slice(1)
+          .map(waypoint =>
+            waypoint.shipmentId && pickedUp.has(waypoint.shipmentId)
+              ? { ...waypoint, stopType: 'delivery' as const }
+              : waypoint,
+          ),
+      ]);
+      const optimizedRoute = {
+        totalDistance: replannedRoute.totalDistance,
+        totalDuration: replannedRoute.totalDuration,
+        waypoints: newWaypoints,
+        polyline: replannedRoute.polyline,
+      };
+      const pushUpdate = PUSHED_UPDATE_REASONS.includes(updateReason);
+
+      // Stop updates made while the provider was planning would be lost by this write,
+      // so it only goes through if the waypoints are still the ones the plan started from
+      const version = route.version + 1;
+      await this.prisma.$transaction(async tx => {
+        const { count } = await tx.optimizedRoute.updateMany({
+          where: { id: routeId, revision: route.revision },
+          data: {
+            totalDistance: replannedRoute.totalDistance,
+            totalDuration: replannedRoute.totalDuration,
+            waypoints: newWaypoints,
+            optimizationMetrics,
+            polyline: replannedRoute.polyline,
+            trafficIncidents: replannedRoute.trafficIncidents,
+            routingProvider: replannedRoute.provider,
+            version,
+            revision: { increment: 1 },
+          },
+        });
+        if (count === 0) {
+          throw new RouteChangedException(routeId);
+        }
+
+        const routeUpdate = await tx.routeUpdate.create({
+          data: {
+            routeId,
+            vehicleId,
+            updateReason,
+            newWaypoints,
+            currentLocation: updateDto.currentLocation,
+          },
+        });
+
+        // Each re-plan is kept as a numbered version so plans can be compared later
+        await tx.routeVersion.create({
+          data: {
+            routeId,
+            version,
+            totalDistance: replannedRoute.totalDistance,
+            totalDuration: replannedRoute.totalDuration,
+            waypoints: newWaypoints,
+            polyline: replannedRoute.polyline,
+            routeUpdateId: routeUpdate.id,
+          },
+        });
+
+        await this.enqueueRouteUpdateRequestedEvent(tx, routeId, vehicleId, updateDto);
+
+        // Urgent re-plans are pushed straight to downstream services
+        if (pushUpdate) {
+          await this.enqueueRouteUpdatedEvent(tx, routeId, vehicleId, updateReason, optimizedRoute, optimizationMetrics);
+        }
       });
 
       // Broadcast WebSocket update
@@ -231,13 +617,34 @@ export class RouteOptimizationService {
         reason: updateDto.reason,
       });
 
+      // Push urgent re-plans to connected clients as well
+      if (pushUpdate) {
+        this.routeOptimizationGateway.broadcastRouteUpdated(routeId, {
+          vehicleId,
+          version,
+          reason: updateReason,
+          currentLocation: updateDto.currentLocation,
+          optimizedRoute,
+          optimizationMetrics,
+          trafficIncidents: replannedRoute.trafficIncidents,
+          lateStops,
+          driverShift,
+        });
+      }
+
       return {
         routeId,
         vehicleId,
+        version,
         updateReason: updateDto.reason,
         currentLocation: updateDto.currentLocation,
         updatedAt: new Date().toISOString(),
-        message: 'Route update recorded successfully',
+        optimizedRoute,
+        optimizationMetrics,
+        trafficIncidents: replannedRoute.trafficIncidents,
+        lateStops,
+        driverShift,
+        message: 'Route re-optimized successfully',
       };
     } catch (error) {
       this.logger.error(`Failed to update route ${routeId}:`, error);
@@ -245,12 +652,98 @@ export class RouteOptimizationService {
     }
   }
 
+  /**
+   * Plan one stop list under each preference variant without storing
+   * anything, so planners can weigh the options side by side. Each variant
+   * carries the request that submits it to POST /traffic/routes/optimize.
+   */
+  async compareRoutes(compareDto: CompareRoutesDto) {
+    const { variants, ...vehicle } = compareDto;
+    const { stops, warnings } = await this.geocodingService.geocodeStops(compareDto.stops);
+    const capacity = await this.capacityProfileService.resolveCapacity(vehicle);
+    this.capacityProfileService.assertWithinCapacity(stops, capacity);
+    const incidents = await this.getActiveIncidents(stops);
+
+    type Measure = 'totalDistance' | 'totalDuration' | 'cost' | 'co2Kg';
+    const results: Array<Record<string, unknown>> = [];
+    const planned: Array<Record<Measure, number> & { name: string }> = [];
+    // One at a time, so a comparison doesn't burst the provider's rate limit
+    for (const { name, preferences } of variants) {
+      const request = { ...vehicle, stops, preferences };
+      try {
+        const plannedRoute = await this.routingService.optimizeRoute(
+          stops,
+          { ...preferences, capacity },
+          incidents,
+        );
+        const requestedStops = applyRouteMode(stops, routeModeOf(preferences)).stops;
+        const result = {
+          name,
+          provider: plannedRoute.provider,
+          totalDistance: plannedRoute.totalDistance,
+          totalDuration: plannedRoute.totalDuration,
+          ...estimateRouteCosts(plannedRoute.totalDistance, plannedRoute.totalDuration),
+          lateStops: findLateStops(plannedRoute.waypoints),
+          driverShift: plannedRoute.driverShift,
+          optimizationMetrics: this.calculateOptimizationMetrics(
+            plannedRoute,
+            requestedStops,
+            incidents,
+            this.routingService.resolveDriverRules(preferences.driverRules),
+          ),
+          waypoints: withRunningLoad(plannedRoute.waypoints),
+          request,
+        };
+        results.push(result);
+        planned.push(result);
+      } catch (error) {
+        // One variant the provider can't plan shouldn't hide the others
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to plan route variant ${name}: ${message}`);
+        results.push({ name, error: message, request });
+      }
+    }
+
+    // The variant that comes out best on each measure; ties go to the earlier one
+    const bestBy = (measure: Measure) =>
+      planned.reduce<(typeof planned)[number] | null>(
+        (best, result) => (!best || result[measure] < best[measure] ? result : best),
+        null,
+      )?.name ?? null;
+
+    return {
+      vehicleId: compareDto.vehicleId,
+      variants: results,
+      best: {
+        distance: bestBy('totalDistance'),
+        duration: bestBy('totalDuration'),
+        cost: bestBy('cost'),
+        co2: bestBy('co2Kg'),
+      },
+      ...(warnings.length > 0 && { geocodingWarnings: warnings }),
+    };
+  }
+
+  async getActiveIncidents(
+    stops: Array<{ latitude: number; longitude: number }>,
+  ): Promise<TrafficIncident[]> {
+    try {
+      return await this.trafficConditionService.findActiveIncidents(stops);
+    } catch (error) {
+      // Stored incidents only refine the plan; never fail an optimization over them
+      this.logger.warn(`Failed to load traffic incidents: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
   private calculateOptimizationMetrics(
     optimizedRoute: OptimizedRoute,
-    originalStops: Array<{ latitude: number; longitude: number; address: string }>
+    originalStops: RouteStop[],
+    incidents: TrafficIncident[] = [],
+    driverRules?: DriverRules,
   ) {
     // Calculate the original (unoptimized) route metrics
-    const originalRouteMetrics = this.calculateOriginalRouteMetrics(originalStops);
+    const originalRouteMetrics = this.calculateOriginalRouteMetrics(originalStops, incidents, driverRules);
     
     // Handle case where original route metrics cannot be calculated
     if (!originalRouteMetrics) {
@@ -274,19 +767,16 @@ export class RouteOptimizationService {
     const distanceSavedKm = distanceSavedMeters / 1000;
 
     // More realistic fuel consumption calculations
-    const totalDistanceKm = optimizedRoute.totalDistance / 1000;
-    const avgFuelConsumption = totalDistanceKm < 50 ? 10 : 7; // L/100km based on route type
+    const avgFuelConsumption = fuelConsumptionOf(optimizedRoute.totalDistance); // L/100km based on route type
     const fuelSavedLiters = (distanceSavedKm * avgFuelConsumption) / 100;
     
-    // Calculate CO2 emissions saved (assuming 2.3 kg CO2 per liter of gasoline)
-    const co2SavedKg = fuelSavedLiters * 2.3;
+    // Calculate CO2 emissions saved
+    const co2SavedKg = fuelSavedLiters * CO2_KG_PER_LITER;
     
-    // Calculate cost savings (assuming $1.50/L fuel cost and $25/hour driver cost)
-    const fuelCostPerLiter = 1.50;
-    const driverCostPerHour = 25;
-    const fuelCostSaved = fuelSavedLiters * fuelCostPerLiter;
+    // Calculate cost savings from fuel and driver time
+    const fuelCostSaved = fuelSavedLiters * FUEL_COST_PER_LITER;
     const driverTimeSavedHours = timeSavedSeconds / 3600;
-    const driverCostSaved = driverTimeSavedHours * driverCostPerHour;
+    const driverCostSaved = driverTimeSavedHours * DRIVER_COST_PER_HOUR;
     const totalCostSaved = fuelCostSaved + driverCostSaved;
 
     // Calculate actual improvement percentages
@@ -308,17 +798,23 @@ export class RouteOptimizationService {
         timeImprovement: Math.max(0, Math.round(timeImprovementPercent)),
         distanceImprovement: Math.max(0, Math.round(distanceImprovementPercent)),
         fuelEfficiency: Math.max(0, Math.round(distanceImprovementPercent)) // Fuel efficiency improvement = distance improvement
-      }
+      },
+      // Solver report against the requested stop order, when we ordered the stops ourselves
+      ...(optimizedRoute.stopOrder && { stopOrder: optimizedRoute.stopOrder }),
     };
   }
 
-  private calculateOriginalRouteMetrics(stops: Array<{ latitude: number; longitude: number; address: string }>) {
+  private calculateOriginalRouteMetrics(
+    stops: RouteStop[],
+    incidents: TrafficIncident[] = [],
+    driverRules?: DriverRules,
+  ) {
     if (stops.length < 2) {
       return null;
     }
 
     let totalDistance = 0;
-    let totalDuration = 0;
+    const legDurations: number[] = [];
 
     // Calculate distance and time for original stop order (no optimization)
     for (let i = 0; i < stops.length - 1; i++) {
@@ -337,18 +833,16 @@ export class RouteOptimizationService {
       const distanceKm = distance / 1000; // Convert meters to kilometers
       const travelTimeHours = distanceKm / AVERAGE_SPEED_KMH; // Time in hours
       const travelTimeSeconds = Math.round(travelTimeHours * 3600); // Convert to seconds
-      totalDuration += travelTimeSeconds;
-      
-      // Add stop/loading time (except for the final segment)
-      const STOP_LOADING_TIME_MINUTES = 5; // Time spent at each stop for loading/unloading
-      if (i < stops.length - 2) {
-        totalDuration += STOP_LOADING_TIME_MINUTES * 60; 
-      }
+
+      // Apply the same incident delays the planner sees, so savings compare like with like
+      legDurations.push(Math.round(travelTimeSeconds * assessLegTraffic(currentStop, nextStop, incidents).durationFactor));
     }
 
+    // Service times and time-window waits count against the original order too
     return {
       totalDistance: Math.round(totalDistance),
-      totalDuration: totalDuration, 
+      // The requested order needs the same breaks as the plan
+      totalDuration: planSchedule(stops, legDurations, undefined, { driverRules }).totalDuration,
     };
   }
 
@@ -367,99 +861,84 @@ export class RouteOptimizationService {
     return degrees * (Math.PI / 180);
   }
 
-  private async publishRouteOptimizationRequestedEvent(
+  private async enqueueRouteOptimizationRequestedEvent(
+    tx: Prisma.TransactionClient,
     requestId: string,
-    optimizeRouteDto: OptimizeRouteDto,
+    optimizeRouteDto: OptimizeRouteRequestDto,
     userId: string,
   ) {
-    this.logger.log(`Starting to publish route optimization requested event for request ${requestId}`);
-    
-    const event = {
-      eventId: uuidv4(),
-      eventType: 'ROUTE_OPTIMIZATION_REQUESTED',
-      timestamp: new Date(),
-      source: 'traffic-service',
-      version: '1.0',
-      data: {
-        requestId,
-        vehicleId: optimizeRouteDto.vehicleId,
-        userId,
-        stops: optimizeRouteDto.stops,
-        preferences: optimizeRouteDto.preferences,
-      },
-    };
+    const event = createDomainEvent('ROUTE_OPTIMIZATION_REQUESTED', {
+      requestId,
+      vehicleId: optimizeRouteDto.vehicleId,
+      userId,
+      stops: optimizeRouteDto.stops,
+      preferences: optimizeRouteDto.preferences,
+    });
 
-    this.logger.log(`Publishing event to Kafka: ${event.eventId}`);
-    
-    try {
-      await this.kafkaService.publishEvent('route-optimization-events', event);
-      this.logger.log(`Route optimization requested event published: ${event.eventId}`);
-    } catch (error) {
-      this.logger.warn(`Failed to publish route optimization requested event: ${error instanceof Error ? error.message : String(error)}`);
-    }
+    await this.outboxService.enqueue(tx, 'route-optimization-events', event, optimizeRouteDto.vehicleId);
+    this.logger.log(`Route optimization requested event queued: ${event.eventId}`);
   }
 
-  private async publishRouteOptimizedEvent(
+  private async enqueueRouteOptimizedEvent(
+    tx: Prisma.TransactionClient,
     requestId: string,
     vehicleId: string,
     optimizedRoute: OptimizedRoute,
     optimizationMetrics: OptimizationMetrics,
   ) {
-    this.logger.log(`Starting to publish route optimized event for request ${requestId}`);
-    
-    const event = {
-      eventId: uuidv4(),
-      eventType: 'ROUTE_OPTIMIZED',
-      timestamp: new Date(),
-      source: 'traffic-service',
-      version: '1.0',
-      data: {
-        requestId,
-        vehicleId,
-        optimizedRoute: {
-          totalDistance: optimizedRoute.totalDistance,
-          totalDuration: optimizedRoute.totalDuration,
-          waypoints: optimizedRoute.waypoints,
-        },
-        optimizationMetrics,
+    const event = createDomainEvent('ROUTE_OPTIMIZED', {
+      requestId,
+      vehicleId,
+      optimizedRoute: {
+        totalDistance: optimizedRoute.totalDistance,
+        totalDuration: optimizedRoute.totalDuration,
+        waypoints: optimizedRoute.waypoints,
       },
-    };
+      optimizationMetrics,
+      trafficIncidents: optimizedRoute.trafficIncidents,
+      lateStops: findLateStops(optimizedRoute.waypoints),
+      driverShift: optimizedRoute.driverShift,
+    });
 
-    this.logger.log(`Publishing route optimized event to Kafka: ${event.eventId}`);
-    
-    try {
-      await this.kafkaService.publishEvent('route-optimization-events', event);
-      this.logger.log(`Route optimized event published: ${event.eventId}`);
-    } catch (error) {
-      this.logger.warn(`Failed to publish route optimized event: ${error instanceof Error ? error.message : String(error)}`);
-    }
+    await this.outboxService.enqueue(tx, 'route-optimization-events', event, vehicleId);
+    this.logger.log(`Route optimized event queued: ${event.eventId}`);
   }
 
-  private async publishRouteUpdateRequestedEvent(
+  private async enqueueRouteUpdateRequestedEvent(
+    tx: Prisma.TransactionClient,
     routeId: string,
     vehicleId: string,
-    updateDto: RouteUpdateDto,
+    updateDto: RouteReplanRequest,
   ) {
-    const event = {
-      eventId: uuidv4(),
-      eventType: 'ROUTE_UPDATE_REQUESTED',
-      timestamp: new Date(),
-      source: 'traffic-service',
-      version: '1.0',
-      data: {
-        routeId,
-        vehicleId,
-        currentLocation: updateDto.currentLocation,
-        reason: updateDto.reason,
-      },
-    };
+    const event = createDomainEvent('ROUTE_UPDATE_REQUESTED', {
+      routeId,
+      vehicleId,
+      currentLocation: updateDto.currentLocation,
+      reason: updateDto.reason,
+    });
 
-    try {
-      await this.kafkaService.publishEvent('route-update-events', event);
-      this.logger.log(`Route update requested event published: ${event.eventId}`);
-    } catch (error) {
-      this.logger.warn(`Failed to publish route update requested event: ${error instanceof Error ? error.message : String(error)}`);
-    }
+    await this.outboxService.enqueue(tx, 'route-update-events', event, vehicleId);
+    this.logger.log(`Route update requested event queued: ${event.eventId}`);
+  }
+
+  private async enqueueRouteUpdatedEvent(
+    tx: Prisma.TransactionClient,
+    routeId: string,
+    vehicleId: string,
+    reason: RouteUpdateReason,
+    optimizedRoute: { totalDistance: number; totalDuration: number; waypoints: Waypoint[]; polyline: string },
+    optimizationMetrics: OptimizationMetrics,
+  ) {
+    const event = createDomainEvent('ROUTE_UPDATED', {
+      routeId,
+      vehicleId,
+      reason,
+      optimizedRoute,
+      optimizationMetrics,
+    });
+
+    await this.outboxService.enqueue(tx, 'route-update-events', event, vehicleId);
+    this.logger.log(`Route updated event queued: ${event.eventId}`);
   }
 
   async getKafkaHealth() {
@@ -574,8 +1053,10 @@ export class RouteOptimizationService {
           totalDistance: result.totalDistance,
           totalDuration: result.totalDuration,
           waypointsCount: result.waypoints.length,
+          provider: result.provider,
           hasPolyline: !!result.polyline,
-          isMockData: !result.polyline || result.polyline === ''
+          // Without an API key the route is planned locally and still has a polyline
+          isMockData: result.provider !== 'google'
         }
       };
     } catch (error) {
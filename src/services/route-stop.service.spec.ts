@@ -0,0 +1,165 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { OutboxService } from './outbox.service';
+import { RouteChangedException } from './route-optimization.service';
+import { RouteStopService } from './route-stop.service';
+
+const route = {
+  id: 'route-1',
+  requestId: 'request-1',
+  vehicleId: 'truck-7',
+  revision: 4,
+  waypoints: [
+    {
+      latitude: 0,
+      longitude: 0,
+      address: 'Depot',
+      stopId: 'stop-depot',
+      estimatedArrival: '2026-10-18T09:00:00.000Z',
+    },
+    {
+      latitude: 0,
+      longitude: 1,
+      address: 'A',
+      stopId: 'stop-a',
+      estimatedArrival: '2026-10-18T09:20:00.000Z',
+      arrivedAt: '2026-10-18T09:25:00.000Z',
+      status: 'ARRIVED',
+    },
+    {
+      latitude: 0,
+      longitude: 1.5,
+      address: 'Rest break',
+      estimatedArrival: '2026-10-18T09:40:00.000Z',
+      type: 'BREAK',
+    },
+    {
+      latitude: 0,
+      longitude: 2,
+      address: 'B',
+      stopId: 'stop-b',
+      estimatedArrival: '2026-10-18T10:00:00.000Z',
+      status: 'SKIPPED',
+    },
+  ],
+};
+
+describe('RouteStopService', () => {
+  let service: RouteStopService;
+  let updateRoute: jest.Mock;
+  let enqueue: jest.Mock;
+  let broadcastStopStatusChanged: jest.Mock;
+
+  beforeEach(async () => {
+    updateRoute = jest.fn().mockResolvedValue({ count: 1 });
+    enqueue = jest.fn();
+    broadcastStopStatusChanged = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteStopService,
+        {
+          provide: PrismaService,
+          useValue: {
+            optimizedRoute: { findUnique: jest.fn().mockResolvedValue(route) },
+            $transaction: (work: (tx: unknown) => Promise<unknown>) =>
+              work({ optimizedRoute: { updateMany: updateRoute } }),
+          },
+        },
+        { provide: OutboxService, useValue: { enqueue } },
+        {
+          provide: RouteOptimizationGateway,
+          useValue: { broadcastStopStatusChanged },
+        },
+      ],
+    }).compile();
+
+    service = module.get(RouteStopService);
+  });
+
+  it('lists stops with their status, leaving out breaks', async () => {
+    const stops = await service.listStops('route-1');
+
+    expect(stops.map(({ index, status }) => [index, status])).toEqual([
+      [0, 'PENDING'],
+      [1, 'ARRIVED'],
+      [3, 'SKIPPED'],
+    ]);
+  });
+
+  it('completes an arrived stop with proof of delivery', async () => {
+    const stop = await service.completeStop(
+      'route-1',
+      'stop-a',
+      {
+        recipientName: 'J. Doe',
+        signatureRef: 'pod/sig-1.png',
+        note: 'Rear door',
+      },
+      'driver-1',
+    );
+
+    expect(stop).toMatchObject({
+      index: 1,
+      stopId: 'stop-a',
+      status: 'COMPLETED',
+      note: 'Rear door',
+      proofOfDelivery: {
+        recipientName: 'J. Doe',
+        signatureRef: 'pod/sig-1.png',
+      },
+    });
+    const [{ where, data }] = updateRoute.mock.calls[0] as [
+      { where: object; data: { waypoints: object[] } },
+    ];
+    expect(where).toEqual({ id: 'route-1', revision: 4 });
+    expect(data.waypoints[1]).toMatchObject({
+      status: 'COMPLETED',
+      visitedAt: stop.statusChangedAt,
+    });
+    expect(enqueue).toHaveBeenCalledWith(
+      expect.anything(),
+      'route-tracking-events',
+      expect.objectContaining({
+        eventType: 'STOP_COMPLETED',
+        data: expect.objectContaining({
+          previousStatus: 'ARRIVED',
+          status: 'COMPLETED',
+          changedBy: 'driver-1',
+          arrivalDelaySeconds: 5 * 60,
+        }),
+      }),
+      'truck-7',
+    );
+    expect(broadcastStopStatusChanged).toHaveBeenCalled();
+  });
+
+  it('rejects changes to final stops, breaks and the origin', async () => {
+    await expect(
+      service.failStop(
+        'route-1',
+        'stop-b',
+        { reasonCode: 'REFUSED' },
+        'driver-1',
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    await expect(
+      service.skipStop('route-1', 'no-such-stop', {}, 'driver-1'),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    await expect(
+      service.arriveAtStop('route-1', 'stop-depot', 'driver-1'),
+    ).rejects.toThrow('The route origin has no stop status');
+    expect(updateRoute).not.toHaveBeenCalled();
+  });
+
+  it('refuses to overwrite waypoints changed since they were read', async () => {
+    updateRoute.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.completeStop('route-1', 'stop-a', {}, 'driver-1'),
+    ).rejects.toBeInstanceOf(RouteChangedException);
+    expect(broadcastStopStatusChanged).not.toHaveBeenCalled();
+  });
+});
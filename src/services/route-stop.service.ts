@@ -0,0 +1,235 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { RouteOptimizationGateway } from '../websocket/route-optimization.gateway';
+import { OutboxService, createDomainEvent } from './outbox.service';
+import {
+  RouteChangedException,
+  StoredWaypoint,
+} from './route-optimization.service';
+import {
+  CompleteStopDto,
+  FailStopDto,
+  SkipStopDto,
+} from '../dto/route-stop.dto';
+import {
+  StopStatus,
+  canTransitionStop,
+  stopStatusOf,
+} from '../utils/stop-status.utils';
+
+const STOP_EVENT_TYPES: Record<Exclude<StopStatus, 'PENDING'>, string> = {
+  ARRIVED: 'STOP_ARRIVED',
+  COMPLETED: 'STOP_COMPLETED',
+  FAILED: 'STOP_FAILED',
+  SKIPPED: 'STOP_SKIPPED',
+};
+
+function toStopView(waypoint: StoredWaypoint, index: number) {
+  return { index, ...waypoint, status: stopStatusOf(waypoint) };
+}
+
+/**
+ * What happened at each stop of a route: drivers mark stops arrived,
+ * completed with proof of delivery, failed with a reason code or skipped.
+ * The status lives on the route's waypoints and every change is published
+ * as a STOP_* event. Stops are addressed by their stopId, which unlike their
+ * position survives re-plans.
+ */
+@Injectable()
+export class RouteStopService {
+  private readonly logger = new Logger(RouteStopService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private outboxService: OutboxService,
+    private routeOptimizationGateway: RouteOptimizationGateway,
+  ) {}
+
+  async listStops(routeId: string) {
+    const route = await this.findRoute(routeId);
+    const waypoints = route.waypoints as StoredWaypoint[];
+    // Breaks are part of the plan but nothing is delivered there
+    return waypoints.flatMap((waypoint, index) =>
+      waypoint.type === 'BREAK' ? [] : [toStopView(waypoint, index)],
+    );
+  }
+
+  async arriveAtStop(
+    routeId: string,
+    stopId: string,
+    changedBy: string | null,
+  ) {
+    return this.transition(
+      routeId,
+      stopId,
+      'ARRIVED',
+      changedBy,
+      (waypoint, now) => ({
+        arrivedAt: waypoint.arrivedAt ?? now,
+      }),
+    );
+  }
+
+  async completeStop(
+    routeId: string,
+    stopId: string,
+    completeDto: CompleteStopDto,
+    changedBy: string | null,
+  ) {
+    const { note, ...proofOfDelivery } = completeDto;
+    return this.transition(
+      routeId,
+      stopId,
+      'COMPLETED',
+      changedBy,
+      (waypoint, now) => ({
+        visitedAt: waypoint.visitedAt ?? now,
+        note,
+        ...(Object.keys(proofOfDelivery).length > 0 && { proofOfDelivery }),
+      }),
+    );
+  }
+
+  async failStop(
+    routeId: string,
+    stopId: string,
+    failDto: FailStopDto,
+    changedBy: string | null,
+  ) {
+    return this.transition(routeId, stopId, 'FAILED', changedBy, () => failDto);
+  }
+
+  async skipStop(
+    routeId: string,
+    stopId: string,
+    skipDto: SkipStopDto,
+    changedBy: string | null,
+  ) {
+    return this.transition(
+      routeId,
+      stopId,
+      'SKIPPED',
+      changedBy,
+      () => skipDto,
+    );
+  }
+
+  private async findRoute(routeId: string) {
+    const route = await this.prisma.optimizedRoute.findUnique({
+      where: { id: routeId },
+    });
+    if (!route) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+    return route;
+  }
+
+  private async transition(
+    routeId: string,
+    stopId: string,
+    status: Exclude<StopStatus, 'PENDING'>,
+    changedBy: string | null,
+    changes: (waypoint: StoredWaypoint, now: string) => Partial<StoredWaypoint>,
+  ) {
+    const route = await this.findRoute(routeId);
+    const waypoints = route.waypoints as StoredWaypoint[];
+    const index = waypoints.findIndex((waypoint) => waypoint.stopId === stopId);
+    const waypoint = waypoints[index];
+    if (!waypoint) {
+      throw new NotFoundException(`Route ${routeId} has no stop ${stopId}`);
+    }
+    // The vehicle sets off from the origin; it has no delivery of its own
+    if (index === 0) {
+      throw new BadRequestException('The route origin has no stop status');
+    }
+
+    const previousStatus = stopStatusOf(waypoint);
+    if (!canTransitionStop(previousStatus, status)) {
+      throw new ConflictException(
+        `Stop ${stopId} of route ${routeId} is ${previousStatus} and cannot become ${status}`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const updated: StoredWaypoint = {
+      ...waypoint,
+      ...changes(waypoint, now),
+      status,
+      statusChangedAt: now,
+    };
+    const updatedWaypoints = waypoints.map((current, position) =>
+      position === index ? updated : current,
+    );
+
+    const data = {
+      routeId: route.id,
+      requestId: route.requestId,
+      vehicleId: route.vehicleId,
+      stopId,
+      waypointIndex: index,
+      address: updated.address,
+      previousStatus,
+      status,
+      changedAt: now,
+      changedBy,
+      plannedArrival: updated.estimatedArrival,
+      ...(updated.arrivedAt && {
+        arrivedAt: updated.arrivedAt,
+        // Actual against planned arrival; negative when early
+        arrivalDelaySeconds: Math.round(
+          (Date.parse(updated.arrivedAt) -
+            Date.parse(updated.estimatedArrival)) /
+            1000,
+        ),
+      }),
+      ...(status !== 'ARRIVED' && {
+        reasonCode: updated.reasonCode,
+        note: updated.note,
+        proofOfDelivery: updated.proofOfDelivery,
+      }),
+    };
+    const eventType = STOP_EVENT_TYPES[status];
+
+    await this.prisma.$transaction(async (tx) => {
+      // A re-plan or geofence write since the route was read would be undone
+      const { count } = await tx.optimizedRoute.updateMany({
+        where: { id: route.id, revision: route.revision },
+        data: { waypoints: updatedWaypoints, revision: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new RouteChangedException(route.id);
+      }
+      await this.outboxService.enqueue(
+        tx,
+        'route-tracking-events',
+        createDomainEvent(eventType, data),
+        route.vehicleId,
+      );
+    });
+
+    if (status === 'ARRIVED') {
+      this.routeOptimizationGateway.broadcastStopArrived(
+        route.id,
+        route.requestId,
+        data,
+      );
+    } else {
+      this.routeOptimizationGateway.broadcastStopStatusChanged(
+        route.id,
+        route.requestId,
+        data,
+      );
+    }
+    this.logger.log(
+      `Stop ${stopId} of route ${route.id} ${previousStatus} -> ${status}`,
+    );
+
+    return toStopView(updated, index);
+  }
+}
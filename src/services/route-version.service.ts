@@ -0,0 +1,113 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { RouteUpdate, RouteVersion } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { StoredWaypoint } from './route-optimization.service';
+import { diffRouteVersions } from '../utils/route-diff.utils';
+
+type RouteVersionWithReason = RouteVersion & {
+  routeUpdate: RouteUpdate | null;
+};
+
+// Why a version was planned; the original plan has no re-plan behind it
+function describeVersion({ routeUpdate, ...version }: RouteVersionWithReason) {
+  return {
+    version: version.version,
+    totalDistance: version.totalDistance,
+    totalDuration: version.totalDuration,
+    createdAt: version.createdAt,
+    reason: routeUpdate?.updateReason ?? null,
+    currentLocation: routeUpdate?.currentLocation ?? null,
+  };
+}
+
+/**
+ * Every plan a route has had, from the original through each re-plan, and
+ * what changed between any two of them
+ */
+@Injectable()
+export class RouteVersionService {
+  constructor(private prisma: PrismaService) {}
+
+  async listVersions(routeId: string) {
+    const route = await this.findRoute(routeId);
+    const versions = await this.prisma.routeVersion.findMany({
+      where: { routeId },
+      orderBy: { version: 'asc' },
+      include: { routeUpdate: true },
+    });
+    return {
+      routeId,
+      currentVersion: route.version,
+      versions: versions.map(describeVersion),
+    };
+  }
+
+  async getVersion(routeId: string, version: number) {
+    const routeVersion = await this.findVersion(routeId, version);
+    return {
+      routeId,
+      ...describeVersion(routeVersion),
+      waypoints: routeVersion.waypoints as StoredWaypoint[],
+      polyline: routeVersion.polyline,
+    };
+  }
+
+  /**
+   * Compare two plans of a route, by default the latest with the one before.
+   * The re-plans in between say why stops moved.
+   */
+  async diffVersions(routeId: string, from?: number, to?: number) {
+    const route = await this.findRoute(routeId);
+    const toVersion = to ?? route.version;
+    const fromVersion = from ?? Math.max(1, toVersion - 1);
+
+    const [fromPlan, toPlan] = await Promise.all([
+      this.findVersion(routeId, fromVersion),
+      this.findVersion(routeId, toVersion),
+    ]);
+    const replans = await this.prisma.routeVersion.findMany({
+      where: {
+        routeId,
+        version: {
+          gt: Math.min(fromVersion, toVersion),
+          lte: Math.max(fromVersion, toVersion),
+        },
+      },
+      orderBy: { version: 'asc' },
+      include: { routeUpdate: true },
+    });
+
+    return {
+      routeId,
+      ...diffRouteVersions(
+        {
+          ...fromPlan,
+          waypoints: fromPlan.waypoints as StoredWaypoint[],
+        },
+        { ...toPlan, waypoints: toPlan.waypoints as StoredWaypoint[] },
+      ),
+      replans: replans.map(describeVersion),
+    };
+  }
+
+  private async findRoute(routeId: string) {
+    const route = await this.prisma.optimizedRoute.findUnique({
+      where: { id: routeId },
+    });
+    if (!route) {
+      throw new NotFoundException(`Route ${routeId} not found`);
+    }
+    return route;
+  }
+
+  private async findVersion(routeId: string, version: number) {
+    const routeVersion = await this.prisma.routeVersion.findUnique({
+      where: { routeId_version: { routeId, version } },
+      include: { routeUpdate: true },
+    });
+    if (!routeVersion) {
+      throw new NotFoundException(`Route ${routeId} has no version ${version}`);
+    }
+    return routeVersion;
+  }
+}
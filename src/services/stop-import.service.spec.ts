@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RouteOptimizationService } from './route-optimization.service';
+import { StopImportService } from './stop-import.service';
+
+const upload = (originalname: string, content: string) => ({
+  originalname,
+  mimetype: 'application/octet-stream',
+  buffer: Buffer.from(content),
+});
+
+describe('StopImportService', () => {
+  let service: StopImportService;
+  let optimizeRoute: jest.Mock;
+
+  beforeEach(async () => {
+    optimizeRoute = jest.fn().mockResolvedValue({ requestId: 'request-1' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StopImportService,
+        { provide: RouteOptimizationService, useValue: { optimizeRoute } },
+      ],
+    }).compile();
+
+    service = module.get(StopImportService);
+  });
+
+  it('reads CSV rows through the column mapping', async () => {
+    const csv = [
+      'Name,Lat,Lng,demandWeight,Opens,timeWindowEnd',
+      'Depot,52.52,13.405,,,',
+      '"Kiez Markt, Tor 2",52.5,13.4,120,2026-10-18T09:00:00Z,2026-10-18T10:00:00Z',
+      'Alexanderplatz 1,,,,,',
+    ].join('\r\n');
+
+    const result = await service.importStops(
+      upload('stops.csv', csv),
+      {
+        columnMapping: {
+          address: 'name',
+          latitude: 'Lat',
+          longitude: 'Lng',
+          timeWindowStart: 'Opens',
+        },
+      },
+      'user-1',
+    );
+
+    expect(result).toEqual({
+      format: 'csv',
+      totalStops: 3,
+      stops: [
+        { address: 'Depot', latitude: 52.52, longitude: 13.405 },
+        {
+          address: 'Kiez Markt, Tor 2',
+          latitude: 52.5,
+          longitude: 13.4,
+          demand: { weight: 120 },
+          timeWindow: {
+            start: '2026-10-18T09:00:00Z',
+            end: '2026-10-18T10:00:00Z',
+          },
+        },
+        { address: 'Alexanderplatz 1' },
+      ],
+    });
+    expect(optimizeRoute).not.toHaveBeenCalled();
+  });
+
+  it('reports every invalid row by its spreadsheet row number', async () => {
+    const csv = [
+      'address,latitude,longitude,serviceDurationSeconds',
+      'Depot,52.52,13.405,',
+      'A,52.5,,',
+      'B,52.51,13.41,ten',
+    ].join('\n');
+
+    const error = await service
+      .importStops(upload('stops.csv', csv), {}, 'user-1')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    const { rows } = (error as BadRequestException).getResponse() as {
+      rows: Array<{ row: number; errors: Array<{ field: string }> }>;
+    };
+    expect(rows.map(({ row, errors }) => [row, errors[0].field])).toEqual([
+      [3, 'longitude'],
+      [4, 'serviceDurationSeconds'],
+    ]);
+  });
+
+  it('counts blank lines and line breaks in quotes towards row numbers', async () => {
+    const csv = [
+      'address,latitude,longitude',
+      '"Depot',
+      'Gate 2",52.52,13.405',
+      '',
+      'A,52.5,',
+    ].join('\n');
+
+    const error = await service
+      .importStops(upload('stops.csv', csv), {}, 'user-1')
+      .catch((caught: unknown) => caught);
+
+    const { rows } = (error as BadRequestException).getResponse() as {
+      rows: Array<{ row: number }>;
+    };
+    expect(rows.map(({ row }) => row)).toEqual([5]);
+  });
+
+  it('optimizes GeoJSON point features for a vehicle', async () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [13.405, 52.52] },
+          properties: { address: 'Depot' },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [13.4, 52.5] },
+          properties: { address: 'A', demand: { weight: 80 } },
+        },
+      ],
+    });
+
+    await service.importStops(
+      upload('stops.geojson', geojson),
+      { vehicleId: 'truck-7' },
+      'user-1',
+    );
+
+    expect(optimizeRoute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        vehicleId: 'truck-7',
+        stops: [
+          { address: 'Depot', latitude: 52.52, longitude: 13.405 },
+          {
+            address: 'A',
+            latitude: 52.5,
+            longitude: 13.4,
+            demand: { weight: 80 },
+          },
+        ],
+      }),
+      'user-1',
+    );
+  });
+
+  it('reports a Point feature without a position', async () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [13.405, 52.52] },
+          properties: { address: 'Depot' },
+        },
+        {
+          type: 'Feature',
+          geometry: { type: 'Point' },
+          properties: { address: 'A' },
+        },
+      ],
+    });
+
+    const error = await service
+      .importStops(upload('stops.geojson', geojson), {}, 'user-1')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    const { rows } = (error as BadRequestException).getResponse() as {
+      rows: Array<{ row: number; errors: Array<{ field: string }> }>;
+    };
+    expect(rows.map(({ row, errors }) => [row, errors[0].field])).toEqual([
+      [2, 'geometry'],
+    ]);
+  });
+});
@@ -0,0 +1,302 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { z } from 'zod';
+import {
+  MAX_IMPORT_STOPS,
+  StopImportDto,
+  StopImportField,
+  StopImportFormat,
+  UploadedStopFile,
+} from '../dto/stop-import.dto';
+import {
+  RouteStopInputDto,
+  optimizeRouteRequestSchema,
+  routeStopInputSchema,
+} from '../dto/optimize-route.dto';
+import { LOAD_DIMENSIONS } from '../routing/routing-provider.interface';
+import { CsvRecord, parseCsv } from '../utils/csv.utils';
+import { RouteOptimizationService } from './route-optimization.service';
+
+type FieldReader = (field: StopImportField) => unknown;
+
+type ColumnMapping = NonNullable<StopImportDto['columnMapping']>;
+
+// A row that could not be read into a stop; a CSV row is the line of the file
+// it starts on, a GeoJSON row the position of its feature counting from 1
+export type StopImportRowError = {
+  row: number;
+  errors: Array<{ field: string; message: string }>;
+};
+
+type GeoJsonFeature = {
+  properties?: Record<string, unknown> | null;
+  geometry?: { type: string; coordinates: number[] } | null;
+} | null;
+
+const NUMERIC_FIELDS: StopImportField[] = [
+  'latitude',
+  'longitude',
+  'serviceDurationSeconds',
+  'demandWeight',
+  'demandVolume',
+  'demandPallets',
+];
+
+// Where GeoJSON properties shaped like a stop (as in a route export) keep these fields
+const NESTED_PROPERTIES: Partial<Record<StopImportField, [string, string]>> = {
+  timeWindowStart: ['timeWindow', 'start'],
+  timeWindowEnd: ['timeWindow', 'end'],
+  demandWeight: ['demand', 'weight'],
+  demandVolume: ['demand', 'volume'],
+  demandPallets: ['demand', 'pallets'],
+};
+
+const DEFAULT_IMPORT_PREFERENCES = {
+  avoidTolls: false,
+  avoidHighways: false,
+  optimizeFor: 'time' as const,
+};
+
+/**
+ * Reads stops from an uploaded CSV file or GeoJSON FeatureCollection and
+ * either returns them as a validated stop list or optimizes them for a vehicle
+ */
+@Injectable()
+export class StopImportService {
+  private readonly logger = new Logger(StopImportService.name);
+
+  constructor(private routeOptimizationService: RouteOptimizationService) {}
+
+  async importStops(
+    file: UploadedStopFile | undefined,
+    importDto: StopImportDto,
+    userId: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('A CSV or GeoJSON file is required');
+    }
+
+    const format = importDto.format ?? detectFormat(file);
+    const mapping = importDto.columnMapping ?? {};
+    const text = file.buffer.toString('utf8');
+    const rows =
+      format === 'csv'
+        ? readCsvRows(text, mapping)
+        : readGeoJsonRows(text, mapping);
+    if (rows.length === 0) {
+      throw new BadRequestException('The file contains no stops');
+    }
+    if (rows.length > MAX_IMPORT_STOPS) {
+      throw new BadRequestException(
+        `Too many stops (${rows.length}); the limit is ${MAX_IMPORT_STOPS}`,
+      );
+    }
+
+    const stops: RouteStopInputDto[] = [];
+    const rowErrors: StopImportRowError[] = [];
+    for (const { row, read, errors } of rows) {
+      const parsed = routeStopInputSchema.safeParse(toStopCandidate(read));
+      if (parsed.success && errors.length === 0) {
+        stops.push(parsed.data);
+      } else {
+        rowErrors.push({
+          row,
+          errors: [
+            ...errors,
+            ...(parsed.success ? [] : describeIssues(parsed.error)),
+          ],
+        });
+      }
+    }
+    if (rowErrors.length > 0) {
+      throw new BadRequestException({
+        message: `${rowErrors.length} of ${rows.length} rows are not valid stops`,
+        rows: rowErrors,
+      });
+    }
+
+    this.logger.log(`Imported ${stops.length} stops from ${format}`);
+    if (!importDto.vehicleId) {
+      return { format, stops, totalStops: stops.length };
+    }
+
+    // Checks that need the whole route, such as shipment pairs, happen here
+    const request = optimizeRouteRequestSchema.safeParse({
+      vehicleId: importDto.vehicleId,
+      stops,
+      preferences: importDto.preferences ?? DEFAULT_IMPORT_PREFERENCES,
+      capacityProfileId: importDto.capacityProfileId,
+    });
+    if (!request.success) {
+      throw new BadRequestException({
+        message: 'Imported stops can not be optimized',
+        errors: describeIssues(request.error),
+      });
+    }
+
+    return this.routeOptimizationService.optimizeRoute(request.data, userId);
+  }
+}
+
+function detectFormat(file: UploadedStopFile): StopImportFormat {
+  const name = file.originalname.toLowerCase();
+  if (name.endsWith('.csv') || file.mimetype === 'text/csv') {
+    return 'csv';
+  }
+  if (
+    /\.(geo)?json$/.test(name) ||
+    ['application/geo+json', 'application/json'].includes(file.mimetype)
+  ) {
+    return 'geojson';
+  }
+  throw new BadRequestException(
+    'Could not tell the file format from its name; set format to csv or geojson',
+  );
+}
+
+function describeIssues(error: z.ZodError) {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+function readCsvRows(text: string, mapping: ColumnMapping) {
+  let table: CsvRecord[];
+  try {
+    table = parseCsv(text);
+  } catch (error) {
+    throw new BadRequestException(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  const [header, ...records] = table;
+  const headers = header?.fields ?? [];
+  const columnOf = (name: string) =>
+    headers.findIndex(
+      (header) => header.trim().toLowerCase() === name.toLowerCase(),
+    );
+
+  const missing = Object.values(mapping).filter((name) => columnOf(name) < 0);
+  if (missing.length > 0) {
+    throw new BadRequestException(
+      `Mapped columns not found in the CSV header: ${missing.join(', ')}`,
+    );
+  }
+
+  return records.map(({ line, fields }) => ({
+    row: line,
+    errors: [],
+    read: (field: StopImportField) => {
+      const cell = fields[columnOf(mapping[field] ?? field)]?.trim();
+      if (!cell) {
+        return undefined;
+      }
+      // Non-numeric text is left as is so validation reports it
+      return NUMERIC_FIELDS.includes(field) && !Number.isNaN(Number(cell))
+        ? Number(cell)
+        : cell;
+    },
+  }));
+}
+
+function readGeoJsonRows(text: string, mapping: ColumnMapping) {
+  let collection: unknown;
+  try {
+    collection = JSON.parse(text);
+  } catch {
+    throw new BadRequestException('The file is not valid JSON');
+  }
+  const features = (collection as { type?: string; features?: unknown })
+    ?.features;
+  if (
+    (collection as { type?: string })?.type !== 'FeatureCollection' ||
+    !Array.isArray(features)
+  ) {
+    throw new BadRequestException('Expected a GeoJSON FeatureCollection');
+  }
+
+  return features.map((feature: GeoJsonFeature, index) => {
+    const properties = feature?.properties ?? {};
+    const geometry = feature?.geometry;
+    const isPoint = geometry?.type === 'Point';
+    const hasPosition =
+      isPoint &&
+      Array.isArray(geometry.coordinates) &&
+      geometry.coordinates.length >= 2;
+    return {
+      row: index + 1,
+      errors:
+        geometry && !isPoint
+          ? [
+              {
+                field: 'geometry',
+                message: 'Only Point geometries are supported',
+              },
+            ]
+          : isPoint && !hasPosition
+            ? [
+                {
+                  field: 'geometry',
+                  message: 'A Point needs a longitude and a latitude',
+                },
+              ]
+            : [],
+      read: (field: StopImportField) => {
+        const name = mapping[field];
+        if (!name && hasPosition && field === 'latitude') {
+          return geometry.coordinates[1];
+        }
+        if (!name && hasPosition && field === 'longitude') {
+          return geometry.coordinates[0];
+        }
+        const nested = NESTED_PROPERTIES[field];
+        return (
+          properties[name ?? field] ??
+          (nested && !name
+            ? (properties[nested[0]] as Record<string, unknown> | undefined)?.[
+                nested[1]
+              ]
+            : undefined)
+        );
+      },
+    };
+  });
+}
+
+/**
+ * The stop a row describes, leaving out anything the row has no value for
+ */
+function toStopCandidate(read: FieldReader) {
+  const value = (field: StopImportField) => {
+    const raw = read(field);
+    return raw === '' || raw === null ? undefined : raw;
+  };
+  const timeWindowStart = value('timeWindowStart');
+  const timeWindowEnd = value('timeWindowEnd');
+  const demand = Object.fromEntries(
+    LOAD_DIMENSIONS.flatMap((dimension) => {
+      const amount = value(
+        `demand${dimension[0].toUpperCase()}${dimension.slice(1)}` as StopImportField,
+      );
+      return amount === undefined ? [] : [[dimension, amount]];
+    }),
+  );
+
+  const candidate: Record<string, unknown> = {
+    id: value('id'),
+    latitude: value('latitude'),
+    longitude: value('longitude'),
+    address: value('address'),
+    timeWindow:
+      timeWindowStart !== undefined || timeWindowEnd !== undefined
+        ? { start: timeWindowStart, end: timeWindowEnd }
+        : undefined,
+    serviceDurationSeconds: value('serviceDurationSeconds'),
+    demand: Object.keys(demand).length > 0 ? demand : undefined,
+    shipmentId: value('shipmentId'),
+    stopType: value('stopType'),
+  };
+  return Object.fromEntries(
+    Object.entries(candidate).filter(([, field]) => field !== undefined),
+  );
+}
@@ -0,0 +1,127 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../prisma/prisma.service';
+import { TrafficConditionService } from './traffic-condition.service';
+
+const center = { latitude: 52.52, longitude: 13.405 };
+
+const condition = (id: string, latitude: number, longitude: number) => ({
+  id,
+  latitude,
+  longitude,
+  condition: 'BLOCKED',
+  severity: 'HIGH',
+  resolvedAt: null,
+});
+
+const conditionsAt = (count: number, firstIndex = 0) =>
+  Array.from({ length: count }, (_, index) =>
+    condition(
+      `condition-${firstIndex + index}`,
+      center.latitude,
+      center.longitude,
+    ),
+  );
+
+// Inside the box around a 500 m circle, but about 600 m from its centre
+const inCorner = (id: string) =>
+  condition(id, center.latitude + 0.004, center.longitude + 0.006);
+
+describe('TrafficConditionService', () => {
+  let service: TrafficConditionService;
+  let findMany: jest.Mock;
+  let findUnique: jest.Mock;
+  let update: jest.Mock;
+
+  beforeEach(async () => {
+    findMany = jest.fn();
+    findUnique = jest.fn();
+    update = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrafficConditionService,
+        {
+          provide: PrismaService,
+          useValue: { trafficCondition: { findMany, findUnique, update } },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TrafficConditionService);
+  });
+
+  it('drops conditions outside the radius before the result limit', async () => {
+    // A full first page entirely outside the circle, then a short page
+    findMany
+      .mockResolvedValueOnce(
+        Array.from({ length: 500 }, (_, index) => inCorner(`corner-${index}`)),
+      )
+      .mockResolvedValueOnce([
+        condition('near', center.latitude, center.longitude),
+        inCorner('far'),
+      ]);
+
+    const result = await service.findConditions({ ...center, radius: 500 });
+
+    expect(result.conditions.map(({ id }) => id)).toEqual(['near']);
+    expect(result.truncated).toBe(false);
+    expect(findMany).toHaveBeenCalledTimes(2);
+    expect(findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ skip: 500, take: 500 }),
+    );
+    // The circle is narrowed to its box in the query
+    const [{ where }] = findMany.mock.calls[0] as [
+      { where: { latitude: { gte: number; lte: number } } },
+    ];
+    expect(where.latitude.gte).toBeCloseTo(52.5155, 4);
+    expect(where.latitude.lte).toBeCloseTo(52.5245, 4);
+  });
+
+  it('reports when more conditions matched than are returned', async () => {
+    findMany
+      .mockResolvedValueOnce(conditionsAt(500, 0))
+      .mockResolvedValueOnce(conditionsAt(1, 500));
+
+    const result = await service.findConditions({
+      minLatitude: 52,
+      minLongitude: 13,
+      maxLatitude: 60,
+      maxLongitude: 14,
+    });
+
+    expect(result.totalConditions).toBe(500);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('stops reading once a page comes back short', async () => {
+    findMany.mockResolvedValueOnce(conditionsAt(2, 0));
+
+    const result = await service.findConditions({ includeResolved: true });
+
+    expect(result.totalConditions).toBe(2);
+    expect(result.truncated).toBe(false);
+    expect(findMany).toHaveBeenCalledTimes(1);
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: {} }),
+    );
+  });
+
+  it('leaves an already resolved condition as it was', async () => {
+    const resolved = { id: 'condition-1', resolvedAt: new Date() };
+    findUnique.mockResolvedValue(resolved);
+
+    await expect(
+      service.resolveCondition('condition-1', 'user-1'),
+    ).resolves.toBe(resolved);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown conditions', async () => {
+    findUnique.mockResolvedValue(null);
+
+    await expect(service.getCondition('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, TrafficCondition } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateTrafficConditionDto,
+  UpdateTrafficConditionDto,
+  TrafficConditionsFilterDto,
+} from '../dto/traffic-condition.dto';
+import {
+  Coordinates,
+  boundingBoxAround,
+  boundingBoxOf,
+  distanceBetween,
+} from '../utils/geo.utils';
+import {
+  INCIDENT_PROXIMITY_METERS,
+  PLANNING_CONDITIONS,
+  TrafficIncident,
+} from '../utils/traffic-impact.utils';
+
+const DEFAULT_SEARCH_RADIUS_METERS = 5000;
+// Most conditions one query returns; the response says when more matched
+const MAX_CONDITIONS = 500;
+
+@Injectable()
+export class TrafficConditionService {
+  private readonly logger = new Logger(TrafficConditionService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async createCondition(dto: CreateTrafficConditionDto, userId?: string) {
+    const condition = await this.prisma.trafficCondition.create({
+      data: {
+        latitude: dto.latitude,
+        longitude: dto.longitude,
+        condition: dto.condition,
+        severity: dto.severity,
+        description: dto.description,
+        source: dto.source,
+        reportedBy: userId,
+      },
+    });
+
+    this.logger.log(
+      `Traffic condition ${condition.id} recorded (${condition.condition}/${condition.severity})`,
+    );
+    return condition;
+  }
+
+  async getCondition(id: string) {
+    const condition = await this.prisma.trafficCondition.findUnique({
+      where: { id },
+    });
+
+    if (!condition) {
+      throw new NotFoundException(`Traffic condition ${id} not found`);
+    }
+
+    return condition;
+  }
+
+  async updateCondition(id: string, dto: UpdateTrafficConditionDto) {
+    await this.getCondition(id);
+
+    return this.prisma.trafficCondition.update({
+      where: { id },
+      data: dto,
+    });
+  }
+
+  async resolveCondition(id: string, userId?: string) {
+    const condition = await this.getCondition(id);
+
+    if (condition.resolvedAt) {
+      return condition;
+    }
+
+    const resolved = await this.prisma.trafficCondition.update({
+      where: { id },
+      data: {
+        resolvedAt: new Date(),
+        resolvedBy: userId,
+      },
+    });
+
+    this.logger.log(`Traffic condition ${id} resolved`);
+    return resolved;
+  }
+
+  async deleteCondition(id: string) {
+    await this.getCondition(id);
+    await this.prisma.trafficCondition.delete({ where: { id } });
+
+    this.logger.log(`Traffic condition ${id} deleted`);
+    return { id, deleted: true };
+  }
+
+  async findConditions(query: TrafficConditionsFilterDto) {
+    const where: Prisma.TrafficConditionWhereInput = {};
+
+    if (!query.includeResolved) {
+      where.resolvedAt = null;
+    }
+    if (query.severity) {
+      where.severity = query.severity;
+    }
+    if (query.condition) {
+      where.condition = query.condition;
+    }
+
+    const center =
+      query.latitude !== undefined && query.longitude !== undefined
+        ? { latitude: query.latitude, longitude: query.longitude }
+        : null;
+    const radius = query.radius ?? DEFAULT_SEARCH_RADIUS_METERS;
+
+    // Bounding box takes precedence; a centre point is narrowed to its enclosing box first
+    const bbox =
+      query.minLatitude !== undefined &&
+      query.minLongitude !== undefined &&
+      query.maxLatitude !== undefined &&
+      query.maxLongitude !== undefined
+        ? {
+            minLatitude: query.minLatitude,
+            minLongitude: query.minLongitude,
+            maxLatitude: query.maxLatitude,
+            maxLongitude: query.maxLongitude,
+          }
+        : center
+          ? boundingBoxAround(center, radius)
+          : null;
+
+    if (bbox) {
+      where.latitude = { gte: bbox.minLatitude, lte: bbox.maxLatitude };
+      where.longitude = { gte: bbox.minLongitude, lte: bbox.maxLongitude };
+    }
+
+    // The radius is applied here rather than in the query, so the box is read
+    // in pages until enough conditions fall inside the circle
+    const withinRadius = (condition: TrafficCondition) =>
+      !center ||
+      query.minLatitude !== undefined ||
+      distanceBetween(center, condition) <= radius;
+
+    const conditions: TrafficCondition[] = [];
+    let truncated = false;
+    for (let skip = 0; !truncated; skip += MAX_CONDITIONS) {
+      const page = await this.prisma.trafficCondition.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take: MAX_CONDITIONS,
+      });
+      for (const condition of page.filter(withinRadius)) {
+        if (conditions.length === MAX_CONDITIONS) {
+          truncated = true;
+          break;
+        }
+        conditions.push(condition);
+      }
+      if (page.length < MAX_CONDITIONS) {
+        break;
+      }
+    }
+
+    return {
+      conditions,
+      totalConditions: conditions.length,
+      truncated,
+    };
+  }
+
+  /**
+   * Active incidents that can affect travel between the given points
+   */
+  async findActiveIncidents(points: Coordinates[]): Promise<TrafficIncident[]> {
+    const bbox = boundingBoxOf(points, INCIDENT_PROXIMITY_METERS);
+    if (!bbox) {
+      return [];
+    }
+
+    return this.prisma.trafficCondition.findMany({
+      where: {
+        resolvedAt: null,
+        condition: { in: PLANNING_CONDITIONS },
+        latitude: { gte: bbox.minLatitude, lte: bbox.maxLatitude },
+        longitude: { gte: bbox.minLongitude, lte: bbox.maxLongitude },
+      },
+      select: {
+        id: true,
+        latitude: true,
+        longitude: true,
+        condition: true,
+        severity: true,
+        description: true,
+      },
+    });
+  }
+}
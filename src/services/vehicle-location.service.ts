@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { VehicleLocationDto } from '../dto/vehicle-location.dto';
+
+@Injectable()
+export class VehicleLocationService {
+  private readonly logger = new Logger(VehicleLocationService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Store the latest known position of a vehicle and attach it to the
+   * vehicle's active (most recently planned) route. Returns null when the
+   * fix is older than the one already stored.
+   */
+  async recordPosition(position: VehicleLocationDto) {
+    const existing = await this.prisma.vehiclePosition.findUnique({
+      where: { vehicleId: position.vehicleId },
+    });
+
+    // Telemetry can arrive out of order; never overwrite a newer fix
+    if (existing && existing.recordedAt > position.recordedAt) {
+      this.logger.debug(
+        `Ignoring stale position for vehicle ${position.vehicleId}`,
+      );
+      return null;
+    }
+
+    const activeRoute = await this.getActiveRoute(position.vehicleId);
+    const data = {
+      routeId: activeRoute?.id ?? null,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      speed: position.speed ?? null,
+      heading: position.heading ?? null,
+      accuracy: position.accuracy ?? null,
+      recordedAt: position.recordedAt,
+      // Off-route fixes only count against the route they were measured on
+      ...(existing?.routeId !== activeRoute?.id && { offRouteFixes: 0 }),
+    };
+
+    return this.prisma.vehiclePosition.upsert({
+      where: { vehicleId: position.vehicleId },
+      create: { vehicleId: position.vehicleId, ...data },
+      update: data,
+    });
+  }
+
+  async getCurrentPosition(vehicleId: string) {
+    return this.prisma.vehiclePosition.findUnique({
+      where: { vehicleId },
+    });
+  }
+
+  async getActiveRoute(vehicleId: string) {
+    return this.prisma.optimizedRoute.findFirst({
+      where: { vehicleId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
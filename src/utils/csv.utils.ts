@@ -0,0 +1,68 @@
+export interface CsvRecord {
+  /** Line of the text the record starts on, counting from 1 */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split CSV text (RFC 4180) into records of fields. Quoted fields may contain
+ * commas, doubled quotes and line breaks; blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const rows: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push({ line: rowLine, fields: row });
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        if (char === '\n' || (char === '\r' && input[index + 1] !== '\n')) {
+          line++;
+        }
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index++;
+      }
+      endRow();
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Malformed CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,155 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  minLongitude: number;
+  maxLatitude: number;
+  maxLongitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Calculate distance between two points using Haversine formula
+ * Returns distance in meters
+ */
+export function calculateHaversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+}
+
+export function distanceBetween(from: Coordinates, to: Coordinates): number {
+  return calculateHaversineDistance(
+    from.latitude,
+    from.longitude,
+    to.latitude,
+    to.longitude,
+  );
+}
+
+/**
+ * Shortest distance (meters) from a point to a path of straight segments.
+ */
+export function distanceToPath(
+  point: Coordinates,
+  path: Coordinates[],
+): number {
+  if (path.length === 0) {
+    return Infinity;
+  }
+  if (path.length === 1) {
+    return distanceBetween(point, path[0]);
+  }
+
+  let nearest = Infinity;
+  for (let index = 0; index < path.length - 1; index++) {
+    nearest = Math.min(
+      nearest,
+      distanceToSegment(point, path[index], path[index + 1]),
+    );
+  }
+  return nearest;
+}
+
+/**
+ * Bounding box that fully contains a circle of the given radius (meters).
+ * Used as a cheap index-friendly prefilter before the exact Haversine check.
+ */
+export function boundingBoxAround(
+  center: Coordinates,
+  radiusMeters: number,
+): BoundingBox {
+  const latDelta = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const cosLat = Math.max(Math.cos(toRadians(center.latitude)), 0.000001);
+  const lonDelta = Math.min(latDelta / cosLat, 180);
+
+  return {
+    minLatitude: Math.max(center.latitude - latDelta, -90),
+    minLongitude: Math.max(center.longitude - lonDelta, -180),
+    maxLatitude: Math.min(center.latitude + latDelta, 90),
+    maxLongitude: Math.min(center.longitude + lonDelta, 180),
+  };
+}
+
+/**
+ * Shortest distance (meters) from a point to the straight segment start→end.
+ * Uses a local equirectangular projection, accurate enough for city-scale legs.
+ */
+export function distanceToSegment(
+  point: Coordinates,
+  start: Coordinates,
+  end: Coordinates,
+): number {
+  const cosLat = Math.cos(toRadians(start.latitude));
+  const project = (p: Coordinates) => ({
+    x: toRadians(p.longitude - start.longitude) * cosLat * EARTH_RADIUS_METERS,
+    y: toRadians(p.latitude - start.latitude) * EARTH_RADIUS_METERS,
+  });
+
+  const p = project(point);
+  const b = project(end);
+  const lengthSquared = b.x * b.x + b.y * b.y;
+  if (lengthSquared === 0) {
+    return distanceBetween(point, start);
+  }
+
+  const t = Math.max(0, Math.min(1, (p.x * b.x + p.y * b.y) / lengthSquared));
+  return Math.hypot(p.x - t * b.x, p.y - t * b.y);
+}
+
+export function boundingBoxOf(
+  points: Coordinates[],
+  paddingMeters = 0,
+): BoundingBox | null {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const latitudes = points.map((p) => p.latitude);
+  const longitudes = points.map((p) => p.longitude);
+  const box = {
+    minLatitude: Math.min(...latitudes),
+    minLongitude: Math.min(...longitudes),
+    maxLatitude: Math.max(...latitudes),
+    maxLongitude: Math.max(...longitudes),
+  };
+
+  if (paddingMeters <= 0) {
+    return box;
+  }
+
+  const lower = boundingBoxAround(
+    { latitude: box.minLatitude, longitude: box.minLongitude },
+    paddingMeters,
+  );
+  const upper = boundingBoxAround(
+    { latitude: box.maxLatitude, longitude: box.maxLongitude },
+    paddingMeters,
+  );
+  return {
+    minLatitude: lower.minLatitude,
+    minLongitude: Math.min(lower.minLongitude, upper.minLongitude),
+    maxLatitude: upper.maxLatitude,
+    maxLongitude: Math.max(lower.maxLongitude, upper.maxLongitude),
+  };
+}
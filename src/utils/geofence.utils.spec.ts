@@ -0,0 +1,76 @@
+import { detectStopEvents } from './geofence.utils';
+
+// 0.001 degrees of latitude is about 111 meters
+const stops = [
+  { latitude: 0, longitude: 0 },
+  { latitude: 0.01, longitude: 0, geofenceRadiusMeters: 50 },
+  { latitude: 0.02, longitude: 0 },
+];
+const at = (minutes: number) =>
+  new Date(Date.parse('2026-10-18T09:00:00.000Z') + minutes * 60 * 1000);
+
+describe('detectStopEvents', () => {
+  it('arrives inside the stop radius and departs once well outside it', () => {
+    const inside = detectStopEvents(
+      stops,
+      { latitude: 0.0104, longitude: 0 },
+      at(10),
+      100,
+    );
+    // 44 m from the second stop, within its own 50 m radius
+    expect(inside.events).toEqual([
+      { type: 'arrived', waypointIndex: 1, at: at(10).toISOString() },
+    ]);
+    expect(inside.waypoints[1]).toMatchObject({
+      arrivedAt: at(10).toISOString(),
+      status: 'ARRIVED',
+    });
+
+    // Just outside the radius is still within the departure margin
+    const edge = detectStopEvents(
+      inside.waypoints,
+      { latitude: 0.0106, longitude: 0 },
+      at(12),
+      100,
+    );
+    expect(edge.events).toEqual([]);
+
+    const away = detectStopEvents(
+      inside.waypoints,
+      { latitude: 0.0112, longitude: 0 },
+      at(16),
+      100,
+    );
+    expect(away.events).toEqual([
+      { type: 'departed', waypointIndex: 1, at: at(16).toISOString() },
+    ]);
+    expect(away.waypoints[1]).toMatchObject({
+      arrivedAt: at(10).toISOString(),
+      departedAt: at(16).toISOString(),
+      visitedAt: at(16).toISOString(),
+      dwellSeconds: 6 * 60,
+    });
+  });
+
+  it('ignores breaks and stops already visited', () => {
+    const waypoints = [
+      { ...stops[0], visitedAt: at(0).toISOString() },
+      { latitude: 0.0005, longitude: 0, type: 'BREAK' as const },
+      stops[2],
+    ];
+
+    expect(
+      detectStopEvents(waypoints, { latitude: 0, longitude: 0 }, at(1), 100)
+        .events,
+    ).toEqual([]);
+  });
+
+  it('does not arrive at stops already completed, failed or skipped', () => {
+    const waypoints = [stops[0], { ...stops[1], status: 'SKIPPED' as const }];
+
+    expect(
+      detectStopEvents(waypoints, { latitude: 0.01, longitude: 0 }, at(1), 100)
+        .events,
+    ).toEqual([]);
+  });
+});
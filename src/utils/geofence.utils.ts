@@ -0,0 +1,88 @@
+import { Coordinates, distanceBetween } from './geo.utils';
+import { StatusedWaypoint, isStopPending } from './stop-status.utils';
+
+// GPS jitter at the edge of a geofence shouldn't end a visit, so the vehicle
+// has to get this much further out before it counts as departed
+export const DEPARTURE_RADIUS_FACTOR = 1.5;
+
+export type GeofencedWaypoint = Coordinates &
+  StatusedWaypoint & {
+    type?: 'BREAK';
+    geofenceRadiusMeters?: number;
+    departedAt?: string;
+    dwellSeconds?: number;
+  };
+
+export type StopEvent = {
+  type: 'arrived' | 'departed';
+  waypointIndex: number;
+  at: string; // ISO 8601
+};
+
+/**
+ * Check a vehicle position against a route's stops. A visit in progress
+ * ends once the vehicle leaves its stop's geofence; otherwise the vehicle
+ * arrives at the nearest pending stop whose geofence it is inside.
+ * Returns the waypoints with arrival, departure and dwell time filled in and
+ * the events that happened.
+ */
+export function detectStopEvents<T extends GeofencedWaypoint>(
+  waypoints: T[],
+  position: Coordinates,
+  recordedAt: Date,
+  defaultRadiusMeters: number,
+) {
+  const at = recordedAt.toISOString();
+  const radiusOf = (waypoint: T) =>
+    waypoint.geofenceRadiusMeters ?? defaultRadiusMeters;
+  const updated = [...waypoints];
+  const events: StopEvent[] = [];
+
+  const openIndex = updated.findIndex(
+    (waypoint) => waypoint.arrivedAt && !waypoint.departedAt,
+  );
+  if (openIndex >= 0) {
+    const open = updated[openIndex];
+    if (
+      distanceBetween(position, open) <=
+      radiusOf(open) * DEPARTURE_RADIUS_FACTOR
+    ) {
+      return { waypoints: updated, events };
+    }
+
+    updated[openIndex] = {
+      ...open,
+      departedAt: at,
+      dwellSeconds: Math.max(
+        0,
+        Math.round((recordedAt.getTime() - Date.parse(open.arrivedAt!)) / 1000),
+      ),
+      visitedAt: open.visitedAt ?? at,
+    };
+    events.push({ type: 'departed', waypointIndex: openIndex, at });
+  }
+
+  // Ties go to the earlier stop, e.g. the origin rather than a round trip's return
+  let arrivedIndex = -1;
+  let nearest = Infinity;
+  updated.forEach((waypoint, index) => {
+    if (waypoint.type === 'BREAK' || !isStopPending(waypoint)) {
+      return;
+    }
+    const distance = distanceBetween(position, waypoint);
+    if (distance <= radiusOf(waypoint) && distance < nearest) {
+      arrivedIndex = index;
+      nearest = distance;
+    }
+  });
+  if (arrivedIndex >= 0) {
+    updated[arrivedIndex] = {
+      ...updated[arrivedIndex],
+      arrivedAt: at,
+      status: 'ARRIVED',
+    };
+    events.push({ type: 'arrived', waypointIndex: arrivedIndex, at });
+  }
+
+  return { waypoints: updated, events };
+}
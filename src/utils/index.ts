@@ -0,0 +1,8 @@
+export * from './geo.utils';
+export * from './traffic-impact.utils';
+export * from './polyline.utils';
+export * from './route-export.utils';
+export * from './csv.utils';
+export * from './geofence.utils';
+export * from './stop-status.utils';
+export * from './route-diff.utils';
@@ -0,0 +1,27 @@
+import { decodePolyline, encodePolyline } from './polyline.utils';
+
+// The worked example from Google's polyline algorithm documentation
+const points = [
+  { latitude: 38.5, longitude: -120.2 },
+  { latitude: 40.7, longitude: -120.95 },
+  { latitude: 43.252, longitude: -126.453 },
+];
+const encoded = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+describe('polyline utils', () => {
+  it('encodes points as offsets from the previous point', () => {
+    expect(encodePolyline(points)).toBe(encoded);
+    expect(encodePolyline([])).toBe('');
+  });
+
+  it('decodes back to the original points', () => {
+    expect(decodePolyline(encoded)).toEqual(points);
+    expect(decodePolyline(encodePolyline(points, 6), 6)).toEqual(points);
+  });
+
+  it('rejects a polyline that stops mid-value', () => {
+    expect(() => decodePolyline(encoded.slice(0, -1))).toThrow(
+      'Malformed polyline',
+    );
+  });
+});
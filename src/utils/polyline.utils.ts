@@ -0,0 +1,75 @@
+import { Coordinates } from './geo.utils';
+
+// Google's encoded polyline format, also used by OSRM and GraphHopper.
+// Precision is the number of decimal places kept; all three default to 5.
+export const DEFAULT_POLYLINE_PRECISION = 5;
+
+function encodeValue(value: number) {
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  return encoded + String.fromCharCode(remaining + 63);
+}
+
+/**
+ * Encode points as a polyline; each point is stored as the offset from the
+ * previous one
+ */
+export function encodePolyline(
+  points: Coordinates[],
+  precision = DEFAULT_POLYLINE_PRECISION,
+) {
+  const factor = 10 ** precision;
+  let previousLatitude = 0;
+  let previousLongitude = 0;
+  let encoded = '';
+
+  for (const point of points) {
+    const latitude = Math.round(point.latitude * factor);
+    const longitude = Math.round(point.longitude * factor);
+    encoded +=
+      encodeValue(latitude - previousLatitude) +
+      encodeValue(longitude - previousLongitude);
+    previousLatitude = latitude;
+    previousLongitude = longitude;
+  }
+
+  return encoded;
+}
+
+export function decodePolyline(
+  encoded: string,
+  precision = DEFAULT_POLYLINE_PRECISION,
+): Coordinates[] {
+  const factor = 10 ** precision;
+  const points: Coordinates[] = [];
+  let index = 0;
+  let latitude = 0;
+  let longitude = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Malformed polyline: ends mid-value');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    latitude += nextValue();
+    longitude += nextValue();
+    points.push({ latitude: latitude / factor, longitude: longitude / factor });
+  }
+
+  return points;
+}
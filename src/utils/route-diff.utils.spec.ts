@@ -0,0 +1,109 @@
+import { diffRouteVersions } from './route-diff.utils';
+
+const at = (minutes: number) =>
+  new Date(
+    Date.parse('2026-10-18T09:00:00.000Z') + minutes * 60 * 1000,
+  ).toISOString();
+const stop = (address: string, longitude: number, minutes: number) => ({
+  latitude: 0,
+  longitude,
+  address,
+  estimatedArrival: at(minutes),
+});
+
+describe('diffRouteVersions', () => {
+  const original = {
+    version: 1,
+    totalDistance: 30000,
+    totalDuration: 3600,
+    waypoints: [
+      stop('Depot', 0, 0),
+      stop('A', 1, 10),
+      stop('B', 2, 20),
+      stop('E', 2.5, 25),
+      stop('C', 3, 30),
+    ],
+  };
+  const replanned = {
+    version: 2,
+    totalDistance: 27500,
+    totalDuration: 4200,
+    waypoints: [
+      stop('Depot', 0, 0),
+      stop('C', 3, 15),
+      { ...stop('Rest break', 2, 25), type: 'BREAK' as const },
+      stop('A', 1, 40),
+      stop('E', 2.5, 50),
+      stop('D', 4, 55),
+    ],
+  };
+
+  it('reports added, removed and moved stops', () => {
+    const diff = diffRouteVersions(original, replanned);
+
+    expect(diff.added).toEqual([
+      {
+        waypointIndex: 5,
+        address: 'D',
+        latitude: 0,
+        longitude: 4,
+        estimatedArrival: at(55),
+      },
+    ]);
+    expect(diff.removed.map((removed) => removed.address)).toEqual(['B']);
+    // Only C jumped ahead; A and E keep their order behind the depot
+    expect(diff.reordered).toEqual([
+      { address: 'C', fromWaypointIndex: 4, toWaypointIndex: 1 },
+    ]);
+  });
+
+  it('reports arrival shifts for shared stops and the change in totals', () => {
+    const diff = diffRouteVersions(original, replanned);
+
+    expect(
+      diff.etaShifts.map(({ address, shiftSeconds }) => [
+        address,
+        shiftSeconds,
+      ]),
+    ).toEqual([
+      ['Depot', 0],
+      ['C', -15 * 60],
+      ['A', 30 * 60],
+      ['E', 25 * 60],
+    ]);
+    expect(diff.distance).toEqual({ from: 30000, to: 27500, change: -2500 });
+    expect(diff.duration).toEqual({ from: 3600, to: 4200, change: 600 });
+  });
+
+  it('tells a round trip return apart from the origin', () => {
+    const roundTrip = {
+      ...original,
+      waypoints: [...original.waypoints, stop('Depot', 0, 45)],
+    };
+
+    const diff = diffRouteVersions(roundTrip, roundTrip);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.reordered).toEqual([]);
+    expect(diff.etaShifts).toHaveLength(6);
+  });
+
+  it('follows stops by id when both plans have them', () => {
+    const withIds = (version: typeof original) => ({
+      ...version,
+      waypoints: version.waypoints.map((waypoint) => ({
+        ...waypoint,
+        stopId: `stop-${waypoint.address}`,
+      })),
+    });
+    // The same stop, geocoded again to a corrected position
+    const corrected = withIds(original);
+    corrected.waypoints[1] = { ...corrected.waypoints[1], longitude: 1.01 };
+
+    const diff = diffRouteVersions(withIds(original), corrected);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+});
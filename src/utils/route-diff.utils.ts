@@ -0,0 +1,153 @@
+import { Coordinates } from './geo.utils';
+
+export type VersionedWaypoint = Coordinates & {
+  address: string;
+  stopId?: string;
+  estimatedArrival: string; // ISO 8601
+  type?: 'BREAK';
+};
+
+export type DiffableRouteVersion = {
+  version: number;
+  totalDistance: number; // meters
+  totalDuration: number; // seconds
+  waypoints: VersionedWaypoint[];
+};
+
+type KeyedStop = {
+  key: string;
+  waypoint: VersionedWaypoint;
+  waypointIndex: number;
+};
+
+// A stop is known by its id. Plans stored before stops had ids fall back to
+// address and position, with repeats such as a round trip's return to the
+// origin told apart by how often they occurred before.
+function keyedStops(
+  waypoints: VersionedWaypoint[],
+  byStopId: boolean,
+): KeyedStop[] {
+  const seen = new Map<string, number>();
+  return waypoints.flatMap((waypoint, waypointIndex) => {
+    if (waypoint.type === 'BREAK') {
+      return [];
+    }
+    if (byStopId) {
+      return [{ key: waypoint.stopId!, waypoint, waypointIndex }];
+    }
+    const base = `${waypoint.address}@${waypoint.latitude.toFixed(6)},${waypoint.longitude.toFixed(6)}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return [{ key: `${base}#${occurrence}`, waypoint, waypointIndex }];
+  });
+}
+
+// Keys of the longest run of stops both orders visit in the same sequence
+function longestCommonOrder(from: string[], to: string[]) {
+  const lengths = from.map(() => new Array<number>(to.length + 1).fill(0));
+  lengths.push(new Array<number>(to.length + 1).fill(0));
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        from[i] === to[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      common.add(from[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+const describeStop = ({ waypoint, waypointIndex }: KeyedStop) => ({
+  stopId: waypoint.stopId,
+  waypointIndex,
+  address: waypoint.address,
+  latitude: waypoint.latitude,
+  longitude: waypoint.longitude,
+  estimatedArrival: waypoint.estimatedArrival,
+});
+
+/**
+ * What changed between two plans of a route: stops added and removed, stops
+ * that moved in the order, how each shared stop's arrival shifted and the
+ * change in total distance and duration. Breaks are rescheduled with every
+ * plan and are left out.
+ */
+export function diffRouteVersions(
+  from: DiffableRouteVersion,
+  to: DiffableRouteVersion,
+) {
+  // Ids only identify stops when both plans have them throughout
+  const byStopId = [...from.waypoints, ...to.waypoints].every(
+    (waypoint) => waypoint.type === 'BREAK' || waypoint.stopId,
+  );
+  const fromStops = keyedStops(from.waypoints, byStopId);
+  const toStops = keyedStops(to.waypoints, byStopId);
+  const fromByKey = new Map(fromStops.map((stop) => [stop.key, stop]));
+  const toKeys = new Set(toStops.map((stop) => stop.key));
+
+  const shared = toStops.filter((stop) => fromByKey.has(stop.key));
+  // A stop only counts as moved when it left the longest sequence both plans
+  // share, so one stop moving doesn't flag every stop it jumped over
+  const inOrder = longestCommonOrder(
+    fromStops.filter((stop) => toKeys.has(stop.key)).map((stop) => stop.key),
+    shared.map((stop) => stop.key),
+  );
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    added: toStops.filter((stop) => !fromByKey.has(stop.key)).map(describeStop),
+    removed: fromStops
+      .filter((stop) => !toKeys.has(stop.key))
+      .map(describeStop),
+    reordered: shared
+      .filter((stop) => !inOrder.has(stop.key))
+      .map((stop) => ({
+        stopId: stop.waypoint.stopId,
+        address: stop.waypoint.address,
+        fromWaypointIndex: fromByKey.get(stop.key)!.waypointIndex,
+        toWaypointIndex: stop.waypointIndex,
+      })),
+    etaShifts: shared.map((stop) => {
+      const previous = fromByKey.get(stop.key)!.waypoint;
+      return {
+        stopId: stop.waypoint.stopId,
+        address: stop.waypoint.address,
+        waypointIndex: stop.waypointIndex,
+        fromArrival: previous.estimatedArrival,
+        toArrival: stop.waypoint.estimatedArrival,
+        // Positive when the stop is now reached later
+        shiftSeconds: Math.round(
+          (Date.parse(stop.waypoint.estimatedArrival) -
+            Date.parse(previous.estimatedArrival)) /
+            1000,
+        ),
+      };
+    }),
+    distance: {
+      from: from.totalDistance,
+      to: to.totalDistance,
+      change: to.totalDistance - from.totalDistance,
+    },
+    duration: {
+      from: from.totalDuration,
+      to: to.totalDuration,
+      change: to.totalDuration - from.totalDuration,
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { ExportableRoute, toCsv, toGeoJson, toGpx } from './route-export.utils';
+
+const route: ExportableRoute = {
+  id: 'route-1',
+  vehicleId: 'truck-7',
+  totalDistance: 1200,
+  totalDuration: 900,
+  routingProvider: 'haversine',
+  createdAt: new Date('2026-10-18T08:00:00.000Z'),
+  waypoints: [
+    {
+      latitude: 52.52,
+      longitude: 13.405,
+      address: 'Depot',
+      estimatedArrival: '2026-10-18T09:00:00.000Z',
+    },
+    {
+      latitude: 52.5,
+      longitude: 13.4,
+      address: 'Müller & Söhne, "Tor 2"',
+      estimatedArrival: '2026-10-18T09:15:00.000Z',
+      timeWindow: {
+        start: '2026-10-18T09:00:00.000Z',
+        end: '2026-10-18T10:00:00.000Z',
+      },
+      demand: { weight: 120 },
+    },
+  ],
+  path: [
+    { latitude: 52.52, longitude: 13.405 },
+    { latitude: 52.51, longitude: 13.41 },
+    { latitude: 52.5, longitude: 13.4 },
+  ],
+};
+
+describe('route export', () => {
+  it('writes one CSV row per waypoint, quoting fields that need it', () => {
+    expect(toCsv(route).split('\r\n')).toEqual([
+      'sequence,type,address,latitude,longitude,estimatedArrival,timeWindowStart,timeWindowEnd,serviceDurationSeconds,waitingSeconds,latenessSeconds,shipmentId,stopType,demandWeight,demandVolume,demandPallets',
+      '1,STOP,Depot,52.52,13.405,2026-10-18T09:00:00.000Z,,,,,,,,,,',
+      '2,STOP,"Müller & Söhne, ""Tor 2""",52.5,13.4,2026-10-18T09:15:00.000Z,2026-10-18T09:00:00.000Z,2026-10-18T10:00:00.000Z,,,,,,120,,',
+      '',
+    ]);
+  });
+
+  it('puts the path and stops into GeoJSON in longitude, latitude order', () => {
+    const { features } = JSON.parse(toGeoJson(route));
+
+    expect(features).toHaveLength(3);
+    expect(features[0].geometry.coordinates[1]).toEqual([13.41, 52.51]);
+    expect(features[0].properties).toMatchObject({
+      routeId: 'route-1',
+      totalDistance: 1200,
+    });
+    expect(features[2].properties).toMatchObject({
+      sequence: 2,
+      estimatedArrival: '2026-10-18T09:15:00.000Z',
+      demand: { weight: 120 },
+    });
+  });
+
+  it('escapes stop details in GPX', () => {
+    const gpx = toGpx(route);
+
+    expect(gpx).toContain(
+      '<name>2. Müller &amp; Söhne, &quot;Tor 2&quot;</name>',
+    );
+    expect(gpx).toContain('<time>2026-10-18T09:15:00.000Z</time>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,259 @@
+import { PlannedWaypoint } from '../routing/routing-provider.interface';
+import { Coordinates } from './geo.utils';
+
+export const ROUTE_EXPORT_FORMATS = ['gpx', 'kml', 'geojson', 'csv'] as const;
+
+export type RouteExportFormat = (typeof ROUTE_EXPORT_FORMATS)[number];
+
+export const ROUTE_EXPORT_CONTENT_TYPES: Record<RouteExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+  csv: 'text/csv',
+};
+
+export type ExportableRoute = {
+  id: string;
+  vehicleId: string;
+  totalDistance: number; // meters
+  totalDuration: number; // seconds
+  routingProvider: string | null;
+  createdAt: Date;
+  waypoints: PlannedWaypoint[];
+  // Road geometry, or straight lines through the waypoints when there is none
+  path: Coordinates[];
+};
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function waypointName(waypoint: PlannedWaypoint, index: number) {
+  return `${index + 1}. ${waypoint.address}`;
+}
+
+// One line per planned detail of a stop: window, service time, goods and shipment
+function describeWaypoint(waypoint: PlannedWaypoint) {
+  const lines = [`Planned arrival: ${waypoint.estimatedArrival}`];
+  if (waypoint.timeWindow) {
+    lines.push(
+      `Time window: ${waypoint.timeWindow.start} to ${waypoint.timeWindow.end}`,
+    );
+  }
+  if (waypoint.serviceDurationSeconds !== undefined) {
+    lines.push(`Service: ${waypoint.serviceDurationSeconds}s`);
+  }
+  if (waypoint.latenessSeconds) {
+    lines.push(`Late by: ${waypoint.latenessSeconds}s`);
+  }
+  if (waypoint.shipmentId) {
+    lines.push(`Shipment: ${waypoint.shipmentId} (${waypoint.stopType})`);
+  }
+  if (waypoint.demand) {
+    lines.push(`Demand: ${formatLoad(waypoint.demand)}`);
+  }
+  return lines.join('\n');
+}
+
+function formatLoad(load: NonNullable<PlannedWaypoint['demand']>) {
+  return Object.entries(load)
+    .map(([dimension, amount]) => `${dimension} ${amount}`)
+    .join(', ');
+}
+
+/**
+ * GPX 1.1 with the stops as waypoints, the visiting order as a route for
+ * navigation apps and the path as a track
+ */
+export function toGpx(route: ExportableRoute) {
+  const point = (tag: string, { latitude, longitude }: Coordinates) =>
+    `<${tag} lat="${latitude}" lon="${longitude}">`;
+  const stopPoint = (
+    tag: string,
+    waypoint: PlannedWaypoint,
+    index: number,
+    indent: string,
+  ) =>
+    [
+      `${indent}${point(tag, waypoint)}`,
+      `${indent}  <time>${escapeXml(waypoint.estimatedArrival)}</time>`,
+      `${indent}  <name>${escapeXml(waypointName(waypoint, index))}</name>`,
+      `${indent}  <desc>${escapeXml(describeWaypoint(waypoint))}</desc>`,
+      `${indent}  <type>${waypoint.type ?? waypoint.stopType ?? 'stop'}</type>`,
+      `${indent}</${tag}>`,
+    ].join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="TMS traffic service" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>Route ${escapeXml(route.id)}</name>`,
+    `    <time>${route.createdAt.toISOString()}</time>`,
+    '  </metadata>',
+    ...route.waypoints.map((waypoint, index) =>
+      stopPoint('wpt', waypoint, index, '  '),
+    ),
+    '  <rte>',
+    `    <name>Vehicle ${escapeXml(route.vehicleId)}</name>`,
+    ...route.waypoints.map((waypoint, index) =>
+      stopPoint('rtept', waypoint, index, '    '),
+    ),
+    '  </rte>',
+    '  <trk>',
+    `    <name>Vehicle ${escapeXml(route.vehicleId)}</name>`,
+    '    <trkseg>',
+    ...route.path.map(
+      (coordinates) => `      ${point('trkpt', coordinates)}</trkpt>`,
+    ),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * KML with a placemark per stop and one for the path
+ */
+export function toKml(route: ExportableRoute) {
+  const coordinates = ({ latitude, longitude }: Coordinates) =>
+    `${longitude},${latitude}`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>Route ${escapeXml(route.id)}</name>`,
+    ...route.waypoints.map((waypoint, index) =>
+      [
+        '    <Placemark>',
+        `      <name>${escapeXml(waypointName(waypoint, index))}</name>`,
+        `      <description>${escapeXml(describeWaypoint(waypoint))}</description>`,
+        `      <TimeStamp><when>${escapeXml(waypoint.estimatedArrival)}</when></TimeStamp>`,
+        `      <Point><coordinates>${coordinates(waypoint)}</coordinates></Point>`,
+        '    </Placemark>',
+      ].join('\n'),
+    ),
+    '    <Placemark>',
+    `      <name>Vehicle ${escapeXml(route.vehicleId)}</name>`,
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${route.path.map(coordinates).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * A GeoJSON FeatureCollection: the path as a LineString carrying the route
+ * totals, then a Point per stop carrying its planned details
+ */
+export function toGeoJson(route: ExportableRoute) {
+  const position = ({ latitude, longitude }: Coordinates) => [
+    longitude,
+    latitude,
+  ];
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: route.path.map(position) },
+        properties: {
+          routeId: route.id,
+          vehicleId: route.vehicleId,
+          provider: route.routingProvider,
+          totalDistance: route.totalDistance,
+          totalDuration: route.totalDuration,
+          createdAt: route.createdAt.toISOString(),
+        },
+      },
+      ...route.waypoints.map(({ latitude, longitude, ...details }, index) => ({
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: position({ latitude, longitude }),
+        },
+        properties: { sequence: index + 1, ...details },
+      })),
+    ],
+  });
+}
+
+const CSV_COLUMNS = [
+  'sequence',
+  'type',
+  'address',
+  'latitude',
+  'longitude',
+  'estimatedArrival',
+  'timeWindowStart',
+  'timeWindowEnd',
+  'serviceDurationSeconds',
+  'waitingSeconds',
+  'latenessSeconds',
+  'shipmentId',
+  'stopType',
+  'demandWeight',
+  'demandVolume',
+  'demandPallets',
+] as const;
+
+function csvField(value: string | number | undefined) {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per waypoint in visiting order
+ */
+export function toCsv(route: ExportableRoute) {
+  const rows = route.waypoints.map((waypoint, index) => {
+    const row: Record<
+      (typeof CSV_COLUMNS)[number],
+      string | number | undefined
+    > = {
+      sequence: index + 1,
+      type: waypoint.type ?? 'STOP',
+      address: waypoint.address,
+      latitude: waypoint.latitude,
+      longitude: waypoint.longitude,
+      estimatedArrival: waypoint.estimatedArrival,
+      timeWindowStart: waypoint.timeWindow?.start,
+      timeWindowEnd: waypoint.timeWindow?.end,
+      serviceDurationSeconds: waypoint.serviceDurationSeconds,
+      waitingSeconds: waypoint.waitingSeconds,
+      latenessSeconds: waypoint.latenessSeconds,
+      shipmentId: waypoint.shipmentId,
+      stopType: waypoint.stopType,
+      demandWeight: waypoint.demand?.weight,
+      demandVolume: waypoint.demand?.volume,
+      demandPallets: waypoint.demand?.pallets,
+    };
+    return CSV_COLUMNS.map((column) => csvField(row[column])).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export function exportRoute(route: ExportableRoute, format: RouteExportFormat) {
+  switch (format) {
+    case 'gpx':
+      return toGpx(route);
+    case 'kml':
+      return toKml(route);
+    case 'geojson':
+      return toGeoJson(route);
+    case 'csv':
+      return toCsv(route);
+  }
+}
@@ -0,0 +1,73 @@
+export const STOP_STATUSES = [
+  'PENDING',
+  'ARRIVED',
+  'COMPLETED',
+  'FAILED',
+  'SKIPPED',
+] as const;
+
+export type StopStatus = (typeof STOP_STATUSES)[number];
+
+// Why a stop could not be served, or was left out
+export const STOP_FAILURE_REASONS = [
+  'RECIPIENT_UNAVAILABLE',
+  'ADDRESS_NOT_FOUND',
+  'ACCESS_DENIED',
+  'REFUSED',
+  'DAMAGED_GOODS',
+  'OUT_OF_TIME',
+  'VEHICLE_ISSUE',
+  'CANCELLED',
+  'OTHER',
+] as const;
+
+export type StopFailureReason = (typeof STOP_FAILURE_REASONS)[number];
+
+// Signature and photos are references to files stored elsewhere, such as
+// object storage keys, not the files themselves
+export type ProofOfDelivery = {
+  recipientName?: string;
+  signatureRef?: string;
+  photoRefs?: string[];
+};
+
+// Where each status can go next; completed, failed and skipped stops are final
+export const STOP_STATUS_TRANSITIONS: Record<StopStatus, StopStatus[]> = {
+  PENDING: ['ARRIVED', 'COMPLETED', 'FAILED', 'SKIPPED'],
+  ARRIVED: ['COMPLETED', 'FAILED', 'SKIPPED'],
+  COMPLETED: [],
+  FAILED: [],
+  SKIPPED: [],
+};
+
+export type StatusedWaypoint = {
+  status?: StopStatus;
+  visitedAt?: string;
+  arrivedAt?: string;
+};
+
+/**
+ * Where a stop is in its lifecycle. Routes planned before stops had a status
+ * fall back to their visit times.
+ */
+export function stopStatusOf(waypoint: StatusedWaypoint): StopStatus {
+  if (waypoint.status) {
+    return waypoint.status;
+  }
+  if (waypoint.visitedAt) {
+    return 'COMPLETED';
+  }
+  return waypoint.arrivedAt ? 'ARRIVED' : 'PENDING';
+}
+
+/**
+ * Stops the vehicle still has to reach. Everything else keeps its place in
+ * the plan when the route is re-planned or re-estimated.
+ */
+export function isStopPending(waypoint: StatusedWaypoint) {
+  return stopStatusOf(waypoint) === 'PENDING';
+}
+
+export function canTransitionStop(from: StopStatus, to: StopStatus) {
+  return STOP_STATUS_TRANSITIONS[from].includes(to);
+}
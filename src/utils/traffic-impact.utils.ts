@@ -0,0 +1,122 @@
+import { TrafficConditionType, TrafficSeverity } from '@prisma/client';
+import { Coordinates, distanceToSegment } from './geo.utils';
+
+// Type aliases (not interfaces) so these stay assignable to Prisma JSON columns
+export type TrafficIncident = {
+  id: string;
+  latitude: number;
+  longitude: number;
+  condition: TrafficConditionType;
+  severity: TrafficSeverity;
+  description: string;
+};
+
+export interface LegTrafficImpact {
+  // Multiplier applied to the leg's travel time
+  durationFactor: number;
+  // Multiplier applied to the leg's cost when ordering stops
+  costFactor: number;
+  blocked: boolean;
+  incidents: TrafficIncident[];
+}
+
+export type AffectedTrafficIncident = TrafficIncident & {
+  affectedLegs: Array<{ from: string; to: string }>;
+  addedDuration: number; // seconds
+};
+
+// Incidents further than this from a leg's straight line are ignored
+export const INCIDENT_PROXIMITY_METERS = 250;
+
+// Only conditions that meaningfully slow a vehicle down affect planning
+export const PLANNING_CONDITIONS: TrafficConditionType[] = [
+  TrafficConditionType.HEAVY,
+  TrafficConditionType.BLOCKED,
+];
+
+const HEAVY_DELAY_FACTOR: Record<TrafficSeverity, number> = {
+  LOW: 1.1,
+  MEDIUM: 1.25,
+  HIGH: 1.5,
+  CRITICAL: 2,
+};
+
+// A blocked road forces a detour, so the leg still costs time even if we have to take it
+const BLOCKED_DETOUR_FACTOR: Record<TrafficSeverity, number> = {
+  LOW: 1.5,
+  MEDIUM: 2,
+  HIGH: 2.5,
+  CRITICAL: 3,
+};
+
+// Extra weight on blocked legs while ordering so the planner avoids them whenever it can
+const BLOCKED_ORDERING_PENALTY = 10;
+
+const NO_IMPACT: LegTrafficImpact = {
+  durationFactor: 1,
+  costFactor: 1,
+  blocked: false,
+  incidents: [],
+};
+
+export function assessLegTraffic(
+  from: Coordinates,
+  to: Coordinates,
+  incidents: TrafficIncident[],
+  proximityMeters = INCIDENT_PROXIMITY_METERS,
+): LegTrafficImpact {
+  if (incidents.length === 0) {
+    return NO_IMPACT;
+  }
+
+  const nearby = incidents.filter(
+    (incident) =>
+      PLANNING_CONDITIONS.includes(incident.condition) &&
+      distanceToSegment(incident, from, to) <= proximityMeters,
+  );
+  if (nearby.length === 0) {
+    return NO_IMPACT;
+  }
+
+  // Overlapping incidents on the same leg don't compound; the worst one wins
+  let durationFactor = 1;
+  let blocked = false;
+  for (const incident of nearby) {
+    const factor =
+      incident.condition === TrafficConditionType.BLOCKED
+        ? BLOCKED_DETOUR_FACTOR[incident.severity]
+        : HEAVY_DELAY_FACTOR[incident.severity];
+    durationFactor = Math.max(durationFactor, factor);
+    blocked = blocked || incident.condition === TrafficConditionType.BLOCKED;
+  }
+
+  return {
+    durationFactor,
+    costFactor: blocked
+      ? durationFactor * BLOCKED_ORDERING_PENALTY
+      : durationFactor,
+    blocked,
+    incidents: nearby,
+  };
+}
+
+/**
+ * Accumulates which incidents touched which legs of a planned route
+ */
+export function recordLegImpact(
+  affected: Map<string, AffectedTrafficIncident>,
+  impact: LegTrafficImpact,
+  leg: { from: string; to: string },
+  addedDuration: number,
+) {
+  for (const incident of impact.incidents) {
+    const entry = affected.get(incident.id) ?? {
+      ...incident,
+      affectedLegs: [],
+      addedDuration: 0,
+    };
+    entry.affectedLegs.push(leg);
+    entry.addedDuration += Math.round(addedDuration / impact.incidents.length);
+    affected.set(incident.id, entry);
+  }
+}
@@ -169,6 +169,16 @@ export class RouteOptimizationGateway implements OnGatewayConnection, OnGatewayD
     this.logger.log(`Broadcasted route optimization requested for ${requestId}`);
   }
 
+  broadcastRouteOptimizationQueued(requestId: string, data: any) {
+    this.server.to(`route:${requestId}`).emit('route_optimization_queued', {
+      requestId,
+      status: 'PENDING',
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted route optimization queued for ${requestId}`);
+  }
+
   broadcastRouteOptimized(requestId: string, data: any) {
     this.server.to(`route:${requestId}`).emit('route_optimized', {
       requestId,
@@ -188,6 +198,67 @@ export class RouteOptimizationGateway implements OnGatewayConnection, OnGatewayD
     this.logger.log(`Broadcasted route update requested for ${routeId}`);
   }
 
+  broadcastRouteUpdated(routeId: string, data: any) {
+    this.server.to(`route:${routeId}`).emit('route_updated', {
+      routeId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted route updated for ${routeId}`);
+  }
+
+  // Subscribers may follow the route itself or the request that planned it
+  broadcastEtaUpdated(routeId: string, requestId: string, data: any) {
+    this.server.to(`route:${routeId}`).to(`route:${requestId}`).emit('eta_updated', {
+      routeId,
+      requestId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted ETA update for ${routeId}`);
+  }
+
+  broadcastStopArrived(routeId: string, requestId: string, data: any) {
+    this.server.to(`route:${routeId}`).to(`route:${requestId}`).emit('stop_arrived', {
+      routeId,
+      requestId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted stop arrival for ${routeId}`);
+  }
+
+  broadcastStopDeparted(routeId: string, requestId: string, data: any) {
+    this.server.to(`route:${routeId}`).to(`route:${requestId}`).emit('stop_departed', {
+      routeId,
+      requestId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted stop departure for ${routeId}`);
+  }
+
+  // Stops completed, failed or skipped by the driver
+  broadcastStopStatusChanged(routeId: string, requestId: string, data: any) {
+    this.server.to(`route:${routeId}`).to(`route:${requestId}`).emit('stop_status_changed', {
+      routeId,
+      requestId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted stop status change for ${routeId}`);
+  }
+
+  broadcastRouteDeviation(routeId: string, requestId: string, userId: string, data: any) {
+    this.server.to(`route:${routeId}`).to(`route:${requestId}`).to(`user:${userId}`).emit('route_deviation', {
+      routeId,
+      requestId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+    this.logger.log(`Broadcasted route deviation for ${routeId}`);
+  }
+
   broadcastRouteOptimizationFailed(requestId: string, error: any) {
     this.server.to(`route:${requestId}`).emit('route_optimization_failed', {
       requestId,
@@ -198,6 +269,15 @@ export class RouteOptimizationGateway implements OnGatewayConnection, OnGatewayD
     this.logger.log(`Broadcasted route optimization failed for ${requestId}`);
   }
 
+  broadcastRouteOptimizationCancelled(requestId: string) {
+    this.server.to(`route:${requestId}`).emit('route_optimization_cancelled', {
+      requestId,
+      status: 'CANCELLED',
+      timestamp: new Date().toISOString(),
+    });
+    this.logger.log(`Broadcasted route optimization cancelled for ${requestId}`);
+  }
+
   // Method to get connected clients count
   getConnectedClientsCount(): number {
     return this.connectedClients.size;